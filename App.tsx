@@ -1,16 +1,33 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Header } from './components/Header';
+import type { AppView } from './components/Header';
 import { Footer } from './components/Footer';
 import { ProductInputForm } from './components/ProductInputForm';
 import { ResultsDisplay } from './components/ResultsDisplay';
 import { LoadingSpinner } from './components/LoadingSpinner';
-import type { AnalysisResult, CsvProduct } from './types';
-import { analyzeSingleProduct, analyzeBatchProducts } from './services/geminiService';
+import { HistoryView } from './components/HistoryView';
+import { WatchlistView } from './components/WatchlistView';
+import { CompetitorsView } from './components/CompetitorsView';
+import { ProjectBar } from './components/ProjectBar';
+import type { AnalysisResult, AnalysisFailure, AnalysisRequest, BatchProgress, PriceReview } from './types';
+import { analyzeSingleProduct, analyzeBatchProducts } from './services/analysisService';
+import { loadCheckpoint, startCheckpoint, recordCompletedRows, clearCheckpoint, countCompletedRows, attachRunToCheckpoint } from './services/checkpointService';
+import type { BatchCheckpoint } from './services/checkpointService';
+import { saveRun, updateRunResults } from './services/historyService';
+import type { AnalysisRun } from './services/historyService';
+import { applyReviews } from './services/reviewService';
+import { startWatchScheduler, subscribeToWatchlist, getAlerts } from './services/watchlistService';
+import type { WatchAlert } from './services/watchlistService';
+import type { AnalysisExport } from './services/exportService';
+import { recordStoreListings } from './services/competitorRegistry';
+import { getActiveProjectId, rememberProjectInput, subscribeToProjects } from './services/projectService';
 
 type AppState = {
-  status: 'idle' | 'loading' | 'success' | 'error';
+  status: 'idle' | 'loading' | 'success' | 'error' | 'cancelled';
   data: AnalysisResult | null;
+  failures: AnalysisFailure[];
+  progress: BatchProgress | null;
   error: string | null;
 };
 
@@ -18,26 +35,173 @@ const App: React.FC = () => {
   const [state, setState] = useState<AppState>({
     status: 'idle',
     data: null,
+    failures: [],
+    progress: null,
     error: null,
   });
+  const [view, setView] = useState<AppView>('analyze');
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const progressRef = useRef<BatchProgress | null>(null);
+  const savedRunRef = useRef<Promise<AnalysisRun> | null>(null); // History entry of the results on screen
+  const [unreadAlerts, setUnreadAlerts] = useState(() => getAlerts().filter(alert => !alert.read).length);
+  const [projectId, setProjectId] = useState(getActiveProjectId);
+  const projectIdRef = useRef(projectId);
 
-  const handleAnalysis = async (input: { type: 'url', userProductUrl: string, competitorUrls: string[] } | { type: 'csv', products: CsvProduct[] }) => {
-    setState({ status: 'loading', data: null, error: null });
+  useEffect(() => subscribeToWatchlist(() => setUnreadAlerts(getAlerts().filter(alert => !alert.read).length)), []);
+
+  // Re-analyze watched products for as long as the app is open
+  useEffect(() => {
+    if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      Notification.requestPermission().catch(() => undefined);
+    }
+    return startWatchScheduler((alerts: WatchAlert[]) => {
+      if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+      alerts.forEach(alert => new Notification(`PredictGenie: ${alert.productName}`, { body: alert.message }));
+    });
+  }, []);
+  // An interrupted batch run that can be resumed, restored on page load
+  const [checkpoint, setCheckpoint] = useState<BatchCheckpoint | null>(() => loadCheckpoint());
+
+  // Results on screen belong to the previous project once another one is opened
+  useEffect(() => subscribeToProjects(() => {
+    const activeId = getActiveProjectId();
+    if (activeId === projectIdRef.current) return;
+    projectIdRef.current = activeId;
+    savedRunRef.current = null;
+    setProjectId(activeId);
+    setState({ status: 'idle', data: null, failures: [], progress: null, error: null });
+    setCheckpoint(loadCheckpoint());
+  }), []);
+
+  const handleAnalysis = async (input: AnalysisRequest, resumeFrom?: BatchCheckpoint) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    progressRef.current = null;
+    savedRunRef.current = null;
+    setState({ status: 'loading', data: null, failures: [], progress: null, error: null });
+    if (input.type === 'url') {
+      const { type, ...urlInput } = input;
+      rememberProjectInput({ urlInput });
+    } else {
+      rememberProjectInput({ products: input.products });
+    }
+    // A resumed batch completes the run its partial results were saved to instead of saving them twice
+    const resumedRunId = resumeFrom?.runId;
     try {
       let result: AnalysisResult;
+      let failures: AnalysisFailure[] = [];
       if (input.type === 'url') {
-        const singleResult = await analyzeSingleProduct(input.userProductUrl, input.competitorUrls);
+        const singleResult = await analyzeSingleProduct(input, controller.signal);
         result = [singleResult]; // Wrap single result in an array for consistent handling
       } else {
-        result = await analyzeBatchProducts(input.products);
+        const runCheckpoint = startCheckpoint(input.products, resumeFrom);
+        setCheckpoint(null);
+        const batch = await analyzeBatchProducts(input.products, {
+          signal: controller.signal,
+          completedRows: runCheckpoint.completedRows,
+          onRowsCompleted: rows => recordCompletedRows(runCheckpoint, rows),
+          onProgress: progress => {
+            progressRef.current = progress;
+            setState(prev => ({ ...prev, progress }));
+          },
+        });
+        clearCheckpoint();
+        if (batch.results.length === 0) {
+          throw new Error(`None of the ${input.products.length} products could be analyzed. ${batch.failures.map(f => `${f.productName}: ${f.reason}`).join(' ')}`);
+        }
+        result = batch.results;
+        failures = batch.failures;
       }
-      setState({ status: 'success', data: result, error: null });
+      setState({ status: 'success', data: result, failures, progress: null, error: null });
+      persistRun(result, failures, input.type === 'url' ? 'single' : 'batch', resumedRunId);
     } catch (err) {
+      if (input.type === 'csv') {
+        // Keep finished rows around so the run can be resumed later
+        const saved = loadCheckpoint();
+        if (saved && countCompletedRows(saved) > 0) {
+          setCheckpoint(saved);
+        } else {
+          clearCheckpoint();
+        }
+      }
+      if (controller.signal.aborted) {
+        const partial = progressRef.current?.partial;
+        if (partial && partial.results.length > 0) {
+          persistRun(partial.results, partial.failures, 'batch', resumedRunId);
+          // Resuming later adds to this run; its rows stay in the checkpoint and aren't saved again
+          const runProjectId = projectIdRef.current;
+          savedRunRef.current?.then(run => {
+            if (getActiveProjectId() !== runProjectId) return;
+            const updated = attachRunToCheckpoint(run.id);
+            if (updated) setCheckpoint(updated);
+          }).catch(() => undefined);
+        }
+        setState({
+          status: 'cancelled',
+          data: partial?.results.length ? partial.results : null,
+          failures: partial?.failures || [],
+          progress: null,
+          error: null,
+        });
+        return;
+      }
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      setState({ status: 'error', data: null, error: errorMessage });
+      setState({ status: 'error', data: null, failures: [], progress: null, error: errorMessage });
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
+  // History is best-effort: a storage failure must not hide the results just shown
+  const persistRun = (results: AnalysisResult, failures: AnalysisFailure[], mode: 'single' | 'batch', runId?: string) => {
+    recordStoreListings(results);
+    // A run deleted from history since it was interrupted is saved as a new one
+    const saved = runId
+      ? updateRunResults(runId, results, failures).catch(() => saveRun(results, failures, mode))
+      : saveRun(results, failures, mode);
+    savedRunRef.current = saved;
+    saved.catch(err => console.warn('Could not save analysis to history:', err));
+  };
+
+  // Decisions are kept with the run in history, so the decision log survives a reload
+  const handleReview = (reviews: Record<number, PriceReview | null>) => {
+    if (!state.data) return;
+    const results = applyReviews(state.data, reviews);
+    setState(prev => ({ ...prev, data: results }));
+    savedRunRef.current
+      ?.then(run => updateRunResults(run.id, results))
+      .catch(err => console.warn('Could not save review decisions:', err));
+  };
+
+  const handleImportRun = (run: AnalysisExport) => {
+    savedRunRef.current = null;
+    setState({ status: 'success', data: run.results, failures: run.failures, progress: null, error: null });
+  };
+
+  // Accepted search results become ordinary competitors; nothing new is searched for.
+  // The request is rebuilt from the result on screen, which may come from an import.
+  const rerunProduct = state.data?.length === 1 && state.data[0].userProduct.url ? state.data[0].userProduct : null;
+  const handleRerunWithCompetitors = (competitorUrls: string[]) => {
+    if (!rerunProduct?.url) return;
+    const { url, currency, constraints } = rerunProduct;
+    handleAnalysis({ type: 'url', userProductUrl: url, competitorUrls, currency, constraints, findCompetitors: false });
+  };
+
+  const handleCancel = () => abortControllerRef.current?.abort();
+
+  const handleResume = () => {
+    if (checkpoint) {
+      handleAnalysis({ type: 'csv', products: checkpoint.products }, checkpoint);
+    }
+  };
+
+  const handleDiscardCheckpoint = () => {
+    clearCheckpoint();
+    setCheckpoint(null);
+  };
+
   const WelcomeMessage = () => (
     <div className="text-center p-8 rounded-lg bg-dark-card border border-dark-border mt-8">
       <h2 className="text-2xl font-bold text-white mb-2">Welcome to PredictGenie</h2>
@@ -49,28 +213,62 @@ const App: React.FC = () => {
 
   return (
     <div className="flex flex-col min-h-screen font-sans">
-      <Header />
+      <Header view={view} onViewChange={setView} badges={{ watchlist: unreadAlerts }} />
       <main className="flex-grow container mx-auto px-4 py-8">
-        <ProductInputForm onAnalyze={handleAnalysis} isLoading={state.status === 'loading'} />
-        
-        {state.status === 'loading' && (
-          <div className="flex justify-center items-center mt-8">
-            <LoadingSpinner />
-          </div>
-        )}
-
-        {state.status === 'error' && (
-          <div className="mt-8 text-center p-4 bg-red-900/50 border border-red-500 text-red-300 rounded-lg">
-            <p className="font-bold">Analysis Failed</p>
-            <p>{state.error}</p>
-          </div>
-        )}
-
-        {state.status === 'success' && state.data && (
-          <ResultsDisplay result={state.data} />
-        )}
-
-        {state.status === 'idle' && <WelcomeMessage />}
+        <ProjectBar disabled={state.status === 'loading'} />
+        {view === 'history' && <HistoryView key={projectId} />}
+        {view === 'watchlist' && <WatchlistView />}
+        {view === 'competitors' && <CompetitorsView key={projectId} />}
+        {/* Kept mounted while viewing history so form input and a running analysis are not lost */}
+        <div className={view === 'analyze' ? '' : 'hidden'}>
+          <ProductInputForm key={projectId} onAnalyze={handleAnalysis} onImportRun={handleImportRun} isLoading={state.status === 'loading'} />
+
+          {checkpoint && state.status !== 'loading' && (
+            <div className="mt-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 p-4 bg-slate-800 border border-brand-primary rounded-lg">
+              <p className="text-dark-text-secondary text-sm">
+                An interrupted batch of {checkpoint.products.length} products can be resumed.{' '}
+                {countCompletedRows(checkpoint)} already analyzed rows will not be sent again.
+              </p>
+              <div className="flex space-x-2 flex-shrink-0">
+                <button type="button" onClick={handleResume} className="px-4 py-2 text-sm font-semibold rounded-md bg-brand-primary text-white hover:bg-brand-secondary transition-colors">Resume</button>
+                <button type="button" onClick={handleDiscardCheckpoint} className="px-4 py-2 text-sm font-semibold rounded-md text-dark-text-secondary hover:bg-slate-700 transition-colors">Discard</button>
+              </div>
+            </div>
+          )}
+
+          {state.status === 'loading' && (
+            <div className="flex flex-col justify-center items-center mt-8 space-y-4">
+              <LoadingSpinner progress={state.progress} />
+              <button type="button" onClick={handleCancel} className="px-4 py-2 text-sm font-semibold rounded-md border border-dark-border text-dark-text-secondary hover:text-red-400 hover:border-red-400 transition-colors">
+                Cancel
+              </button>
+            </div>
+          )}
+
+          {state.status === 'loading' && state.progress && state.progress.partial.results.length > 0 && (
+            <ResultsDisplay result={state.progress.partial.results} failures={state.progress.partial.failures} isPartial />
+          )}
+
+          {state.status === 'error' && (
+            <div className="mt-8 text-center p-4 bg-red-900/50 border border-red-500 text-red-300 rounded-lg">
+              <p className="font-bold">Analysis Failed</p>
+              <p>{state.error}</p>
+            </div>
+          )}
+
+          {state.status === 'cancelled' && (
+            <div className="mt-8 text-center p-4 bg-yellow-900/30 border border-yellow-700 text-yellow-200 rounded-lg">
+              <p className="font-bold">Analysis Cancelled</p>
+              {state.data && <p>Showing the {state.data.length} products analyzed before cancelling.</p>}
+            </div>
+          )}
+
+          {(state.status === 'success' || state.status === 'cancelled') && state.data && (
+            <ResultsDisplay result={state.data} failures={state.failures} isPartial={state.status === 'cancelled'} onRerunWithCompetitors={rerunProduct ? handleRerunWithCompetitors : undefined} onReview={handleReview} />
+          )}
+
+          {state.status === 'idle' && <WelcomeMessage />}
+        </div>
       </main>
       <Footer />
     </div>
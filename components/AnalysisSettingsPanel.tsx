@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import type { AnalysisSettings, AnalysisStrategy, PromptTemplates } from '../types';
+import {
+  getAnalysisSettings,
+  getTemplateVersion,
+  listTemplateVersions,
+  saveAnalysisSettings,
+  saveTemplateVersion,
+  subscribeToAnalysisSettings,
+} from '../services/analysisSettingsService';
+import {
+  ANALYSIS_MODELS,
+  ANALYSIS_STRATEGIES,
+  BUILTIN_TEMPLATES,
+  BUILTIN_TEMPLATE_VERSION,
+  TEMPERATURE_RANGE,
+  TEMPLATE_PLACEHOLDERS,
+  strategyInstruction,
+} from '../services/promptTemplates';
+import { formatDateTime } from '../utils/formatters';
+
+const TEMPLATE_FIELDS: { kind: keyof PromptTemplates; label: string }[] = [
+  { kind: 'single', label: 'URL analysis' },
+  { kind: 'batch', label: 'Batch (CSV) analysis' },
+];
+
+const selectedTemplates = (version: number): PromptTemplates => {
+  const template = getTemplateVersion(version) || BUILTIN_TEMPLATES;
+  return { single: template.single, batch: template.batch };
+};
+
+// Strategy, model and prompt templates of the AI analysis, saved per project
+export const AnalysisSettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<AnalysisSettings>(getAnalysisSettings);
+  const [versions, setVersions] = useState(listTemplateVersions);
+  const [draft, setDraft] = useState<PromptTemplates>(() => selectedTemplates(settings.templateVersion));
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeToAnalysisSettings(() => {
+    setSettings(getAnalysisSettings());
+    setVersions(listTemplateVersions());
+  }), []);
+
+  const update = (next: AnalysisSettings) => {
+    setSettings(next);
+    saveAnalysisSettings(next);
+  };
+
+  const selectVersion = (version: number) => {
+    update({ ...settings, templateVersion: version });
+    setDraft(selectedTemplates(version));
+    setError(null);
+  };
+
+  const handleSaveVersion = () => {
+    setError(null);
+    try {
+      const saved = saveTemplateVersion(draft, note);
+      setDraft(selectedTemplates(saved.version));
+      setNote('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The templates could not be saved.');
+    }
+  };
+
+  const current = selectedTemplates(settings.templateVersion);
+  const isEdited = draft.single !== current.single || draft.batch !== current.batch;
+
+  return (
+    <details className="p-4 border border-dark-border rounded-lg bg-slate-900/50">
+      <summary className="cursor-pointer text-sm font-semibold text-white">AI Strategy &amp; Model</summary>
+      <div className="mt-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-dark-text-secondary mb-1">Strategy</label>
+            <select value={settings.strategy} onChange={e => update({ ...settings, strategy: e.target.value as AnalysisStrategy })} className="w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm">
+              {ANALYSIS_STRATEGIES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-dark-text-secondary mb-1">Model</label>
+            <select value={settings.model} onChange={e => update({ ...settings, model: e.target.value })} className="w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm">
+              {ANALYSIS_MODELS.map(model => <option key={model} value={model}>{model}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-dark-text-secondary mb-1">Temperature ({TEMPERATURE_RANGE.min}–{TEMPERATURE_RANGE.max})</label>
+            <input type="number" step="0.1" min={TEMPERATURE_RANGE.min} max={TEMPERATURE_RANGE.max} value={settings.temperature}
+              onChange={e => update({ ...settings, temperature: Math.min(TEMPERATURE_RANGE.max, Math.max(TEMPERATURE_RANGE.min, parseFloat(e.target.value) || 0)) })}
+              className="w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm text-dark-text-primary" />
+          </div>
+        </div>
+        <p className="text-xs text-dark-text-secondary">{strategyInstruction(settings.strategy)}</p>
+
+        <div>
+          <label className="block text-sm font-medium text-dark-text-secondary mb-1">Prompt template</label>
+          <select value={settings.templateVersion} onChange={e => selectVersion(Number(e.target.value))} className="w-full md:w-1/2 bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm">
+            {versions.map(template => (
+              <option key={template.version} value={template.version}>
+                {template.version === BUILTIN_TEMPLATE_VERSION ? 'Built-in' : `v${template.version} · ${formatDateTime(template.createdAt)}${template.note ? ` · ${template.note}` : ''}`}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <details>
+          <summary className="cursor-pointer text-sm text-dark-text-secondary hover:text-white">Edit templates</summary>
+          <div className="mt-3 space-y-3">
+            {TEMPLATE_FIELDS.map(({ kind, label }) => (
+              <div key={kind}>
+                <label className="block text-sm font-medium text-dark-text-secondary mb-1">{label}</label>
+                <textarea value={draft[kind]} onChange={e => setDraft(prev => ({ ...prev, [kind]: e.target.value }))} rows={10} spellCheck={false}
+                  className="w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-xs font-mono text-dark-text-primary" />
+                <p className="text-xs text-dark-text-secondary mt-1">
+                  {TEMPLATE_PLACEHOLDERS[kind].map(placeholder => (
+                    <span key={placeholder.name} className="mr-3" title={placeholder.description}>
+                      <code className="text-brand-primary">{`{{${placeholder.name}}}`}</code>{placeholder.required && ' (required)'}
+                    </span>
+                  ))}
+                </p>
+              </div>
+            ))}
+            <div className="flex flex-wrap items-center gap-2">
+              <input type="text" value={note} onChange={e => setNote(e.target.value)} placeholder="What changed (optional)"
+                className="flex-grow bg-slate-900 border border-dark-border rounded-md px-3 py-1.5 text-sm text-dark-text-primary" />
+              <button type="button" onClick={() => { setDraft(current); setError(null); }} disabled={!isEdited}
+                className="px-3 py-1.5 text-sm rounded-md border border-dark-border text-dark-text-secondary hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed">Discard changes</button>
+              <button type="button" onClick={handleSaveVersion} disabled={!isEdited}
+                className="px-3 py-1.5 text-sm font-semibold rounded-md bg-brand-primary text-white hover:bg-brand-secondary disabled:opacity-50 disabled:cursor-not-allowed">Save as new version</button>
+            </div>
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <p className="text-xs text-dark-text-secondary">Saved versions can't be changed, so every result keeps a record of the exact prompt it came from. The expected JSON format is added after the template by the server.</p>
+          </div>
+        </details>
+
+        <p className="text-xs text-dark-text-secondary">These settings are stored with every result, so runs can be reproduced and compared in History. Changes apply to the next analysis.</p>
+      </div>
+    </details>
+  );
+};
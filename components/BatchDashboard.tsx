@@ -0,0 +1,101 @@
+import React, { useMemo } from 'react';
+import type { AnalysisResult } from '../types';
+import { Card } from './common/Card';
+import { BarChart } from './charts/BarChart';
+import { formatCurrency } from '../utils/formatters';
+import { CHANGE_BUCKETS, MARKET_POSITION_LABELS, computeBatchInsights } from '../services/batchInsights';
+import type { MarketPosition } from '../services/batchInsights';
+import { ELASTICITY_MODELS, getElasticityConfig } from '../services/simulatorService';
+import { describeResultSettings } from '../services/promptTemplates';
+
+const POSITIONS: MarketPosition[] = ['cheapest', 'midPack', 'mostExpensive', 'noComparison'];
+
+const formatChange = (pct: number) => `${pct > 0 ? '+' : ''}${pct.toFixed(1)}%`;
+
+const changeClass = (pct: number) => (pct > 0 ? 'text-green-400' : pct < 0 ? 'text-red-400' : 'text-gray-400');
+
+const formatShare = (count: number, total: number) => (total > 0 ? `${Math.round((count / total) * 100)}%` : '—');
+
+// Batch-wide overview shown above the per-product table
+export const BatchDashboard: React.FC<{ results: AnalysisResult }> = ({ results }) => {
+  const elasticity = getElasticityConfig();
+  const insights = useMemo(() => computeBatchInsights(results, elasticity), [results, elasticity.model, elasticity.elasticity]);
+  const model = ELASTICITY_MODELS.find(m => m.id === elasticity.model) || ELASTICITY_MODELS[0];
+  const settings = useMemo(() => describeResultSettings(results), [results]);
+
+  return (
+    <Card>
+      <h2 className="text-xl font-bold text-white mb-1">Batch Overview</h2>
+      <p className="text-xs text-dark-text-secondary mb-4">{settings.length > 0 ? settings.join(' | ') : 'Analysis settings were not recorded for these results.'}</p>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h3 className="text-sm font-semibold text-dark-text-primary mb-2">Position against competitors (SKUs)</h3>
+          <BarChart
+            categories={POSITIONS.map(p => MARKET_POSITION_LABELS[p])}
+            series={[
+              { label: 'Current price', color: '#0d9488', values: POSITIONS.map(p => insights.positions.current[p]) },
+              { label: 'Suggested price', color: '#f1f5f9', values: POSITIONS.map(p => insights.positions.suggested[p]) },
+            ]}
+            formatY={value => String(Math.round(value))}
+          />
+        </div>
+        <div>
+          <h3 className="text-sm font-semibold text-dark-text-primary mb-2">Suggested price changes (SKUs)</h3>
+          <BarChart
+            categories={CHANGE_BUCKETS.map(b => b.label)}
+            series={[{ label: 'Products', color: '#0d9488', values: insights.changeBuckets }]}
+            formatY={value => String(Math.round(value))}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+        <div>
+          <h3 className="text-sm font-semibold text-dark-text-primary mb-2">Most frequent competitors</h3>
+          {insights.domains.length === 0 ? (
+            <p className="text-sm text-dark-text-secondary">No comparable competitor listings.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-dark-text-secondary border-b border-dark-border">
+                  <th className="py-2 pr-3 font-medium">Domain</th>
+                  <th className="py-2 px-3 font-medium text-right">SKUs</th>
+                  <th className="py-2 px-3 font-medium text-right">We're cheaper now</th>
+                  <th className="py-2 pl-3 font-medium text-right">After suggestions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {insights.domains.map(d => (
+                  <tr key={d.domain} className="border-b border-dark-border/50">
+                    <td className="py-2 pr-3 text-white truncate max-w-[12rem]" title={d.domain}>{d.domain}</td>
+                    <td className="py-2 px-3 text-right text-dark-text-secondary">{d.listings}</td>
+                    <td className="py-2 px-3 text-right text-dark-text-secondary">{formatShare(d.beatenNow, d.listings)}</td>
+                    <td className="py-2 pl-3 text-right text-white">{formatShare(d.beatenSuggested, d.listings)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <div>
+          <h3 className="text-sm font-semibold text-dark-text-primary mb-2">Revenue impact if every suggestion is applied</h3>
+          <div className="space-y-2">
+            {insights.revenue.map(r => (
+              <div key={r.currency} className="p-3 rounded-md bg-slate-900/50 border border-dark-border">
+                <p className="text-xs text-dark-text-secondary">{r.currency || 'Unknown currency'} · {r.products} {r.products === 1 ? 'product' : 'products'}</p>
+                <p className="text-lg font-semibold text-white">
+                  {formatCurrency(r.currentRevenue, r.currency || undefined)} → {formatCurrency(r.suggestedRevenue, r.currency || undefined)}{' '}
+                  <span className={changeClass(r.changePct)}>({formatChange(r.changePct)})</span>
+                </p>
+                <p className="text-xs text-dark-text-secondary">Price changes add up to {formatCurrency(r.priceChange, r.currency || undefined)} before any change in demand.</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-dark-text-secondary mt-2">
+            Assumes one unit of each product at today's price; units at the suggested price follow the {model.label.toLowerCase()} demand model (elasticity {elasticity.elasticity}) set in the What-If Simulator.
+          </p>
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,296 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { CompetitorStore } from '../types';
+import { Card } from './common/Card';
+import { TrashIcon } from './icons/TrashIcon';
+import { LineChart } from './charts/LineChart';
+import { listRuns } from '../services/historyService';
+import type { AnalysisRun } from '../services/historyService';
+import {
+  DEFAULT_TRUST_WEIGHT,
+  buildCompetitorProfile,
+  deleteCompetitorStore,
+  getCompetitorStores,
+  listSeenDomains,
+  saveCompetitorStore,
+  subscribeToCompetitorStores,
+} from '../services/competitorRegistry';
+import { formatCurrency, formatDateTime, formatShortDate } from '../utils/formatters';
+
+interface StoreFields {
+  id?: string;
+  name: string;
+  domain: string;
+  region: string;
+  shippingCost: string;
+  taxExcluded: boolean;
+  taxRatePct: string;
+  trustWeight: string;
+}
+
+const EMPTY_STORE_FIELDS: StoreFields = { name: '', domain: '', region: '', shippingCost: '', taxExcluded: false, taxRatePct: '', trustWeight: String(DEFAULT_TRUST_WEIGHT) };
+
+const toFields = (store: CompetitorStore): StoreFields => ({
+  id: store.id,
+  name: store.name,
+  domain: store.domain,
+  region: store.region || '',
+  shippingCost: store.shippingCost !== undefined ? String(store.shippingCost) : '',
+  taxExcluded: !!store.taxExcluded,
+  taxRatePct: store.taxRatePct !== undefined ? String(store.taxRatePct) : '',
+  trustWeight: String(store.trustWeight),
+});
+
+// Empty fields are left out; anything else must be a non-negative number
+const readOptionalNumber = (value: string, label: string): number | undefined => {
+  if (!value.trim()) return undefined;
+  const number = parseFloat(value);
+  if (!Number.isFinite(number) || number < 0) throw new Error(`${label} must be a number of 0 or more.`);
+  return number;
+};
+
+const formatPct = (pct: number) => `${Math.round(pct)}%`;
+
+const Stat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="p-3 rounded-md bg-slate-900/50 border border-dark-border">
+    <p className="text-xs text-dark-text-secondary">{label}</p>
+    <p className="text-lg font-semibold text-white">{value}</p>
+    {hint && <p className="text-xs text-dark-text-secondary">{hint}</p>}
+  </div>
+);
+
+const CompetitorProfileCard: React.FC<{ runs: AnalysisRun[]; domain: string; store?: CompetitorStore; onClose: () => void }> = ({ runs, domain, store, onClose }) => {
+  const profile = useMemo(() => buildCompetitorProfile(runs, domain), [runs, domain]);
+  const indexSeries = [{ label: 'Price index', color: '#f59e0b', points: profile.priceIndexByRun.map(p => ({ x: new Date(p.createdAt).getTime(), y: p.priceIndex })) }];
+
+  return (
+    <Card>
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-white">{store?.name || domain}</h2>
+          <p className="text-sm text-dark-text-secondary">
+            {domain}{store?.region ? ` · ${store.region}` : ''}
+            {profile.firstSeen && profile.lastSeen && ` · Seen ${formatShortDate(new Date(profile.firstSeen).getTime())} to ${formatShortDate(new Date(profile.lastSeen).getTime())}`}
+          </p>
+        </div>
+        <button type="button" onClick={onClose} className="text-sm text-dark-text-secondary hover:text-white transition">Close</button>
+      </div>
+      {profile.listings === 0 ? (
+        <p className="text-sm text-dark-text-secondary">This store has not appeared in any saved run yet.</p>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Stat label="Typical price index" value={profile.priceIndex !== null ? String(profile.priceIndex) : '—'} hint="100 = our price; below 100 is cheaper than us" />
+            <Stat label="Listings" value={String(profile.listings)} hint={`${profile.products} products, ${profile.runs} runs`} />
+            <Stat label="Out of stock" value={formatPct(profile.outOfStockPct)} hint={`Low stock ${formatPct(profile.lowStockPct)}`} />
+            <Stat label="Price trend" value={`↑ ${formatPct(profile.trendPct.up)} · ↓ ${formatPct(profile.trendPct.down)}`} hint={`Stable ${formatPct(profile.trendPct.stable)}`} />
+          </div>
+          <div>
+            <h3 className="text-sm font-semibold text-dark-text-primary mb-2">Price index by run</h3>
+            <LineChart series={indexSeries} formatX={formatShortDate} formatY={value => value.toFixed(0)} height={200} />
+          </div>
+          <div className="overflow-x-auto">
+            <h3 className="text-sm font-semibold text-dark-text-primary mb-2">Recent listings</h3>
+            <table className="min-w-full text-sm">
+              <thead className="border-b border-dark-border">
+                <tr>
+                  <th className="py-2 px-3 text-left font-semibold text-dark-text-secondary">Seen</th>
+                  <th className="py-2 px-3 text-left font-semibold text-dark-text-secondary">Our product</th>
+                  <th className="py-2 px-3 text-right font-semibold text-dark-text-secondary">Our price</th>
+                  <th className="py-2 px-3 text-right font-semibold text-dark-text-secondary">Their price</th>
+                  <th className="py-2 px-3 text-left font-semibold text-dark-text-secondary">Stock</th>
+                  <th className="py-2 px-3 text-left font-semibold text-dark-text-secondary">Trend</th>
+                </tr>
+              </thead>
+              <tbody>
+                {profile.recent.map(listing => (
+                  <tr key={`${listing.runId}-${listing.competitor.url}`} className="border-b border-dark-border">
+                    <td className="py-2 px-3 text-dark-text-secondary whitespace-nowrap">{formatDateTime(listing.createdAt)}</td>
+                    <td className="py-2 px-3 text-white truncate max-w-xs" title={listing.ourProductName}>{listing.ourProductName}</td>
+                    <td className="py-2 px-3 text-right text-dark-text-secondary">{formatCurrency(listing.ourPrice, listing.ourCurrency)}</td>
+                    <td className="py-2 px-3 text-right text-white">
+                      <a href={listing.competitor.url} target="_blank" rel="noopener noreferrer" className="hover:text-brand-primary">{formatCurrency(listing.competitor.price, listing.competitor.currency || listing.ourCurrency)}</a>
+                    </td>
+                    <td className="py-2 px-3 text-dark-text-secondary">{listing.competitor.stockStatus}</td>
+                    <td className="py-2 px-3 text-dark-text-secondary">{listing.competitor.priceTrend}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export const CompetitorsView: React.FC = () => {
+  const [stores, setStores] = useState(getCompetitorStores);
+  const [runs, setRuns] = useState<AnalysisRun[]>([]);
+  const [fields, setFields] = useState<StoreFields>(EMPTY_STORE_FIELDS);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [selectedDomain, setSelectedDomain] = useState<string | null>(null);
+
+  useEffect(() => subscribeToCompetitorStores(() => setStores(getCompetitorStores())), []);
+
+  useEffect(() => {
+    listRuns()
+      .then(setRuns)
+      .catch(err => setHistoryError(err instanceof Error ? err.message : 'Failed to load history.'));
+  }, []);
+
+  // Domains from past runs that aren't in the registry yet
+  const unregistered = useMemo(
+    () => listSeenDomains(runs).filter(seen => !stores.some(store => seen.domain === store.domain || seen.domain.endsWith(`.${store.domain}`))),
+    [runs, stores],
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const trustWeight = readOptionalNumber(fields.trustWeight, 'Trust weight') ?? DEFAULT_TRUST_WEIGHT;
+      if (trustWeight > 1) throw new Error('Trust weight must be between 0 and 1.');
+      saveCompetitorStore({
+        id: fields.id,
+        name: fields.name,
+        domain: fields.domain,
+        region: fields.region.trim() || undefined,
+        shippingCost: readOptionalNumber(fields.shippingCost, 'Shipping cost'),
+        taxExcluded: fields.taxExcluded || undefined,
+        taxRatePct: readOptionalNumber(fields.taxRatePct, 'Tax rate'),
+        trustWeight,
+      });
+      setFields(EMPTY_STORE_FIELDS);
+      setFormError(null);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Could not save the store.');
+    }
+  };
+
+  const handleDelete = (store: CompetitorStore) => {
+    if (!window.confirm(`Remove ${store.name} from the registry? Its known product pages are forgotten too.`)) return;
+    deleteCompetitorStore(store.id);
+    if (fields.id === store.id) setFields(EMPTY_STORE_FIELDS);
+  };
+
+  const selectedStore = stores.find(store => store.domain === selectedDomain);
+  const inputClass = 'w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm';
+
+  return (
+    <div className="space-y-8">
+      {historyError && (
+        <div className="p-4 bg-red-900/50 border border-red-500 text-red-300 rounded-lg">{historyError}</div>
+      )}
+
+      <Card>
+        <h2 className="text-xl font-bold text-white mb-1">Competitor Registry</h2>
+        <p className="text-sm text-dark-text-secondary mb-4">
+          Saved stores can be picked in the analysis form, and batch runs add their product pages automatically once a run has found them.
+          Shipping and tax are added to their prices, and the trust weight sets how much they count in the rule-based price.
+        </p>
+        {stores.length === 0 ? (
+          <p className="text-sm text-dark-text-secondary mb-6">No stores saved yet.</p>
+        ) : (
+          <div className="overflow-x-auto mb-6">
+            <table className="min-w-full text-sm">
+              <thead className="border-b border-dark-border">
+                <tr>
+                  <th className="py-2 px-3 text-left font-semibold text-dark-text-secondary">Store</th>
+                  <th className="py-2 px-3 text-left font-semibold text-dark-text-secondary">Region</th>
+                  <th className="py-2 px-3 text-right font-semibold text-dark-text-secondary">Shipping</th>
+                  <th className="py-2 px-3 text-right font-semibold text-dark-text-secondary">Tax</th>
+                  <th className="py-2 px-3 text-right font-semibold text-dark-text-secondary">Trust</th>
+                  <th className="py-2 px-3 text-right font-semibold text-dark-text-secondary">Known pages</th>
+                  <th className="py-2 px-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {stores.map(store => (
+                  <tr key={store.id} className={`border-b border-dark-border ${store.domain === selectedDomain ? 'bg-slate-700/50' : ''}`}>
+                    <td className="py-3 px-3">
+                      <button type="button" onClick={() => setSelectedDomain(store.domain)} className="text-left">
+                        <span className="text-white font-medium">{store.name}</span>
+                        <span className="block text-xs text-dark-text-secondary">{store.domain}</span>
+                      </button>
+                    </td>
+                    <td className="py-3 px-3 text-dark-text-secondary">{store.region || '—'}</td>
+                    <td className="py-3 px-3 text-right text-dark-text-secondary">{store.shippingCost ? store.shippingCost.toFixed(2) : '—'}</td>
+                    <td className="py-3 px-3 text-right text-dark-text-secondary">{store.taxExcluded && store.taxRatePct ? `+${store.taxRatePct}%` : 'Included'}</td>
+                    <td className="py-3 px-3 text-right text-dark-text-secondary">{store.trustWeight}</td>
+                    <td className="py-3 px-3 text-right text-dark-text-secondary">{Object.keys(store.productUrls).length}</td>
+                    <td className="py-3 px-3 text-right whitespace-nowrap">
+                      <button type="button" onClick={() => setSelectedDomain(store.domain)} className="text-brand-primary hover:text-teal-300 mr-3">Profile</button>
+                      <button type="button" onClick={() => { setFields(toFields(store)); setFormError(null); }} className="text-brand-primary hover:text-teal-300 mr-2">Edit</button>
+                      <button type="button" onClick={() => handleDelete(store)} className="p-1 text-dark-text-secondary hover:text-red-400 transition rounded-md hover:bg-slate-700 align-middle" aria-label="Remove store"><TrashIcon className="w-4 h-4" /></button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="border border-dark-border rounded-lg p-4 bg-slate-900/50">
+          <h3 className="text-sm font-semibold text-dark-text-primary mb-3">{fields.id ? `Edit ${fields.name || fields.domain}` : 'Add a store'}</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label htmlFor="store-name" className="block text-xs text-dark-text-secondary mb-1">Name</label>
+              <input id="store-name" type="text" value={fields.name} onChange={e => setFields(prev => ({ ...prev, name: e.target.value }))} placeholder="e.g. Camera World" className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="store-domain" className="block text-xs text-dark-text-secondary mb-1">Domain</label>
+              <input id="store-domain" type="text" value={fields.domain} onChange={e => setFields(prev => ({ ...prev, domain: e.target.value }))} placeholder="camera-world.com" required className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="store-region" className="block text-xs text-dark-text-secondary mb-1">Region</label>
+              <input id="store-region" type="text" value={fields.region} onChange={e => setFields(prev => ({ ...prev, region: e.target.value }))} placeholder="e.g. UK" className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="store-trust" className="block text-xs text-dark-text-secondary mb-1">Trust weight (0 to 1)</label>
+              <input id="store-trust" type="text" inputMode="decimal" value={fields.trustWeight} onChange={e => setFields(prev => ({ ...prev, trustWeight: e.target.value }))} className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="store-shipping" className="block text-xs text-dark-text-secondary mb-1">Typical shipping</label>
+              <input id="store-shipping" type="text" inputMode="decimal" value={fields.shippingCost} onChange={e => setFields(prev => ({ ...prev, shippingCost: e.target.value }))} placeholder="In your product's currency" className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="store-tax" className="block text-xs text-dark-text-secondary mb-1">Tax rate %</label>
+              <input id="store-tax" type="text" inputMode="decimal" value={fields.taxRatePct} onChange={e => setFields(prev => ({ ...prev, taxRatePct: e.target.value }))} placeholder="e.g. 20" disabled={!fields.taxExcluded} className={`${inputClass} disabled:opacity-50`} />
+            </div>
+            <label className="col-span-2 flex items-center space-x-2 text-sm text-dark-text-secondary cursor-pointer self-end pb-2">
+              <input type="checkbox" checked={fields.taxExcluded} onChange={e => setFields(prev => ({ ...prev, taxExcluded: e.target.checked }))} className="rounded bg-slate-800 border-slate-600 text-brand-primary focus:ring-brand-primary" />
+              <span>Listed prices exclude tax</span>
+            </label>
+          </div>
+          {formError && <p className="text-sm text-red-400 mt-3">{formError}</p>}
+          <div className="flex space-x-2 mt-4">
+            <button type="submit" className="px-4 py-2 text-sm font-semibold rounded-md bg-brand-primary text-white hover:bg-brand-secondary transition-colors">{fields.id ? 'Save changes' : 'Add store'}</button>
+            {(fields.id || fields.domain) && (
+              <button type="button" onClick={() => { setFields(EMPTY_STORE_FIELDS); setFormError(null); }} className="px-4 py-2 text-sm font-semibold rounded-md text-dark-text-secondary hover:bg-slate-700 transition-colors">Cancel</button>
+            )}
+          </div>
+        </form>
+      </Card>
+
+      {unregistered.length > 0 && (
+        <Card>
+          <h2 className="text-xl font-bold text-white mb-1">Seen in Past Runs</h2>
+          <p className="text-sm text-dark-text-secondary mb-4">Competitor domains from saved runs that are not in the registry.</p>
+          <ul className="divide-y divide-dark-border">
+            {unregistered.map(seen => (
+              <li key={seen.domain} className={`flex items-center justify-between py-2 px-2 rounded-md ${seen.domain === selectedDomain ? 'bg-slate-700/50' : ''}`}>
+                <button type="button" onClick={() => setSelectedDomain(seen.domain)} className="flex-grow text-left">
+                  <span className="text-white font-medium">{seen.domain}</span>
+                  <span className="ml-3 text-sm text-dark-text-secondary">{seen.listings} listing{seen.listings === 1 ? '' : 's'}</span>
+                </button>
+                <button type="button" onClick={() => { setFields({ ...EMPTY_STORE_FIELDS, domain: seen.domain }); setFormError(null); }} className="text-sm text-brand-primary hover:text-teal-300">Add to registry</button>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      {selectedDomain && <CompetitorProfileCard runs={runs} domain={selectedDomain} store={selectedStore} onClose={() => setSelectedDomain(null)} />}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { getCurrencySettings, saveCurrencySettings, SUPPORTED_CURRENCIES, SUPPORTED_LOCALES } from '../services/currencyService';
+import type { CurrencySettings } from '../services/currencyService';
+
+export const CurrencySettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<CurrencySettings>(getCurrencySettings);
+
+  const update = (next: CurrencySettings) => {
+    setSettings(next);
+    saveCurrencySettings(next);
+  };
+
+  const handleRateChange = (currency: string, value: string) => {
+    const rate = parseFloat(value);
+    const rates = { ...settings.rates };
+    if (rate > 0) {
+      rates[currency] = rate;
+    } else {
+      delete rates[currency];
+    }
+    update({ ...settings, rates });
+  };
+
+  return (
+    <details className="p-4 border border-dark-border rounded-lg bg-slate-900/50">
+      <summary className="cursor-pointer text-sm font-semibold text-white">Currency &amp; Locale</summary>
+      <div className="mt-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-dark-text-secondary mb-1">Our currency</label>
+            <select value={settings.baseCurrency} onChange={e => update({ ...settings, baseCurrency: e.target.value })} className="w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm">
+              {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-dark-text-secondary mb-1">Number format &amp; CSV parsing</label>
+            <select value={settings.locale} onChange={e => update({ ...settings, locale: e.target.value })} className="w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm">
+              {SUPPORTED_LOCALES.map(locale => <option key={locale.code} value={locale.code}>{locale.label}</option>)}
+            </select>
+          </div>
+        </div>
+        <div>
+          <h4 className="text-sm font-medium text-dark-text-secondary mb-2">Exchange rates</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
+            {SUPPORTED_CURRENCIES.filter(code => code !== settings.baseCurrency).map(code => (
+              <label key={code} className="flex items-center space-x-2 text-sm text-dark-text-secondary">
+                <span className="w-14 flex-shrink-0">1 {code} =</span>
+                <input type="number" min={0} step="any" value={settings.rates[code] ?? ''} placeholder="rate"
+                  onChange={e => handleRateChange(code, e.target.value)}
+                  className="w-full bg-slate-900 border border-dark-border rounded-md px-2 py-1 text-sm text-dark-text-primary" />
+                <span className="flex-shrink-0">{settings.baseCurrency}</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-dark-text-secondary mt-2">Competitor prices in other currencies are converted with these rates. Prices without a rate are shown unconverted.</p>
+        </div>
+      </div>
+    </details>
+  );
+};
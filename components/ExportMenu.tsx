@@ -0,0 +1,22 @@
+import React from 'react';
+import type { AnalysisResult, AnalysisFailure } from '../types';
+import { toCsv, toJson, toPriceUpdateCsv, exportFilename } from '../services/exportService';
+import { downloadFile } from '../utils/download';
+
+export const ExportMenu: React.FC<{ result: AnalysisResult, failures?: AnalysisFailure[] }> = ({ result, failures = [] }) => {
+  const approvedCount = result.filter(r => r.review && r.review.decision !== 'rejected').length;
+  const buttonClass = "px-3 py-1.5 text-xs font-semibold rounded-md border border-dark-border text-dark-text-secondary hover:text-white hover:bg-slate-700 transition-colors";
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs text-dark-text-secondary">Export:</span>
+      <button type="button" className={buttonClass} onClick={() => downloadFile(toCsv(result), exportFilename('csv'), 'text/csv;charset=utf-8;')}>CSV</button>
+      <button type="button" className={buttonClass} title="CSV with a byte order mark, opens directly in Excel"
+        onClick={() => downloadFile(toCsv(result, { excel: true }), exportFilename('excel.csv'), 'text/csv;charset=utf-8;')}>Excel</button>
+      <button type="button" className={buttonClass} title="Lossless export that can be imported again"
+        onClick={() => downloadFile(toJson(result, failures), exportFilename('json'), 'application/json')}>JSON</button>
+      <button type="button" className={`${buttonClass} disabled:opacity-50 disabled:cursor-not-allowed`} disabled={approvedCount === 0}
+        title={approvedCount === 0 ? 'Accept or override suggestions first' : `New prices for the ${approvedCount} approved product${approvedCount === 1 ? '' : 's'}`}
+        onClick={() => downloadFile(toPriceUpdateCsv(result), exportFilename('price-updates.csv'), 'text/csv;charset=utf-8;')}>Price updates</button>
+    </div>
+  );
+};
@@ -2,15 +2,43 @@
 import React from 'react';
 import { LogoIcon } from './icons/LogoIcon';
 
-export const Header: React.FC = () => {
+export type AppView = 'analyze' | 'history' | 'watchlist' | 'competitors';
+
+interface HeaderProps {
+  view: AppView;
+  onViewChange: (view: AppView) => void;
+  badges?: Partial<Record<AppView, number>>; // e.g. unread alert count
+}
+
+const NAV_ITEMS: { view: AppView; label: string }[] = [
+  { view: 'analyze', label: 'Analyze' },
+  { view: 'history', label: 'History' },
+  { view: 'watchlist', label: 'Watchlist' },
+  { view: 'competitors', label: 'Competitors' },
+];
+
+export const Header: React.FC<HeaderProps> = ({ view, onViewChange, badges = {} }) => {
   return (
     <header className="bg-dark-card/50 backdrop-blur-lg border-b border-dark-border sticky top-0 z-50">
       <div className="container mx-auto px-4 py-3">
-        <div className="flex items-center space-x-3">
-          <LogoIcon className="w-8 h-8 text-brand-primary" />
-          <h1 className="text-2xl font-bold tracking-tight text-white">
-            PredictGenie
-          </h1>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <LogoIcon className="w-8 h-8 text-brand-primary" />
+            <h1 className="text-2xl font-bold tracking-tight text-white">
+              PredictGenie
+            </h1>
+          </div>
+          <nav className="flex space-x-2">
+            {NAV_ITEMS.map(item => (
+              <button key={item.view} type="button" onClick={() => onViewChange(item.view)} aria-current={view === item.view ? 'page' : undefined}
+                className={`px-3 py-1.5 text-sm font-semibold rounded-md transition-colors ${view === item.view ? 'bg-brand-primary text-white' : 'text-dark-text-secondary hover:bg-slate-700'}`}>
+                {item.label}
+                {!!badges[item.view] && (
+                  <span className="ml-1.5 px-1.5 py-0.5 text-xs rounded-full bg-red-600 text-white">{badges[item.view]}</span>
+                )}
+              </button>
+            ))}
+          </nav>
         </div>
       </div>
     </header>
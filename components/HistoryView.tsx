@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card } from './common/Card';
+import { TrashIcon } from './icons/TrashIcon';
+import { ResultsDisplay } from './ResultsDisplay';
+import { PriceTimeline } from './PriceTimeline';
+import { RunComparison } from './RunComparison';
+import { listRuns, deleteRun, clearHistory, buildProductTimeline, listTrackedProducts, updateRunResults } from '../services/historyService';
+import { applyReviews } from '../services/reviewService';
+import type { PriceReview } from '../types';
+import type { AnalysisRun } from '../services/historyService';
+import { formatDateTime } from '../utils/formatters';
+import { analysisStrategyLabel } from '../services/promptTemplates';
+
+export const HistoryView: React.FC = () => {
+  const [runs, setRuns] = useState<AnalysisRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [selectedProductKey, setSelectedProductKey] = useState<string>('');
+
+  useEffect(() => {
+    listRuns()
+      .then(setRuns)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load history.'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const trackedProducts = useMemo(() => listTrackedProducts(runs), [runs]);
+  const timeline = useMemo(() => (selectedProductKey ? buildProductTimeline(runs, selectedProductKey) : []), [runs, selectedProductKey]);
+  const selectedRun = runs.find(run => run.id === selectedRunId) || null;
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteRun(id);
+      setRuns(prev => prev.filter(run => run.id !== id));
+      if (selectedRunId === id) setSelectedRunId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete the run.');
+    }
+  };
+
+  const handleReview = async (reviews: Record<number, PriceReview | null>) => {
+    if (!selectedRun) return;
+    const results = applyReviews(selectedRun.results, reviews);
+    setRuns(prev => prev.map(run => (run.id === selectedRun.id ? { ...run, results } : run)));
+    try {
+      await updateRunResults(selectedRun.id, results);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the review decisions.');
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete all saved analysis runs of this project? This cannot be undone.')) return;
+    try {
+      await clearHistory();
+      setRuns([]);
+      setSelectedRunId(null);
+      setSelectedProductKey('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clear history.');
+    }
+  };
+
+  if (isLoading) {
+    return <p className="mt-8 text-center text-dark-text-secondary">Loading history...</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="p-4 bg-red-900/50 border border-red-500 text-red-300 rounded-lg">{error}</div>
+      )}
+
+      <Card>
+        <h2 className="text-xl font-bold text-white mb-4">Product Price Timeline</h2>
+        {trackedProducts.length === 0 ? (
+          <p className="text-sm text-dark-text-secondary">Run an analysis to start tracking products.</p>
+        ) : (
+          <div className="space-y-4">
+            <select value={selectedProductKey} onChange={e => setSelectedProductKey(e.target.value)} className="w-full md:w-1/2 bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm">
+              <option value="">Select a product...</option>
+              {trackedProducts.map(p => (
+                <option key={p.key} value={p.key}>{p.productName} ({p.runCount} run{p.runCount === 1 ? '' : 's'})</option>
+              ))}
+            </select>
+            {selectedProductKey && <PriceTimeline points={timeline} />}
+          </div>
+        )}
+      </Card>
+
+      <Card>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-white">Past Runs</h2>
+          {runs.length > 0 && (
+            <button type="button" onClick={handleClear} className="text-sm text-dark-text-secondary hover:text-red-400 transition">Clear history</button>
+          )}
+        </div>
+        {runs.length === 0 ? (
+          <p className="text-sm text-dark-text-secondary">No saved runs yet.</p>
+        ) : (
+          <ul className="divide-y divide-dark-border">
+            {runs.map(run => (
+              <li key={run.id} className={`flex items-center justify-between py-2 px-2 rounded-md ${run.id === selectedRunId ? 'bg-slate-700/50' : ''}`}>
+                <button type="button" onClick={() => setSelectedRunId(run.id === selectedRunId ? null : run.id)} className="flex-grow text-left">
+                  <span className="text-white font-medium">{formatDateTime(run.createdAt)}</span>
+                  <span className="ml-3 text-sm text-dark-text-secondary">
+                    {run.mode === 'single' ? run.results[0]?.userProduct.productName : `Batch of ${run.results.length} products`}
+                    {run.failures.length > 0 && `, ${run.failures.length} failed`}
+                    {run.results[0]?.settings && ` · ${analysisStrategyLabel(run.results[0].settings.strategy)}`}
+                  </span>
+                </button>
+                <button type="button" onClick={() => handleDelete(run.id)} className="p-2 text-dark-text-secondary hover:text-red-400 transition rounded-md hover:bg-slate-700" aria-label="Delete run"><TrashIcon className="w-5 h-5" /></button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+
+      {runs.length > 1 && <RunComparison runs={runs} />}
+
+      {selectedRun && <ResultsDisplay result={selectedRun.results} failures={selectedRun.failures} onReview={handleReview} />}
+    </div>
+  );
+};
@@ -1,7 +1,11 @@
 
 import React from 'react';
 
-export const LoadingSpinner: React.FC = () => {
+interface LoadingSpinnerProps {
+  progress?: { completed: number; total: number } | null;
+}
+
+export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ progress }) => {
   return (
     <div className="flex flex-col items-center justify-center space-y-2" role="status">
         <svg
@@ -25,6 +29,14 @@ export const LoadingSpinner: React.FC = () => {
             ></path>
         </svg>
         <span className="text-dark-text-secondary">Analyzing Market...</span>
+        {progress && progress.total > 0 && (
+            <div className="w-64 space-y-1">
+                <div className="h-2 rounded-full bg-slate-700 overflow-hidden">
+                    <div className="h-full bg-brand-primary transition-all" style={{ width: `${(progress.completed / progress.total) * 100}%` }}></div>
+                </div>
+                <p className="text-center text-sm text-dark-text-secondary">{progress.completed}/{progress.total} analyzed</p>
+            </div>
+        )}
     </div>
   );
 };
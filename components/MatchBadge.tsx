@@ -0,0 +1,17 @@
+import React from 'react';
+import type { MatchVerdict, ProductMatch } from '../types';
+import { describeMatch, MATCH_LABELS } from '../services/matchingService';
+
+const MATCH_CLASSES: Record<MatchVerdict, string> = {
+  match: 'bg-green-900/60 text-green-300 border-green-700',
+  possible: 'bg-slate-700 text-dark-text-secondary border-slate-500',
+  mismatch: 'bg-red-900/60 text-red-300 border-red-700',
+};
+
+// Whether a competitor listing is the same item as ours; hover for the score and reasons
+export const MatchBadge: React.FC<{ match: ProductMatch }> = ({ match }) => (
+  <span title={describeMatch(match)}
+    className={`inline-block px-1.5 py-px text-[10px] font-semibold uppercase tracking-wide rounded border whitespace-nowrap ${MATCH_CLASSES[match.verdict]}`}>
+    {MATCH_LABELS[match.verdict]}
+  </span>
+);
@@ -0,0 +1,139 @@
+import React, { useMemo, useState } from 'react';
+import type { ElasticityConfig, ElasticityModel, ProductAnalysis } from '../types';
+import { Card } from './common/Card';
+import { formatCurrency } from '../utils/formatters';
+import { ELASTICITY_MODELS, getElasticityConfig, saveElasticityConfig, simulatePrice, simulationRange } from '../services/simulatorService';
+
+const formatChange = (pct: number) => `${pct > 0 ? '+' : ''}${pct.toFixed(1)}%`;
+
+const changeClass = (pct: number) => (pct > 0 ? 'text-green-400' : pct < 0 ? 'text-red-400' : 'text-gray-400');
+
+const Stat: React.FC<{ label: string; value: string; valueClass?: string; hint?: string }> = ({ label, value, valueClass = 'text-white', hint }) => (
+  <div className="p-3 rounded-md bg-slate-900/50 border border-dark-border">
+    <p className="text-xs text-dark-text-secondary">{label}</p>
+    <p className={`text-lg font-semibold ${valueClass}`}>{value}</p>
+    {hint && <p className="text-xs text-dark-text-secondary">{hint}</p>}
+  </div>
+);
+
+// Lets merchandisers try prices other than the suggestion and see the market position and rough demand impact
+export const PriceSimulator: React.FC<{ analysis: ProductAnalysis }> = ({ analysis }) => {
+  const { userProduct, suggestedPrice, ruleBasedPrice } = analysis;
+  const [price, setPrice] = useState(suggestedPrice);
+  const [priceText, setPriceText] = useState(String(suggestedPrice));
+  const [elasticity, setElasticity] = useState<ElasticityConfig>(getElasticityConfig);
+
+  const range = useMemo(() => simulationRange(analysis), [analysis]);
+  const simulation = useMemo(() => simulatePrice(analysis, price, elasticity), [analysis, price, elasticity]);
+
+  const choosePrice = (value: number) => {
+    setPrice(value);
+    setPriceText(String(value));
+  };
+
+  const handlePriceText = (text: string) => {
+    setPriceText(text);
+    const value = parseFloat(text);
+    if (Number.isFinite(value) && value > 0) setPrice(value);
+  };
+
+  const updateElasticity = (next: ElasticityConfig) => {
+    setElasticity(next);
+    saveElasticityConfig(next);
+  };
+
+  const presets = [
+    { label: 'Current', value: userProduct.currentPrice },
+    { label: 'AI suggestion', value: suggestedPrice },
+    ...(ruleBasedPrice ? [{ label: 'Rule price', value: ruleBasedPrice.price }] : []),
+  ];
+  // Position on the price ladder, in percent of the slider range
+  const ladderPosition = (value: number) => Math.min(100, Math.max(0, ((value - range.min) / (range.max - range.min || 1)) * 100));
+  const model = ELASTICITY_MODELS.find(m => m.id === elasticity.model) || ELASTICITY_MODELS[0];
+
+  return (
+    <Card>
+      <h2 className="text-xl font-bold text-white mb-4">What-If Simulator</h2>
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        <input type="range" min={range.min} max={range.max} step="0.01" value={Math.min(range.max, Math.max(range.min, price))}
+          onChange={e => choosePrice(parseFloat(e.target.value))} aria-label="Candidate price" className="flex-grow accent-teal-500" />
+        <div className="flex items-center space-x-2">
+          <label htmlFor="simulator-price" className="text-sm text-dark-text-secondary">Price ({userProduct.currency})</label>
+          <input type="number" id="simulator-price" min="0" step="0.01" value={priceText} onChange={e => handlePriceText(e.target.value)}
+            className="w-28 bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm text-dark-text-primary" />
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2 mt-3">
+        {presets.map(preset => (
+          <button key={preset.label} type="button" onClick={() => choosePrice(preset.value)}
+            className={`px-3 py-1 text-xs font-semibold rounded-md border transition-colors ${price === preset.value ? 'border-brand-primary text-brand-primary' : 'border-dark-border text-dark-text-secondary hover:bg-slate-700'}`}>
+            {preset.label}: {formatCurrency(preset.value, userProduct.currency)}
+          </button>
+        ))}
+      </div>
+
+      <div className="relative h-10 mt-6 mx-2" aria-hidden="true">
+        <div className="absolute top-1/2 left-0 right-0 h-px bg-dark-border" />
+        {simulation.positions.map(({ competitor }, i) => (
+          <div key={i} title={`${competitor.productName}: ${formatCurrency(competitor.price, userProduct.currency)}`}
+            className="absolute top-1/2 w-2.5 h-2.5 -ml-1 -mt-1 rounded-full bg-slate-400" style={{ left: `${ladderPosition(competitor.price)}%` }} />
+        ))}
+        <div className="absolute top-0 bottom-0 w-0.5 bg-brand-primary" style={{ left: `${ladderPosition(price)}%` }} />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mt-4">
+        <Stat label="Price rank" value={`${simulation.rank} of ${simulation.rankedCount}`} hint="1 = cheapest" />
+        <Stat label="Margin" value={simulation.marginPct !== undefined ? `${simulation.marginPct.toFixed(1)}%` : '—'}
+          valueClass={simulation.margin !== undefined && simulation.margin < 0 ? 'text-red-400' : 'text-white'}
+          hint={simulation.margin !== undefined ? formatCurrency(simulation.margin, userProduct.currency) : 'Enter a cost to see margin'} />
+        <Stat label="Units sold" value={formatChange(simulation.demandChangePct)} valueClass={changeClass(simulation.demandChangePct)} hint="vs. current price" />
+        <Stat label="Revenue" value={formatChange(simulation.revenueChangePct)} valueClass={changeClass(simulation.revenueChangePct)} hint="vs. current price" />
+        <Stat label="Profit" value={simulation.profitChangePct !== undefined ? formatChange(simulation.profitChangePct) : '—'}
+          valueClass={simulation.profitChangePct !== undefined ? changeClass(simulation.profitChangePct) : 'text-white'} hint="vs. current price" />
+      </div>
+
+      {simulation.positions.length > 0 && (
+        <table className="min-w-full text-sm mt-6">
+          <thead className="border-b border-dark-border">
+            <tr>
+              <th className="py-2 px-3 text-left font-semibold text-dark-text-secondary">Competitor</th>
+              <th className="py-2 px-3 text-right font-semibold text-dark-text-secondary">Their Price</th>
+              <th className="py-2 px-3 text-right font-semibold text-dark-text-secondary">Your Price vs Theirs</th>
+            </tr>
+          </thead>
+          <tbody>
+            {simulation.positions.map(({ competitor, difference, differencePct }, i) => (
+              <tr key={i} className="border-b border-dark-border last:border-0">
+                <td className="py-2 px-3 text-dark-text-primary truncate max-w-xs" title={competitor.productName}>{competitor.productName}</td>
+                <td className="py-2 px-3 text-right font-mono text-white">{formatCurrency(competitor.price, userProduct.currency)}</td>
+                <td className={`py-2 px-3 text-right font-mono ${difference > 0 ? 'text-red-400' : difference < 0 ? 'text-green-400' : 'text-gray-400'}`}>
+                  {difference > 0 ? '+' : ''}{formatCurrency(difference, userProduct.currency)} ({formatChange(differencePct)})
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <details className="mt-6 border border-dark-border rounded-lg p-4 bg-slate-900/50">
+        <summary className="text-sm font-medium text-dark-text-secondary cursor-pointer">Demand Model</summary>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          <div>
+            <label htmlFor="elasticity-model" className="block text-xs text-dark-text-secondary mb-1">Model</label>
+            <select id="elasticity-model" value={elasticity.model} onChange={e => updateElasticity({ ...elasticity, model: e.target.value as ElasticityModel })}
+              className="w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm">
+              {ELASTICITY_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="elasticity-value" className="block text-xs text-dark-text-secondary mb-1">Price elasticity</label>
+            <input type="number" id="elasticity-value" step="0.1" max="0" value={elasticity.elasticity}
+              onChange={e => updateElasticity({ ...elasticity, elasticity: parseFloat(e.target.value) || 0 })}
+              className="w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm text-dark-text-primary" />
+          </div>
+        </div>
+        <p className="text-xs text-dark-text-secondary mt-2">{model.description} An elasticity of -1.5 means a 1% price rise loses about 1.5% of units. Estimates are relative to selling at your current price and ignore competitor reactions.</p>
+      </details>
+    </Card>
+  );
+};
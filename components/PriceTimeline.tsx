@@ -0,0 +1,45 @@
+import React, { useMemo } from 'react';
+import type { TimelinePoint } from '../services/historyService';
+import { LineChart } from './charts/LineChart';
+import type { LineSeries } from './charts/LineChart';
+import { formatCurrency, formatShortDate } from '../utils/formatters';
+
+const COMPETITOR_COLORS = ['#f59e0b', '#8b5cf6', '#ec4899', '#3b82f6', '#ef4444', '#84cc16'];
+
+export const PriceTimeline: React.FC<{ points: TimelinePoint[] }> = ({ points }) => {
+  const series = useMemo<LineSeries[]>(() => {
+    const competitorSeries = new Map<string, LineSeries>();
+    points.forEach(point => {
+      const x = new Date(point.createdAt).getTime();
+      point.competitors.forEach(c => {
+        if (!competitorSeries.has(c.key)) {
+          competitorSeries.set(c.key, {
+            label: c.label,
+            color: COMPETITOR_COLORS[competitorSeries.size % COMPETITOR_COLORS.length],
+            points: [],
+          });
+        }
+        competitorSeries.get(c.key)!.points.push({ x, y: c.price });
+      });
+    });
+
+    return [
+      { label: 'Your price', color: '#0d9488', points: points.map(p => ({ x: new Date(p.createdAt).getTime(), y: p.currentPrice })) },
+      { label: 'Suggested price', color: '#f1f5f9', dashed: true, points: points.map(p => ({ x: new Date(p.createdAt).getTime(), y: p.suggestedPrice })) },
+      ...competitorSeries.values(),
+    ];
+  }, [points]);
+
+  if (points.length === 0) {
+    return <p className="text-sm text-dark-text-secondary">This product has no recorded analyses.</p>;
+  }
+
+  return (
+    <div>
+      <LineChart series={series} formatX={formatShortDate} formatY={formatCurrency} />
+      {points.length === 1 && (
+        <p className="text-xs text-dark-text-secondary mt-2">Only one analysis recorded so far. Run it again to build a timeline.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import type { PricingRuleConfig, PricingStrategy } from '../types';
+import { getPricingRules, savePricingRules, PRICING_STRATEGIES } from '../services/pricingEngine';
+
+export const PricingRulesPanel: React.FC = () => {
+  const [rules, setRules] = useState<PricingRuleConfig>(getPricingRules);
+
+  const update = (next: PricingRuleConfig) => {
+    setRules(next);
+    savePricingRules(next);
+  };
+
+  const strategy = PRICING_STRATEGIES.find(s => s.id === rules.strategy) || PRICING_STRATEGIES[0];
+
+  return (
+    <details className="p-4 border border-dark-border rounded-lg bg-slate-900/50">
+      <summary className="cursor-pointer text-sm font-semibold text-white">Rule-Based Pricing</summary>
+      <div className="mt-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-dark-text-secondary mb-1">Strategy</label>
+            <select value={rules.strategy} onChange={e => update({ ...rules, strategy: e.target.value as PricingStrategy })} className="w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm">
+              {PRICING_STRATEGIES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-dark-text-secondary mb-1">{strategy.adjustmentLabel}</label>
+            <input type="number" step="any" value={rules.adjustmentPct}
+              onChange={e => update({ ...rules, adjustmentPct: parseFloat(e.target.value) || 0 })}
+              className="w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm text-dark-text-primary" />
+          </div>
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-dark-text-secondary">
+          <input type="checkbox" checked={rules.excludeOutOfStock} disabled={rules.strategy === 'undercutLowest'}
+            onChange={e => update({ ...rules, excludeOutOfStock: e.target.checked })}
+            className="rounded bg-slate-800 border-slate-600 text-brand-primary focus:ring-brand-primary" />
+          <span>Ignore out-of-stock sellers{rules.strategy === 'undercutLowest' && ' (always on when undercutting)'}</span>
+        </label>
+        <p className="text-xs text-dark-text-secondary">Every analysis also gets a price computed from the competitor data with this rule, shown next to the AI suggestion. Changes apply to the next analysis.</p>
+      </div>
+    </details>
+  );
+};
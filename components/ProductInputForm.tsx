@@ -1,36 +1,94 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useEffect, useState, useMemo } from 'react';
 import { Card } from './common/Card';
 import { PlusIcon } from './icons/PlusIcon';
 import { TrashIcon } from './icons/TrashIcon';
-import type { CsvProduct } from '../types';
+import type { AnalysisRequest, CsvFieldMapping, CsvProduct, PricingConstraints, ProductIdentifiers } from '../types';
+import { downloadFile } from '../utils/download';
+import { parseJsonExport } from '../services/exportService';
+import type { AnalysisExport } from '../services/exportService';
+import { parseCsvFile, delimiterLabel } from '../services/csvParser';
+import { parsePrice, isCurrencyCode, getCurrencySettings, SUPPORTED_CURRENCIES } from '../services/currencyService';
+import { CurrencySettingsPanel } from './CurrencySettingsPanel';
+import { PricingRulesPanel } from './PricingRulesPanel';
+import { AnalysisSettingsPanel } from './AnalysisSettingsPanel';
+import { ServerAccessPanel } from './ServerAccessPanel';
+import { parseConstraints, CONSTRAINT_FIELDS, CONSTRAINT_LABELS } from '../services/guardrailService';
+import { parseProductFeed, FEED_FORMAT_LABELS } from '../services/feedParser';
+import { findStoreForUrl, getCompetitorStores, subscribeToCompetitorStores } from '../services/competitorRegistry';
+import { productKey } from '../services/historyService';
+import { findCsvMapping, getActiveProject, rememberCsvMapping, subscribeToProjects } from '../services/projectService';
+
+const EMPTY_CONSTRAINT_FIELDS: Record<keyof PricingConstraints, string> = { cost: '', minMarginPct: '', floorPrice: '', ceilingPrice: '', mapPrice: '' };
+const EMPTY_IDENTIFIER_FIELDS: Record<keyof ProductIdentifiers, string> = { sku: '', gtin: '', mpn: '' };
+const EMPTY_FIELD_MAPPING: CsvFieldMapping = { productName: '', currentPrice: '', userProductUrl: '', currency: '', competitorUrls: [], identifiers: EMPTY_IDENTIFIER_FIELDS, constraints: EMPTY_CONSTRAINT_FIELDS };
+// Shown until the project has run its first URL analysis
+const EXAMPLE_URL_INPUT = {
+  userProductUrl: 'https://www.example-store.com/products/pro-camera-x1',
+  competitorUrls: ['https://www.competitor-a.com/pro-camera-x1', 'https://www.competitor-b.com/cameras/pro-cam-x1-model'],
+};
+const IDENTIFIER_LABELS: Record<keyof ProductIdentifiers, string> = { sku: 'SKU', gtin: 'GTIN / EAN / UPC', mpn: 'MPN' };
+
+type InputMode = 'url' | 'csv' | 'feed';
+
+const FEED_PREVIEW_ROWS = 5;
 
 interface ProductInputFormProps {
-  onAnalyze: (input: { type: 'url', userProductUrl: string, competitorUrls: string[] } | { type: 'csv', products: CsvProduct[] }) => void;
+  onAnalyze: (input: AnalysisRequest) => void;
+  onImportRun: (run: AnalysisExport) => void;
   isLoading: boolean;
 }
 
-export const ProductInputForm: React.FC<ProductInputFormProps> = ({ onAnalyze, isLoading }) => {
-  const [inputMode, setInputMode] = useState<'url' | 'csv'>('url');
+// Remounted per project (see App), so initial state comes from the active project
+export const ProductInputForm: React.FC<ProductInputFormProps> = ({ onAnalyze, onImportRun, isLoading }) => {
+  const [project, setProject] = useState(getActiveProject);
+  const [inputMode, setInputMode] = useState<InputMode>('url');
 
-  // URL mode state
-  const [userProductUrl, setUserProductUrl] = useState('https://www.example-store.com/products/pro-camera-x1');
-  const [competitorUrls, setCompetitorUrls] = useState([
-    'https://www.competitor-a.com/pro-camera-x1',
-    'https://www.competitor-b.com/cameras/pro-cam-x1-model',
-  ]);
+  // URL mode state, starting from the project's last URL analysis
+  const lastUrlInput = project.urlInput || EXAMPLE_URL_INPUT;
+  const [userProductUrl, setUserProductUrl] = useState(lastUrlInput.userProductUrl);
+  const [competitorUrls, setCompetitorUrls] = useState(lastUrlInput.competitorUrls);
+  const [urlCurrency, setUrlCurrency] = useState(() => project.urlInput?.currency || getCurrencySettings().baseCurrency);
+  const [urlConstraints, setUrlConstraints] = useState(() => {
+    const fields = { ...EMPTY_CONSTRAINT_FIELDS };
+    CONSTRAINT_FIELDS.forEach(key => {
+      const value = project.urlInput?.constraints?.[key];
+      if (value !== undefined) fields[key] = String(value);
+    });
+    return fields;
+  });
+  const [urlError, setUrlError] = useState<string | null>(null);
+  const [findCompetitors, setFindCompetitors] = useState(!!project.urlInput?.findCompetitors && lastUrlInput.competitorUrls.length > 0);
+  const [stores, setStores] = useState(getCompetitorStores);
+
+  useEffect(() => subscribeToCompetitorStores(() => setStores(getCompetitorStores())), []);
+  useEffect(() => subscribeToProjects(() => setProject(getActiveProject())), []);
   
   // CSV mode state
   const [csvFile, setCsvFile] = useState<File | null>(null);
   const [csvError, setCsvError] = useState<string | null>(null);
   const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
   const [csvData, setCsvData] = useState<Record<string, string>[]>([]);
-  const [fieldMapping, setFieldMapping] = useState({
-    productName: '',
-    currentPrice: '',
-    userProductUrl: '',
-    competitorUrls: [] as string[],
-  });
+  const [csvLineNumbers, setCsvLineNumbers] = useState<number[]>([]);
+  const [csvSummary, setCsvSummary] = useState<string | null>(null);
+  const [csvParseProgress, setCsvParseProgress] = useState<number | null>(null);
+  const [fieldMapping, setFieldMapping] = useState<CsvFieldMapping>(EMPTY_FIELD_MAPPING);
+  const [mappingRestored, setMappingRestored] = useState(false); // Mapping came from an earlier file with the same columns
+
+  // Feed mode state. The file is re-read whenever the store URL or currency changes.
+  const [feedText, setFeedText] = useState<string | null>(null);
+  const [feedStoreUrl, setFeedStoreUrl] = useState('');
+  const [feedCurrency, setFeedCurrency] = useState(() => getCurrencySettings().baseCurrency);
+  const [feedError, setFeedError] = useState<string | null>(null);
+
+  const feed = useMemo(() => {
+    if (feedText === null) return null;
+    try {
+      return { result: parseProductFeed(feedText, { storeUrl: feedStoreUrl, currency: feedCurrency }), error: null };
+    } catch (error) {
+      return { result: null, error: error instanceof Error ? error.message : 'Failed to read the feed.' };
+    }
+  }, [feedText, feedStoreUrl, feedCurrency]);
 
   const handleCompetitorUrlChange = (index: number, value: string) => {
     const newUrls = [...competitorUrls];
@@ -39,6 +97,14 @@ export const ProductInputForm: React.FC<ProductInputFormProps> = ({ onAnalyze, i
   };
 
   const addCompetitor = () => setCompetitorUrls([...competitorUrls, '']);
+  // Uses the store's page for this product when a past run found one, else its home page to edit
+  const addStoreCompetitor = (storeId: string) => {
+    const store = stores.find(s => s.id === storeId);
+    if (!store || competitorUrls.some(url => findStoreForUrl(url, [store]))) return;
+    const url = store.productUrls[productKey({ url: userProductUrl, productName: '' })] || `https://${store.domain}/`;
+    const emptyIndex = competitorUrls.findIndex(existing => !existing.trim());
+    setCompetitorUrls(emptyIndex >= 0 ? competitorUrls.map((existing, i) => (i === emptyIndex ? url : existing)) : [...competitorUrls, url]);
+  };
   const removeCompetitor = (index: number) => setCompetitorUrls(competitorUrls.filter((_, i) => i !== index));
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -47,55 +113,44 @@ export const ProductInputForm: React.FC<ProductInputFormProps> = ({ onAnalyze, i
     setCsvError(null);
     setCsvHeaders([]);
     setCsvData([]);
-    setFieldMapping({ productName: '', currentPrice: '', userProductUrl: '', competitorUrls: [] });
+    setCsvLineNumbers([]);
+    setCsvSummary(null);
+    setFieldMapping(EMPTY_FIELD_MAPPING);
+    setMappingRestored(false);
 
     if (file) {
-      if (!file.type.includes('csv') && !file.name.endsWith('.csv')) {
+      if (!file.type.includes('csv') && !/\.(csv|tsv|txt)$/i.test(file.name)) {
         setCsvError("Invalid file type. Please upload a .csv file.");
         return;
       }
       try {
-        const { headers, data } = await parseCsv(file);
+        setCsvParseProgress(0);
+        const { headers, data, lineNumbers, delimiter, encoding, errors } = await parseCsvFile(file, { onProgress: setCsvParseProgress });
         setCsvHeaders(headers);
+        const savedMapping = findCsvMapping(headers);
+        if (savedMapping) {
+          setFieldMapping(savedMapping);
+          setMappingRestored(true);
+        }
         setCsvData(data);
+        setCsvLineNumbers(lineNumbers);
+        setCsvSummary(`Read ${data.length.toLocaleString()} rows (${delimiterLabel(delimiter)}-delimited, ${encoding.toUpperCase()}).`);
+        if (errors.length > 0) {
+          const shown = errors.slice(0, 10).map(err => `Line ${err.line}: ${err.message}`).join(' ');
+          setCsvError(`Warning: ${errors.length} malformed line${errors.length === 1 ? '' : 's'}. ${shown}${errors.length > 10 ? ' ...' : ''}`);
+        }
       } catch (error) {
         setCsvError(error instanceof Error ? error.message : "Failed to parse CSV.");
+      } finally {
+        setCsvParseProgress(null);
       }
     }
   };
 
-  const parseCsv = (file: File): Promise<{ headers: string[], data: Record<string, string>[] }> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        try {
-          const text = event.target?.result as string;
-          // Normalize line endings and filter empty rows
-          const rows = text.replace(/\r\n/g, '\n').split('\n').map(row => row.trim()).filter(row => row);
-          if (rows.length < 2) return reject(new Error("CSV file must contain a header row and at least one data row."));
-          
-          const headerRow = rows.shift()!;
-          const headers = headerRow.split(',').map(h => h.trim());
-          
-          // Regex to split by comma, but ignore commas inside double quotes
-          const regex = /,(?=(?:(?:[^"]*"){2})*[^"]*$)/;
-
-          const data = rows.map((row) => {
-            const values = row.split(regex).map(val => val.trim().replace(/^"|"$/g, '')); // Trim and remove surrounding quotes
-            
-            return headers.reduce((obj, header, index) => {
-              obj[header] = values[index] || '';
-              return obj;
-            }, {} as Record<string, string>);
-          });
-          resolve({ headers, data });
-        } catch (e) {
-            reject(e instanceof Error ? e : new Error("An unexpected error occurred during CSV parsing."));
-        }
-      };
-      reader.onerror = () => reject(new Error("Failed to read the file."));
-      reader.readAsText(file);
-    });
+  const handleFeedFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setFeedError(null);
+    setFeedText(file ? await file.text() : null);
   };
 
   const handleCompetitorHeaderToggle = (header: string) => {
@@ -113,9 +168,23 @@ export const ProductInputForm: React.FC<ProductInputFormProps> = ({ onAnalyze, i
 
     if (inputMode === 'url') {
       const nonEmptyCompetitors = competitorUrls.filter(url => url.trim() !== '');
-      if (userProductUrl.trim() && nonEmptyCompetitors.length > 0) {
-        onAnalyze({ type: 'url', userProductUrl, competitorUrls: nonEmptyCompetitors });
+      const { constraints, invalid } = parseConstraints(urlConstraints, getCurrencySettings().locale);
+      if (invalid.length > 0) {
+        return setUrlError(`Invalid value for ${invalid.map(key => CONSTRAINT_LABELS[key]).join(', ')}.`);
       }
+      setUrlError(null);
+      if (userProductUrl.trim()) {
+        // With no competitors listed, finding them is the only option
+        const discover = findCompetitors || nonEmptyCompetitors.length === 0;
+        onAnalyze({ type: 'url', userProductUrl, competitorUrls: nonEmptyCompetitors, currency: urlCurrency, ...(constraints ? { constraints } : {}), ...(discover ? { findCompetitors: true } : {}) });
+      }
+    } else if (inputMode === 'feed') {
+      if (!feed) return setFeedError("Please select a product feed file.");
+      if (!feed.result) return;
+      if (feed.result.products.length === 0) return setFeedError("The feed contains no products that could be analyzed.");
+      setFeedError(null);
+      // Feeds list no competitors, so each product is searched for on the web
+      onAnalyze({ type: 'csv', products: feed.result.products });
     } else {
       setCsvError(null);
       if (!csvFile) return setCsvError("Please select a CSV file.");
@@ -124,8 +193,9 @@ export const ProductInputForm: React.FC<ProductInputFormProps> = ({ onAnalyze, i
       }
 
       try {
+        const { locale } = getCurrencySettings();
         const { validProducts, errors } = csvData.reduce<{ validProducts: CsvProduct[], errors: string[] }>((acc, row, index) => {
-          const rowNum = index + 2; // For user-facing messages (1-based index + header)
+          const rowNum = csvLineNumbers[index] ?? index + 2; // Physical line in the file, for user-facing messages
           const productName = row[fieldMapping.productName];
 
           // Silently skip rows that are likely blank
@@ -133,27 +203,50 @@ export const ProductInputForm: React.FC<ProductInputFormProps> = ({ onAnalyze, i
             return acc;
           }
 
-          const priceString = (row[fieldMapping.currentPrice] || '').replace(/[^0-9.-]+/g, "");
+          const priceString = (row[fieldMapping.currentPrice] || '').trim();
 
           if (priceString === '') {
-            acc.errors.push(`Row ${rowNum}: Price is missing.`);
+            acc.errors.push(`Line ${rowNum}: Price is missing.`);
             return acc;
           }
 
-          const price = parseFloat(priceString);
+          // Locale-aware, so "1.299,00 €" is read as 1299 in a European locale
+          const parsedPrice = parsePrice(priceString, locale);
 
-          if (isNaN(price)) {
-            acc.errors.push(`Row ${rowNum}: Invalid price value "${row[fieldMapping.currentPrice]}".`);
+          if (!parsedPrice) {
+            acc.errors.push(`Line ${rowNum}: Invalid price value "${row[fieldMapping.currentPrice]}".`);
             return acc;
           }
 
+          const currencyCell = (row[fieldMapping.currency] || '').trim().toUpperCase();
+          const currency = isCurrencyCode(currencyCell) ? currencyCell : parsedPrice.currency;
+
           const competitorUrls = fieldMapping.competitorUrls.map(header => row[header]).filter(Boolean);
 
+          const constraintCells: Partial<Record<keyof PricingConstraints, string>> = {};
+          CONSTRAINT_FIELDS.forEach(key => {
+            if (fieldMapping.constraints[key]) constraintCells[key] = row[fieldMapping.constraints[key]];
+          });
+          const { constraints, invalid } = parseConstraints(constraintCells, locale);
+          if (invalid.length > 0) {
+            acc.errors.push(`Line ${rowNum}: Invalid ${invalid.map(key => `${CONSTRAINT_LABELS[key]} "${constraintCells[key]}"`).join(', ')}.`);
+            return acc;
+          }
+
+          const identifiers: ProductIdentifiers = {};
+          (Object.keys(IDENTIFIER_LABELS) as (keyof ProductIdentifiers)[]).forEach(key => {
+            const value = fieldMapping.identifiers[key] ? (row[fieldMapping.identifiers[key]] || '').trim() : '';
+            if (value) identifiers[key] = value;
+          });
+
           acc.validProducts.push({
             productName: productName,
-            currentPrice: price,
+            currentPrice: parsedPrice.amount,
             userProductUrl: row[fieldMapping.userProductUrl] || '',
             competitorUrls: competitorUrls,
+            ...(currency ? { currency } : {}),
+            ...identifiers,
+            ...(constraints ? { constraints } : {}),
           });
 
           return acc;
@@ -170,6 +263,7 @@ export const ProductInputForm: React.FC<ProductInputFormProps> = ({ onAnalyze, i
           setCsvError(null); // Clear previous errors
         }
 
+        rememberCsvMapping(csvHeaders, fieldMapping);
         onAnalyze({ type: 'csv', products: validProducts });
 
       } catch (error) {
@@ -178,23 +272,27 @@ export const ProductInputForm: React.FC<ProductInputFormProps> = ({ onAnalyze, i
     }
   };
 
+  const handleImportRun = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    setCsvError(null);
+    try {
+      onImportRun(parseJsonExport(await file.text()));
+    } catch (error) {
+      setCsvError(error instanceof Error ? error.message : "Failed to import the analysis file.");
+    }
+  };
+
   const downloadSampleCsv = () => {
     const csvContent = "productName,currentPrice,userProductUrl,competitorUrl_1,competitorUrl_2\n" +
       "\"Pro Camera X1, with stand\",499.99,https://yourstore.com/pro-camera,https://competitorA.com/camera-x1,https://competitorB.com/pro-cam-x1\n" +
       "Wireless Headphones Z,$149.00,https://yourstore.com/headphones-z,https://competitorA.com/headphones-z-pro,https://competitorC.com/audio/wireless-z\n" +
       "Smart Fitness Watch V2,229.50,https://yourstore.com/smart-watch,,\n";
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute("download", "sample_products.csv");
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadFile(csvContent, "sample_products.csv", 'text/csv;charset=utf-8;');
   };
   
-  const TabButton = ({ mode, children }: {mode: 'url' | 'csv', children: React.ReactNode}) => (
+  const TabButton = ({ mode, children }: {mode: InputMode, children: React.ReactNode}) => (
       <button type="button" role="tab" aria-selected={inputMode === mode} onClick={() => setInputMode(mode)}
           className={`px-4 py-2 text-sm font-semibold rounded-md transition-colors ${inputMode === mode ? 'bg-brand-primary text-white' : 'text-dark-text-secondary hover:bg-slate-700'}`}>
           {children}
@@ -204,7 +302,9 @@ export const ProductInputForm: React.FC<ProductInputFormProps> = ({ onAnalyze, i
   const CsvMappingInterface = () => (
     <div className="mt-6 space-y-4 p-4 border border-dark-border rounded-lg bg-slate-900/50">
         <h3 className="font-semibold text-white">Map Your CSV Columns</h3>
-        <p className="text-sm text-dark-text-secondary">Match the columns from your file to the required fields.</p>
+        <p className="text-sm text-dark-text-secondary">
+            {mappingRestored ? 'Using the mapping saved for files with these columns. Change it if needed.' : 'Match the columns from your file to the required fields.'}
+        </p>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             {/* Required fields */}
             <div>
@@ -228,7 +328,24 @@ export const ProductInputForm: React.FC<ProductInputFormProps> = ({ onAnalyze, i
                     {csvHeaders.map(h => <option key={`up-${h}`} value={h}>{h}</option>)}
                 </select>
             </div>
+            <div>
+                <label className="block text-sm font-medium text-dark-text-secondary mb-1">Currency <span className="text-xs">(Optional)</span></label>
+                <select value={fieldMapping.currency} onChange={e => setFieldMapping(prev => ({...prev, currency: e.target.value}))} className="w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm">
+                    <option value="">Detect from price / use our currency</option>
+                    {csvHeaders.map(h => <option key={`cur-${h}`} value={h}>{h}</option>)}
+                </select>
+            </div>
+            {(Object.keys(IDENTIFIER_LABELS) as (keyof ProductIdentifiers)[]).map(key => (
+                <div key={key}>
+                    <label className="block text-sm font-medium text-dark-text-secondary mb-1">{IDENTIFIER_LABELS[key]} <span className="text-xs">(Optional)</span></label>
+                    <select value={fieldMapping.identifiers[key]} onChange={e => setFieldMapping(prev => ({...prev, identifiers: {...prev.identifiers, [key]: e.target.value}}))} className="w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm">
+                        <option value="">Not used</option>
+                        {csvHeaders.map(h => <option key={`${key}-${h}`} value={h}>{h}</option>)}
+                    </select>
+                </div>
+            ))}
         </div>
+        <p className="text-xs text-dark-text-secondary">Identifiers help find the same item at competitors and flag listings that are a different product.</p>
         <div>
             <label className="block text-sm font-medium text-dark-text-secondary mb-2">Competitor URLs <span className="text-xs">(Optional)</span></label>
             <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2 max-h-40 overflow-y-auto p-2 border border-dark-border rounded-md">
@@ -239,7 +356,22 @@ export const ProductInputForm: React.FC<ProductInputFormProps> = ({ onAnalyze, i
                     </label>
                 ))}
             </div>
-             <p className="text-xs text-dark-text-secondary mt-2">If no competitor URLs are mapped, PredictGenie will use web search to find them.</p>
+             <p className="text-xs text-dark-text-secondary mt-2">If no competitor URLs are mapped, PredictGenie will use web search to find them.{stores.length > 0 && ' Saved stores that listed a product in an earlier run are added automatically.'}</p>
+        </div>
+        <div>
+            <label className="block text-sm font-medium text-dark-text-secondary mb-2">Pricing Guardrails <span className="text-xs">(Optional)</span></label>
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+                {CONSTRAINT_FIELDS.map(key => (
+                    <div key={key}>
+                        <label className="block text-xs text-dark-text-secondary mb-1">{CONSTRAINT_LABELS[key]}</label>
+                        <select value={fieldMapping.constraints[key]} onChange={e => setFieldMapping(prev => ({...prev, constraints: {...prev.constraints, [key]: e.target.value}}))} className="w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm">
+                            <option value="">Not used</option>
+                            {csvHeaders.map(h => <option key={`${key}-${h}`} value={h}>{h}</option>)}
+                        </select>
+                    </div>
+                ))}
+            </div>
+            <p className="text-xs text-dark-text-secondary mt-2">Suggestions that break these rules are clamped to the allowed range. Values are in each product's own currency.</p>
         </div>
     </div>
   );
@@ -249,6 +381,7 @@ export const ProductInputForm: React.FC<ProductInputFormProps> = ({ onAnalyze, i
       <div role="tablist" className="flex space-x-2 border-b border-dark-border mb-6 pb-4">
           <TabButton mode="url">Analyze by URL</TabButton>
           <TabButton mode="csv">Analyze by CSV</TabButton>
+          <TabButton mode="feed">Import Feed</TabButton>
       </div>
 
       <form onSubmit={handleSubmit}>
@@ -256,7 +389,12 @@ export const ProductInputForm: React.FC<ProductInputFormProps> = ({ onAnalyze, i
           <div className="space-y-6">
             <div>
               <label htmlFor="user-product-url" className="block text-sm font-medium text-dark-text-secondary mb-2">Your Product URL</label>
-              <input type="url" id="user-product-url" value={userProductUrl} onChange={(e) => setUserProductUrl(e.target.value)} placeholder="https://www.yourstore.com/product" required className="w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-dark-text-primary focus:ring-2 focus:ring-brand-primary focus:border-brand-primary transition"/>
+              <div className="flex space-x-2">
+                <input type="url" id="user-product-url" value={userProductUrl} onChange={(e) => setUserProductUrl(e.target.value)} placeholder="https://www.yourstore.com/product" required className="flex-grow bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-dark-text-primary focus:ring-2 focus:ring-brand-primary focus:border-brand-primary transition"/>
+                <select value={urlCurrency} onChange={e => setUrlCurrency(e.target.value)} aria-label="Currency of your product" className="bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm">
+                  {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+                </select>
+              </div>
             </div>
             <div>
               <h3 className="text-sm font-medium text-dark-text-secondary mb-2">Competitor Product URLs</h3>
@@ -268,22 +406,127 @@ export const ProductInputForm: React.FC<ProductInputFormProps> = ({ onAnalyze, i
                   </div>
                 ))}
               </div>
-              <button type="button" onClick={addCompetitor} className="mt-4 flex items-center space-x-2 text-sm text-brand-primary hover:text-teal-300 transition"><PlusIcon className="w-5 h-5" /><span>Add Competitor</span></button>
+              <div className="mt-4 flex flex-wrap items-center gap-4">
+                <button type="button" onClick={addCompetitor} className="flex items-center space-x-2 text-sm text-brand-primary hover:text-teal-300 transition"><PlusIcon className="w-5 h-5" /><span>Add Competitor</span></button>
+                {stores.length > 0 && (
+                  <select value="" onChange={e => addStoreCompetitor(e.target.value)} aria-label="Add a saved competitor store" className="bg-slate-900 border border-dark-border rounded-md px-3 py-1.5 text-sm">
+                    <option value="">Add from saved stores...</option>
+                    {stores.map(store => (
+                      <option key={store.id} value={store.id} disabled={competitorUrls.some(url => findStoreForUrl(url, [store]))}>{store.name} ({store.domain})</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              <label className="mt-4 flex items-center space-x-2 text-sm text-dark-text-secondary cursor-pointer">
+                <input type="checkbox" checked={findCompetitors || competitorUrls.length === 0} disabled={competitorUrls.length === 0} onChange={e => setFindCompetitors(e.target.checked)} className="rounded bg-slate-800 border-slate-600 text-brand-primary focus:ring-brand-primary"/>
+                <span>Find competitors for me</span>
+              </label>
+              <p className="text-xs text-dark-text-secondary mt-1">PredictGenie searches the web for other retailers selling your product. You can accept or reject what it finds and re-run the analysis.</p>
+            </div>
+            <details className="border border-dark-border rounded-lg p-4 bg-slate-900/50">
+              <summary className="text-sm font-medium text-dark-text-secondary cursor-pointer">Pricing Guardrails <span className="text-xs">(Optional)</span></summary>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-4">
+                {CONSTRAINT_FIELDS.map(key => (
+                  <div key={key}>
+                    <label htmlFor={`constraint-${key}`} className="block text-xs text-dark-text-secondary mb-1">{CONSTRAINT_LABELS[key]}</label>
+                    <input type="text" inputMode="decimal" id={`constraint-${key}`} value={urlConstraints[key]} onChange={e => setUrlConstraints(prev => ({...prev, [key]: e.target.value}))} placeholder={key === 'minMarginPct' ? 'e.g. 25' : urlCurrency} className="w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm"/>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-dark-text-secondary mt-2">The suggested price is kept at or above the floor, the MAP and the minimum margin over cost, and at or below the ceiling.</p>
+            </details>
+            {urlError && <p className="text-sm text-red-400">{urlError}</p>}
+          </div>
+        ) : inputMode === 'feed' ? (
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="feed-upload" className="block text-sm font-medium text-dark-text-secondary mb-2">Upload Product Feed</label>
+              <input type="file" id="feed-upload" accept=".xml,.tsv,.txt,.json" onChange={handleFeedFileChange} className="w-full text-sm text-dark-text-secondary file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-slate-700 file:text-dark-text-primary hover:file:bg-slate-600"/>
+              <p className="text-xs text-dark-text-secondary mt-2">A Google Merchant Center feed (XML or TSV) or a Shopify products JSON export. Titles, prices, links, SKUs, GTINs and MPNs are read automatically, and competitors are found by web search.</p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="md:col-span-2">
+                <label htmlFor="feed-store-url" className="block text-xs text-dark-text-secondary mb-1">Store URL <span className="text-xs">(Shopify only, for product links)</span></label>
+                <input type="url" id="feed-store-url" value={feedStoreUrl} onChange={e => setFeedStoreUrl(e.target.value)} placeholder="https://yourstore.com" className="w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm text-dark-text-primary"/>
+              </div>
+              <div>
+                <label htmlFor="feed-currency" className="block text-xs text-dark-text-secondary mb-1">Currency <span className="text-xs">(when the feed doesn't state one)</span></label>
+                <select id="feed-currency" value={feedCurrency} onChange={e => setFeedCurrency(e.target.value)} className="w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm">
+                  {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+                </select>
+              </div>
             </div>
+            {feed?.result && (
+              <div className="p-4 border border-dark-border rounded-lg bg-slate-900/50 space-y-3">
+                <p className="text-sm text-dark-text-secondary">
+                  Read {feed.result.products.length.toLocaleString()} products from a {FEED_FORMAT_LABELS[feed.result.format]}.
+                  {' '}{feed.result.products.filter(p => p.gtin).length.toLocaleString()} have a GTIN.
+                </p>
+                {feed.result.products.length > 0 && (
+                  <table className="min-w-full text-sm">
+                    <thead className="border-b border-dark-border">
+                      <tr>
+                        <th className="py-2 px-3 text-left font-semibold text-dark-text-secondary">Product</th>
+                        <th className="py-2 px-3 text-right font-semibold text-dark-text-secondary">Price</th>
+                        <th className="py-2 px-3 text-left font-semibold text-dark-text-secondary">GTIN</th>
+                        <th className="py-2 px-3 text-left font-semibold text-dark-text-secondary">Link</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {feed.result.products.slice(0, FEED_PREVIEW_ROWS).map((product, i) => (
+                        <tr key={i} className="border-b border-dark-border last:border-0">
+                          <td className="py-2 px-3 text-dark-text-primary truncate max-w-xs" title={product.productName}>{product.productName}</td>
+                          <td className="py-2 px-3 text-right font-mono text-white whitespace-nowrap">{product.currentPrice} {product.currency}</td>
+                          <td className="py-2 px-3 font-mono text-dark-text-secondary">{product.gtin || '—'}</td>
+                          <td className="py-2 px-3 text-dark-text-secondary truncate max-w-xs" title={product.userProductUrl}>{product.userProductUrl || '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                {feed.result.products.length > FEED_PREVIEW_ROWS && (
+                  <p className="text-xs text-dark-text-secondary">...and {(feed.result.products.length - FEED_PREVIEW_ROWS).toLocaleString()} more.</p>
+                )}
+                {feed.result.errors.length > 0 && (
+                  <p className="text-sm text-yellow-400">
+                    Warning: Skipped {feed.result.errors.length} items. Reasons: {feed.result.errors.slice(0, 10).join(' ')}{feed.result.errors.length > 10 ? ' ...' : ''}
+                  </p>
+                )}
+              </div>
+            )}
+            {(feed?.error || feedError) && <p className="text-sm text-red-400">{feed?.error || feedError}</p>}
           </div>
         ) : (
           <div className="space-y-4">
+            {!csvFile && project.products.length > 0 && (
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-3 rounded-md border border-dark-border bg-slate-900/50">
+                <p className="text-sm text-dark-text-secondary">This project's last batch had {project.products.length.toLocaleString()} product{project.products.length === 1 ? '' : 's'}.</p>
+                <button type="button" onClick={() => onAnalyze({ type: 'csv', products: project.products })} disabled={isLoading} className="text-sm font-semibold text-brand-primary hover:text-teal-300 transition disabled:opacity-50">Analyze them again</button>
+              </div>
+            )}
             <div>
               <label htmlFor="csv-upload" className="block text-sm font-medium text-dark-text-secondary mb-2">Upload Products CSV</label>
-              <input type="file" id="csv-upload" accept=".csv" onChange={handleFileChange} className="w-full text-sm text-dark-text-secondary file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-slate-700 file:text-dark-text-primary hover:file:bg-slate-600"/>
+              <input type="file" id="csv-upload" accept=".csv,.tsv,.txt" onChange={handleFileChange} className="w-full text-sm text-dark-text-secondary file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-slate-700 file:text-dark-text-primary hover:file:bg-slate-600"/>
             </div>
+            {csvParseProgress !== null && <p className="text-sm text-dark-text-secondary">Reading file... {Math.round(csvParseProgress * 100)}%</p>}
+            {csvSummary && <p className="text-sm text-dark-text-secondary">{csvSummary}</p>}
             {csvHeaders.length > 0 ? <CsvMappingInterface /> : null}
             {csvError && <p className={`text-sm mt-2 ${csvError.startsWith('Warning:') ? 'text-yellow-400' : 'text-red-400'}`}>{csvError}</p>}
-            <div>
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
                 <button type="button" onClick={downloadSampleCsv} className="text-sm text-brand-primary hover:text-teal-300 transition">Download Sample CSV</button>
+                <label className="text-sm text-brand-primary hover:text-teal-300 transition cursor-pointer">
+                    Open Exported Analysis (.json)
+                    <input type="file" accept=".json,application/json" onChange={handleImportRun} className="hidden"/>
+                </label>
             </div>
           </div>
         )}
+        <div className="mt-6 space-y-4">
+          <CurrencySettingsPanel />
+          <PricingRulesPanel />
+          <AnalysisSettingsPanel />
+          <ServerAccessPanel />
+        </div>
         <div className="mt-8 pt-6 border-t border-dark-border">
           <button type="submit" disabled={isLoading} className="w-full flex justify-center items-center bg-brand-primary text-white font-bold py-3 px-4 rounded-md hover:bg-brand-secondary transition-colors disabled:bg-slate-600 disabled:cursor-not-allowed">
             {isLoading ? 'Analyzing...' : 'Analyze Prices'}
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import {
+  DEFAULT_PROJECT_ID,
+  createProject,
+  deleteProject,
+  getActiveProject,
+  listProjects,
+  renameProject,
+  setActiveProject,
+  subscribeToProjects,
+} from '../services/projectService';
+import { clearHistory, listRuns, putRuns } from '../services/historyService';
+import { getPricingRules, savePricingRules } from '../services/pricingEngine';
+import { getCompetitorStores, replaceCompetitorStores } from '../services/competitorRegistry';
+import { getAnalysisSettings, listTemplateVersions, replaceTemplateVersions, saveAnalysisSettings } from '../services/analysisSettingsService';
+import { BUILTIN_TEMPLATE_VERSION } from '../services/promptTemplates';
+import { parseProjectExport, projectExportFilename, projectToJson } from '../services/exportService';
+import { downloadFile } from '../utils/download';
+import { createId } from '../utils/id';
+
+// An imported project gets a name no other project uses
+const availableName = (name: string): string => {
+  const taken = new Set(listProjects().map(project => project.name.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+  let n = 2;
+  while (taken.has(`${name} (${n})`.toLowerCase())) n++;
+  return `${name} (${n})`;
+};
+
+// Project switcher shown above every view. Switching is disabled while an analysis runs.
+export const ProjectBar: React.FC<{ disabled?: boolean }> = ({ disabled = false }) => {
+  const [projects, setProjects] = useState(listProjects);
+  const [active, setActive] = useState(getActiveProject);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeToProjects(() => {
+    setProjects(listProjects());
+    setActive(getActiveProject());
+  }), []);
+
+  const run = async (action: () => void | Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The project could not be updated.');
+    }
+  };
+
+  const handleCreate = () => run(() => {
+    const name = window.prompt('Name of the new project');
+    if (name === null) return;
+    setActiveProject(createProject(name).id);
+  });
+
+  const handleRename = () => run(() => {
+    const name = window.prompt('New project name', active.name);
+    if (name !== null) renameProject(active.id, name);
+  });
+
+  const handleDelete = () => run(async () => {
+    if (!window.confirm(`Delete the project "${active.name}" with its settings, competitor registry and history? This cannot be undone.`)) return;
+    await clearHistory(active.id);
+    deleteProject(active.id);
+  });
+
+  const handleExport = () => run(async () => {
+    const runs = await listRuns(active.id);
+    const json = projectToJson({
+      project: active,
+      pricingRules: getPricingRules(),
+      analysisSettings: getAnalysisSettings(),
+      promptTemplates: listTemplateVersions().filter(template => template.version !== BUILTIN_TEMPLATE_VERSION),
+      competitorStores: getCompetitorStores(),
+      runs,
+    });
+    downloadFile(json, projectExportFilename(active.name), 'application/json');
+  });
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    run(async () => {
+      const data = parseProjectExport(await file.text());
+      const { urlInput, products, csvMappings } = data.project;
+      const project = createProject(availableName(data.project.name), { urlInput, products, csvMappings });
+      setActiveProject(project.id);
+      savePricingRules(data.pricingRules);
+      // Versions first: the settings may refer to one of them
+      replaceTemplateVersions(data.promptTemplates);
+      saveAnalysisSettings(data.analysisSettings);
+      replaceCompetitorStores(data.competitorStores);
+      // New ids, so importing a project twice doesn't overwrite the first copy's runs
+      await putRuns(data.runs.map(imported => ({ ...imported, id: createId(), projectId: project.id })));
+    });
+  };
+
+  const buttonClass = 'px-3 py-1.5 text-xs font-semibold rounded-md border border-dark-border text-dark-text-secondary hover:text-white hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="mb-8">
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="active-project" className="text-sm text-dark-text-secondary">Project</label>
+        <select id="active-project" value={active.id} onChange={e => run(() => setActiveProject(e.target.value))} disabled={disabled}
+          className="bg-slate-900 border border-dark-border rounded-md px-3 py-1.5 text-sm disabled:opacity-50">
+          {projects.map(project => <option key={project.id} value={project.id}>{project.name}</option>)}
+        </select>
+        <button type="button" onClick={handleCreate} disabled={disabled} className={buttonClass}>New</button>
+        <button type="button" onClick={handleRename} disabled={disabled} className={buttonClass}>Rename</button>
+        <button type="button" onClick={handleExport} className={buttonClass} title="Settings, competitor registry, mappings and history as one JSON file">Export</button>
+        <label className={`${buttonClass} ${disabled ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+          Import
+          <input type="file" accept=".json,application/json" onChange={handleImport} disabled={disabled} className="hidden" />
+        </label>
+        {active.id !== DEFAULT_PROJECT_ID && (
+          <button type="button" onClick={handleDelete} disabled={disabled} className={`${buttonClass} hover:text-red-400`}>Delete</button>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import React from 'react';
+import type { Competitor, CompetitorField } from '../types';
+import { describeProvenance, fieldOrigin, ORIGIN_LABELS } from '../services/provenance';
+
+const ORIGIN_CLASSES = {
+  scraped: 'bg-green-900/60 text-green-300 border-green-700',
+  grounded: 'bg-sky-900/60 text-sky-300 border-sky-700',
+  estimated: 'bg-yellow-900/60 text-yellow-300 border-yellow-600 border-dashed',
+};
+
+// Small tag saying where a competitor value came from; hover for source, time and confidence
+export const ProvenanceMark: React.FC<{ competitor: Competitor; field: CompetitorField }> = ({ competitor, field }) => {
+  const origin = fieldOrigin(competitor, field);
+  return (
+    <span title={describeProvenance(competitor.provenance?.[field])}
+      className={`inline-block px-1.5 py-px text-[10px] font-semibold uppercase tracking-wide rounded border ${ORIGIN_CLASSES[origin]}`}>
+      {ORIGIN_LABELS[origin]}
+    </span>
+  );
+};
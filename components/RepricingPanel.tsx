@@ -0,0 +1,115 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { AnalysisResult, RepriceReport, RepriceStatus } from '../types';
+import { Card } from './common/Card';
+import { formatCurrency } from '../utils/formatters';
+import { buildPriceUpdates, repriceStore, REPRICE_STATUS_LABELS } from '../services/repricingService';
+
+const STATUS_CLASSES: Record<RepriceStatus, string> = {
+  updated: 'text-green-400',
+  wouldUpdate: 'text-sky-300',
+  unchanged: 'text-gray-400',
+  notFound: 'text-yellow-400',
+  blocked: 'text-orange-400',
+  failed: 'text-red-400',
+};
+
+// The push secret is kept for the browser session only
+const SECRET_KEY = 'predictgenie.repriceSecret';
+
+const readSecret = () => {
+  try {
+    return sessionStorage.getItem(SECRET_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+// Preview the approved prices against the store, then push them
+export const RepricingPanel: React.FC<{ results: AnalysisResult }> = ({ results }) => {
+  const { updates, skipped } = useMemo(() => buildPriceUpdates(results), [results]);
+  const [report, setReport] = useState<RepriceReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [secret, setSecret] = useState(readSecret);
+
+  // A report is only valid for the approvals it was made from
+  useEffect(() => setReport(null), [updates]);
+
+  if (updates.length === 0 && skipped.length === 0) return null;
+
+  const pendingChanges = report?.dryRun ? report.results.filter(r => r.status === 'wouldUpdate').length : 0;
+
+  const run = async (dryRun: boolean) => {
+    if (!dryRun && !window.confirm(`Change ${pendingChanges} price${pendingChanges === 1 ? '' : 's'} in ${report?.connector || 'the store'}?`)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      try {
+        sessionStorage.setItem(SECRET_KEY, secret);
+      } catch {
+        // Storage unavailable: the secret has to be entered again next session
+      }
+      setReport(await repriceStore(updates, dryRun, secret));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The store could not be reached.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const buttonClass = 'px-4 py-2 text-sm font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <Card>
+      <h2 className="text-xl font-bold text-white mb-2">Push Prices to Store</h2>
+      <p className="text-sm text-dark-text-secondary">
+        {updates.length} approved price{updates.length === 1 ? '' : 's'} ready.
+        {skipped.length > 0 && ` ${skipped.length} approved product${skipped.length === 1 ? ' has' : 's have'} no SKU or URL and can't be matched in the store.`}
+        {' '}Preview the changes first; nothing is written until you push.
+      </p>
+      <div className="flex flex-wrap gap-2 mt-4">
+        <input type="password" value={secret} onChange={e => setSecret(e.target.value)} placeholder="Store push secret" aria-label="Store push secret" autoComplete="off"
+          title="The REPRICE_TOKEN configured on the server"
+          className="bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm text-dark-text-primary" />
+        <button type="button" onClick={() => run(true)} disabled={busy || updates.length === 0 || !secret} className={`${buttonClass} border border-dark-border text-dark-text-secondary hover:bg-slate-700`}>
+          {busy && !report ? 'Checking...' : 'Preview changes'}
+        </button>
+        <button type="button" onClick={() => run(false)} disabled={busy || pendingChanges === 0 || !secret} className={`${buttonClass} bg-brand-primary text-white hover:bg-brand-secondary`}>
+          Push {pendingChanges} change{pendingChanges === 1 ? '' : 's'}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+
+      {report && (
+        <div className="overflow-x-auto mt-6">
+          <p className="text-xs text-dark-text-secondary mb-2">
+            {report.dryRun ? 'Dry run against' : 'Pushed to'} {report.connector}
+          </p>
+          <table className="min-w-full text-sm">
+            <thead className="border-b border-dark-border">
+              <tr>
+                <th className="py-2 px-3 text-left font-semibold text-dark-text-secondary">Product</th>
+                <th className="py-2 px-3 text-right font-semibold text-dark-text-secondary">Store Price</th>
+                <th className="py-2 px-3 text-right font-semibold text-dark-text-secondary">New Price</th>
+                <th className="py-2 px-3 text-left font-semibold text-dark-text-secondary">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.results.map((item, i) => (
+                <tr key={i} className="border-b border-dark-border last:border-0">
+                  <td className="py-2 px-3 text-white truncate max-w-xs" title={item.update.productUrl}>{item.update.productName || item.update.sku || item.update.productUrl}</td>
+                  <td className="py-2 px-3 text-right font-mono text-dark-text-secondary">{item.previousPrice !== undefined ? formatCurrency(item.previousPrice, item.update.currency) : '—'}</td>
+                  <td className="py-2 px-3 text-right font-mono text-white">{formatCurrency(item.update.newPrice, item.update.currency)}</td>
+                  <td className={`py-2 px-3 ${STATUS_CLASSES[item.status]}`} title={item.message}>
+                    {REPRICE_STATUS_LABELS[item.status]}
+                    {item.message && <span className="block text-xs text-dark-text-secondary">{item.message}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -1,17 +1,31 @@
 
-import React, { useState } from 'react';
-import type { AnalysisResult, Competitor, ProductAnalysis } from '../types';
+import React, { useMemo, useState } from 'react';
+import type { AnalysisResult, AnalysisFailure, Competitor, ProductAnalysis, ValidationIssue, GuardrailResult, PriceReview } from '../types';
 import { Card } from './common/Card';
 import { ArrowUpIcon } from './icons/ArrowUpIcon';
 import { ArrowDownIcon } from './icons/ArrowDownIcon';
 import { EqualsIcon } from './icons/EqualsIcon';
+import { formatCurrency } from '../utils/formatters';
+import { WatchButton } from './WatchButton';
+import { ExportMenu } from './ExportMenu';
+import { aiVsRuleDifference, strategyLabel } from '../services/pricingEngine';
+import { isEstimated } from '../services/provenance';
+import { ProvenanceMark } from './ProvenanceMark';
+import { MatchBadge } from './MatchBadge';
+import { isMismatch } from '../services/matchingService';
+import { PriceSimulator } from './PriceSimulator';
+import { DEFAULT_RESULTS_QUERY, RESULTS_FILTERS, paginate, queryResults } from '../services/resultsQuery';
+import type { ResultsFilter, ResultsQuery, ResultsSortKey } from '../services/resultsQuery';
+import { countReviews, smallChangeIndices, acceptSuggestion, REVIEW_LABELS } from '../services/reviewService';
+import { ReviewBadge, ReviewPanel } from './ReviewPanel';
+import { RepricingPanel } from './RepricingPanel';
+import { BatchDashboard } from './BatchDashboard';
+import { describeAnalysisSettings } from '../services/promptTemplates';
 
-const formatCurrency = (amount: number) => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-  }).format(amount);
-};
+// Review decisions keyed by result index; null clears a decision
+type ReviewHandler = (reviews: Record<number, PriceReview | null>) => void;
+
+const PAGE_SIZES = [25, 50, 100];
 
 const TrendIcon: React.FC<{ trend: Competitor['priceTrend'] }> = ({ trend }) => {
   switch (trend) {
@@ -43,24 +57,180 @@ const StockStatusBadge: React.FC<{ status: Competitor['stockStatus'] }> = ({ sta
     return <span className={`${baseClasses} ${colorClasses}`}>{status}</span>;
 };
 
-const SingleResultDisplay: React.FC<{ analysis: ProductAnalysis }> = ({ analysis }) => {
-  const { userProduct, competitors, suggestedPrice, reasoning, marketSummary } = analysis;
+// Shows the listed price when a competitor price was converted into our currency
+const OriginalPrice: React.FC<{ competitor: Competitor }> = ({ competitor }) => {
+    if (competitor.originalPrice === undefined || !competitor.originalCurrency) return null;
+    return (
+        <p className="text-xs text-dark-text-secondary mt-1">
+            Listed at {formatCurrency(competitor.originalPrice, competitor.originalCurrency)}
+        </p>
+    );
+};
+
+// Registry store of the listing, with its landed price and trust weight when they affect the rule price
+const StoreInfo: React.FC<{ competitor: Competitor; currency?: string }> = ({ competitor, currency }) => {
+    if (!competitor.store) return null;
+    const details = [
+        ...(competitor.landedPrice !== undefined ? [`${formatCurrency(competitor.landedPrice, competitor.currency || currency)} with shipping and tax`] : []),
+        ...(competitor.store.trustWeight !== 1 ? [`trust ${competitor.store.trustWeight}`] : []),
+    ];
+    return (
+        <p className="text-xs text-dark-text-secondary mt-1">
+            {competitor.store.name}{details.length > 0 && `: ${details.join(', ')}`}
+        </p>
+    );
+};
+
+const ValidationIssuesList: React.FC<{ issues: ValidationIssue[] }> = ({ issues }) => (
+    <div className="p-3 rounded-md bg-yellow-900/30 border border-yellow-700 text-sm">
+        <p className="font-semibold text-yellow-300 mb-1">Data quality warnings</p>
+        <ul className="list-disc list-inside space-y-1 text-yellow-200/80">
+            {issues.map((issue, i) => (
+                <li key={i}>{issue.field && <span className="font-mono">{issue.field}: </span>}{issue.message}</li>
+            ))}
+        </ul>
+    </div>
+);
+
+const formatMargin = (guardrails?: GuardrailResult) =>
+    guardrails?.marginPct !== undefined ? `${guardrails.marginPct.toFixed(1)}%` : '—';
+
+// Margin at the suggested price and the pricing rules that changed or flagged it
+const GuardrailSummary: React.FC<{ analysis: ProductAnalysis }> = ({ analysis }) => {
+    const { guardrails, userProduct } = analysis;
+    if (!guardrails) return null;
+    const wasClamped = guardrails.violations.some(v => v.action === 'clamped');
+    return (
+        <div className="text-sm space-y-2">
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-dark-text-secondary">
+                {guardrails.margin !== undefined && (
+                    <span>Margin: <span className={`font-semibold ${guardrails.margin < 0 ? 'text-red-400' : 'text-white'}`}>{formatCurrency(guardrails.margin, userProduct.currency)} ({formatMargin(guardrails)})</span></span>
+                )}
+                {wasClamped && (
+                    <span>AI suggestion: <span className="font-semibold text-white">{formatCurrency(guardrails.aiSuggestedPrice, userProduct.currency)}</span></span>
+                )}
+            </div>
+            {guardrails.violations.length > 0 && (
+                <ul className="space-y-1">
+                    {guardrails.violations.map((violation, i) => (
+                        <li key={i} className={violation.action === 'clamped' ? 'text-sky-300' : 'text-yellow-300'}>
+                            <span className="font-semibold">{violation.action === 'clamped' ? 'Rule enforced' : 'Check'}:</span> {violation.message}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const formatDifference = (analysis: ProductAnalysis) => {
+    const diff = aiVsRuleDifference(analysis);
+    if (!diff) return null;
+    const sign = diff.amount > 0 ? '+' : '';
+    return `${sign}${formatCurrency(diff.amount, analysis.userProduct.currency)} (${sign}${diff.pct.toFixed(1)}%)`;
+};
+
+// The deterministic price from the pricing rules, next to the AI suggestion
+const RuleComparison: React.FC<{ analysis: ProductAnalysis }> = ({ analysis }) => {
+    const { ruleBasedPrice, userProduct } = analysis;
+    if (!ruleBasedPrice) return null;
+    return (
+        <div className="text-sm space-y-1">
+            <div className="flex flex-wrap items-baseline gap-x-6 gap-y-1 text-dark-text-secondary">
+                <span>Rule-based price: <span className="font-semibold text-white">{formatCurrency(ruleBasedPrice.price, userProduct.currency)}</span></span>
+                <span title="The AI's own suggestion, before guardrails, minus the rule-based price">AI vs rule: <span className="font-semibold text-white">{formatDifference(analysis)}</span></span>
+            </div>
+            <p className="text-xs text-dark-text-secondary">{strategyLabel(ruleBasedPrice.config.strategy)}: {ruleBasedPrice.explanation}</p>
+        </div>
+    );
+};
+
+const SourcesList: React.FC<{ sources: NonNullable<ProductAnalysis['sources']> }> = ({ sources }) => (
+    <ul className="list-disc list-inside space-y-1">
+        {sources.map((source, i) => (
+            <li key={i} className="text-sm text-dark-text-secondary truncate">
+                <a href={source.web.uri} target="_blank" rel="noopener noreferrer" className="text-brand-primary hover:underline" title={source.web.uri}>
+                    {source.web.title || source.web.uri}
+                </a>
+            </li>
+        ))}
+    </ul>
+);
+
+const countEstimatedPrices = (competitors: Competitor[]) => competitors.filter(c => isEstimated(c, 'price')).length;
+
+const FailuresPanel: React.FC<{ failures: AnalysisFailure[] }> = ({ failures }) => (
+    <Card className="border-red-500">
+        <h2 className="text-lg font-bold text-red-300 mb-2">{failures.length} product{failures.length === 1 ? '' : 's'} could not be analyzed</h2>
+        <ul className="space-y-2 text-sm">
+            {failures.map(failure => (
+                <li key={failure.index} className="text-dark-text-secondary">
+                    <span className="text-white font-medium">Row {failure.index + 1}: {failure.productName}</span> &ndash; {failure.reason}
+                </li>
+            ))}
+        </ul>
+    </Card>
+);
+
+const SingleResultDisplay: React.FC<{ analysis: ProductAnalysis; onRerun?: (competitorUrls: string[]) => void; onReview?: ReviewHandler }> = ({ analysis, onRerun, onReview }) => {
+  const { userProduct, competitors, suggestedPrice, reasoning, marketSummary, validationIssues } = analysis;
+  const estimatedPrices = countEstimatedPrices(competitors);
+  // Competitors found by search are kept unless the user rejects them; likely mismatches start out rejected
+  const discovered = competitors.filter(c => c.discovered);
+  const [rejected, setRejected] = useState<Set<string>>(() => new Set(discovered.filter(isMismatch).map(c => c.url)));
+  const identifiers = (['sku', 'gtin', 'mpn'] as const).filter(key => userProduct[key]);
+  const curatedUrls = competitors.filter(c => !rejected.has(c.url)).map(c => c.url);
+
+  const toggleRejected = (url: string) => setRejected(prev => {
+    const next = new Set(prev);
+    if (next.has(url)) next.delete(url); else next.add(url);
+    return next;
+  });
+
   return (
     <div className="space-y-8">
+      {validationIssues && validationIssues.length > 0 && <ValidationIssuesList issues={validationIssues} />}
+      {estimatedPrices > 0 && (
+        <div className="p-3 rounded-md bg-yellow-900/30 border border-dashed border-yellow-600 text-sm text-yellow-200">
+          {estimatedPrices === competitors.length ? 'None of the competitor prices' : `${estimatedPrices} of ${competitors.length} competitor prices`} could be verified from a page or search result. Values marked <span className="font-semibold">Estimated</span> were made up by the model; check them before repricing.
+        </div>
+      )}
       <Card className="bg-gradient-to-br from-teal-900 via-slate-800 to-slate-800 border-brand-primary">
-        <h2 className="text-xl font-bold text-white mb-2">PredictGenie Suggestion</h2>
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold text-white">PredictGenie Suggestion</h2>
+          <WatchButton analysis={analysis} />
+        </div>
         <div className="flex items-baseline justify-center text-center my-6">
-          <span className="text-5xl font-extrabold text-white tracking-tight">{formatCurrency(suggestedPrice)}</span>
+          <span className="text-5xl font-extrabold text-white tracking-tight">{formatCurrency(suggestedPrice, userProduct.currency)}</span>
         </div>
+        {analysis.settings && <p className="-mt-4 mb-6 text-xs text-center text-dark-text-secondary">{describeAnalysisSettings(analysis.settings)}</p>}
+        {analysis.ruleBasedPrice && (
+          <div className="mb-4 p-3 rounded-md bg-slate-900/50 border border-dark-border">
+            <RuleComparison analysis={analysis} />
+          </div>
+        )}
+        {analysis.guardrails && (
+          <div className="mb-6 p-3 rounded-md bg-slate-900/50 border border-dark-border">
+            <GuardrailSummary analysis={analysis} />
+          </div>
+        )}
         <h3 className="font-semibold text-white mb-2">Reasoning:</h3>
         <p className="text-dark-text-secondary text-sm">{reasoning}</p>
+        {onReview && (
+          <div className="mt-6 pt-4 border-t border-dark-border">
+            <ReviewPanel analysis={analysis} onChange={review => onReview({ 0: review })} />
+          </div>
+        )}
       </Card>
       
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card className="md:col-span-1">
           <h3 className="font-bold text-white mb-2">Your Product</h3>
           <p className="text-sm text-dark-text-secondary truncate" title={userProduct.productName}>{userProduct.productName}</p>
-          <p className="text-3xl font-bold text-brand-primary mt-2">{formatCurrency(userProduct.currentPrice)}</p>
+          <p className="text-3xl font-bold text-brand-primary mt-2">{formatCurrency(userProduct.currentPrice, userProduct.currency)}</p>
+          {identifiers.length > 0 && (
+            <p className="text-xs text-dark-text-secondary mt-1 font-mono truncate">{identifiers.map(key => `${key.toUpperCase()} ${userProduct[key]}`).join(' · ')}</p>
+          )}
            {userProduct.url && <a href={userProduct.url} target="_blank" rel="noopener noreferrer" className="text-xs text-slate-500 hover:text-brand-primary mt-1 block truncate">
                 {userProduct.url}
             </a>}
@@ -72,37 +242,126 @@ const SingleResultDisplay: React.FC<{ analysis: ProductAnalysis }> = ({ analysis
         </Card>
       </div>
 
+      {/* Keyed so another run starts from its own suggestion */}
+      <PriceSimulator key={`${userProduct.url}|${suggestedPrice}`} analysis={analysis} />
+
       <div>
         <h2 className="text-xl font-bold text-white mb-4">Competitor Analysis</h2>
+        {discovered.length > 0 && (
+          <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 p-4 bg-slate-800 border border-brand-primary rounded-lg">
+            <p className="text-sm text-dark-text-secondary">
+              {discovered.length} competitor{discovered.length === 1 ? ' was' : 's were'} found by web search. Reject any that don't sell the same product, then re-run the analysis with the remaining {curatedUrls.length}.
+            </p>
+            {onRerun && (
+              <button type="button" onClick={() => onRerun(curatedUrls)} disabled={curatedUrls.length === 0} className="flex-shrink-0 px-4 py-2 text-sm font-semibold rounded-md bg-brand-primary text-white hover:bg-brand-secondary transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                Re-run with {curatedUrls.length} competitor{curatedUrls.length === 1 ? '' : 's'}
+              </button>
+            )}
+          </div>
+        )}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
           {competitors.map((competitor, index) => (
-            <Card key={index}>
+            <Card key={index} className={rejected.has(competitor.url) ? 'opacity-50' : ''}>
               <div className="flex flex-col h-full">
                 <div className="flex-grow">
-                    <p className="font-semibold text-white truncate" title={competitor.productName}>{competitor.productName}</p>
+                    <div className="flex items-center gap-2">
+                        <p className="font-semibold text-white truncate" title={competitor.productName}>{competitor.productName}</p>
+                        {isEstimated(competitor, 'productName') && <ProvenanceMark competitor={competitor} field="productName" />}
+                    </div>
                     <a href={competitor.url} target="_blank" rel="noopener noreferrer" className="text-xs text-slate-500 hover:text-brand-primary block truncate">
                         {competitor.url}
                     </a>
                 </div>
                 <div className="mt-4 flex items-center justify-between">
-                  <p className="text-2xl font-bold text-dark-text-primary">{formatCurrency(competitor.price)}</p>
-                  <TrendIcon trend={competitor.priceTrend} />
+                  <p className={`text-2xl font-bold ${isEstimated(competitor, 'price') ? 'text-yellow-200 underline decoration-dashed decoration-yellow-500' : 'text-dark-text-primary'}`}>{formatCurrency(competitor.price, competitor.currency || userProduct.currency)}</p>
+                  <div className="flex items-center gap-1" title={`Trend: ${competitor.priceTrend}`}>
+                    <TrendIcon trend={competitor.priceTrend} />
+                  </div>
+                </div>
+                <div className="mt-1 flex items-center gap-2">
+                    <ProvenanceMark competitor={competitor} field="price" />
+                    {competitor.match && <MatchBadge match={competitor.match} />}
                 </div>
-                <div className="mt-2">
+                {isMismatch(competitor) && (
+                    <p className="text-xs text-red-300 mt-2">{competitor.match!.reasons.join(' ')} Left out of the rule-based price.</p>
+                )}
+                <OriginalPrice competitor={competitor} />
+                <StoreInfo competitor={competitor} currency={userProduct.currency} />
+                <div className="mt-2 flex items-center gap-2">
                     <StockStatusBadge status={competitor.stockStatus} />
+                    <ProvenanceMark competitor={competitor} field="stockStatus" />
                 </div>
+                {isEstimated(competitor, 'priceTrend') && (
+                    <p className="text-xs text-dark-text-secondary mt-2">Price trend is estimated.</p>
+                )}
+                {competitor.discovered && (
+                    <div className="mt-4 pt-3 border-t border-dark-border flex items-center justify-between">
+                        <span className="text-xs text-sky-300">Found by search</span>
+                        <div className="flex space-x-1">
+                            <button type="button" onClick={() => rejected.has(competitor.url) && toggleRejected(competitor.url)} aria-pressed={!rejected.has(competitor.url)} className={`px-2 py-1 text-xs font-semibold rounded-md transition-colors ${rejected.has(competitor.url) ? 'text-dark-text-secondary hover:bg-slate-700' : 'bg-green-800 text-green-200'}`}>Accept</button>
+                            <button type="button" onClick={() => !rejected.has(competitor.url) && toggleRejected(competitor.url)} aria-pressed={rejected.has(competitor.url)} className={`px-2 py-1 text-xs font-semibold rounded-md transition-colors ${rejected.has(competitor.url) ? 'bg-red-800 text-red-200' : 'text-dark-text-secondary hover:bg-slate-700'}`}>Reject</button>
+                        </div>
+                    </div>
+                )}
               </div>
             </Card>
           ))}
         </div>
       </div>
+
+      {analysis.sources && analysis.sources.length > 0 && (
+        <Card>
+          <h3 className="font-bold text-white mb-2">Sources</h3>
+          <SourcesList sources={analysis.sources} />
+        </Card>
+      )}
     </div>
   );
 };
 
 
-const BatchResultDisplay: React.FC<{ results: AnalysisResult }> = ({ results }) => {
+const SortableHeader: React.FC<{ label: string; sortKey: ResultsSortKey; query: ResultsQuery; onSort: (key: ResultsSortKey) => void; align?: 'left' | 'right' }> = ({ label, sortKey, query, onSort, align = 'right' }) => {
+    const active = query.sortKey === sortKey;
+    return (
+        <th className={`py-2 px-3 font-semibold text-dark-text-secondary text-${align}`} aria-sort={active ? (query.sortDirection === 'asc' ? 'ascending' : 'descending') : 'none'}>
+            <button type="button" onClick={() => onSort(sortKey)} className={`hover:text-white ${active ? 'text-white' : ''}`}>
+                {label}{active ? (query.sortDirection === 'asc' ? ' ▲' : ' ▼') : ''}
+            </button>
+        </th>
+    );
+};
+
+const BatchResultDisplay: React.FC<{ results: AnalysisResult, isPartial?: boolean, onReview?: ReviewHandler }> = ({ results, isPartial = false, onReview }) => {
+    // Index into `results`, so the open row stays open when sorting or paging
     const [expandedRow, setExpandedRow] = useState<number | null>(null);
+    const [query, setQuery] = useState<ResultsQuery>(DEFAULT_RESULTS_QUERY);
+    const [page, setPage] = useState(0);
+    const [pageSize, setPageSize] = useState(PAGE_SIZES[1]);
+    const [bulkThresholdPct, setBulkThresholdPct] = useState(3);
+    const reviewCounts = countReviews(results);
+    const bulkCandidates = smallChangeIndices(results, bulkThresholdPct);
+
+    const approveSmallChanges = () => {
+        if (!onReview || bulkCandidates.length === 0) return;
+        const note = `Bulk approved: change under ${bulkThresholdPct}%`;
+        onReview(Object.fromEntries(bulkCandidates.map(index => [index, acceptSuggestion(results[index], note)])));
+    };
+
+    const rows = useMemo(() => queryResults(results, query), [results, query]);
+    const visible = paginate(rows, page, pageSize);
+
+    const updateQuery = (changes: Partial<ResultsQuery>) => {
+        setQuery(prev => ({ ...prev, ...changes }));
+        setPage(0);
+    };
+
+    // Click once for ascending, again for descending, a third time for input order
+    const handleSort = (key: ResultsSortKey) => {
+        if (query.sortKey !== key) return updateQuery({ sortKey: key, sortDirection: key === 'productName' ? 'asc' : 'desc' });
+        const firstDirection = key === 'productName' ? 'asc' : 'desc';
+        if (query.sortDirection === firstDirection) return updateQuery({ sortDirection: firstDirection === 'asc' ? 'desc' : 'asc' });
+        updateQuery({ sortKey: 'input', sortDirection: 'asc' });
+    };
 
     const getPriceChange = (current: number, suggested: number) => {
         if (current === 0) return { value: 0, class: 'text-gray-400' };
@@ -115,29 +374,91 @@ const BatchResultDisplay: React.FC<{ results: AnalysisResult }> = ({ results })
 
     return (
         <Card>
-            <h2 className="text-xl font-bold text-white mb-4">Batch Analysis Results</h2>
+            <h2 className="text-xl font-bold text-white mb-4">Batch Analysis Results{isPartial && <span className="ml-2 text-sm font-normal text-dark-text-secondary">(partial results)</span>}</h2>
+            {onReview && (
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4 p-3 rounded-md bg-slate-900/50 border border-dark-border text-sm text-dark-text-secondary">
+                    <span>
+                        {(['pending', 'accepted', 'overridden', 'rejected'] as const).map(status => `${reviewCounts[status]} ${REVIEW_LABELS[status].toLowerCase()}`).join(', ')}
+                    </span>
+                    <div className="flex items-center space-x-2">
+                        <span>Approve pending changes under</span>
+                        <input type="number" min="0" step="0.5" value={bulkThresholdPct} onChange={e => setBulkThresholdPct(parseFloat(e.target.value) || 0)} aria-label="Bulk approval threshold"
+                            className="w-16 bg-slate-900 border border-dark-border rounded-md px-2 py-1 text-dark-text-primary" />
+                        <span>%</span>
+                        <button type="button" onClick={approveSmallChanges} disabled={bulkCandidates.length === 0}
+                            className="px-3 py-1 text-xs font-semibold rounded-md bg-green-800 text-green-100 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed">
+                            Approve {bulkCandidates.length}
+                        </button>
+                    </div>
+                </div>
+            )}
+            <div className="flex flex-col md:flex-row md:items-center gap-3 mb-4">
+                <input type="search" value={query.search} onChange={e => updateQuery({ search: e.target.value })} placeholder="Search products..." aria-label="Search products"
+                    className="flex-grow bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm text-dark-text-primary" />
+                <select value={query.filter} onChange={e => updateQuery({ filter: e.target.value as ResultsFilter })} aria-label="Filter products"
+                    className="bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm">
+                    {RESULTS_FILTERS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                </select>
+                {(query.filter === 'increase' || query.filter === 'decrease') && (
+                    <label className="flex items-center space-x-2 text-sm text-dark-text-secondary">
+                        <span>Threshold</span>
+                        <input type="number" min="0" step="0.5" value={query.thresholdPct} onChange={e => updateQuery({ thresholdPct: parseFloat(e.target.value) || 0 })}
+                            className="w-20 bg-slate-900 border border-dark-border rounded-md px-2 py-2 text-sm text-dark-text-primary" />
+                        <span>%</span>
+                    </label>
+                )}
+            </div>
             <div className="overflow-x-auto">
                 <table className="min-w-full text-sm">
                     <thead className="border-b border-dark-border">
                         <tr>
-                            <th className="py-2 px-3 text-left font-semibold text-dark-text-secondary">Product</th>
-                            <th className="py-2 px-3 text-right font-semibold text-dark-text-secondary">Your Price</th>
-                            <th className="py-2 px-3 text-right font-semibold text-dark-text-secondary">Suggested Price</th>
-                            <th className="py-2 px-3 text-right font-semibold text-dark-text-secondary">Change</th>
+                            <SortableHeader label="Product" sortKey="productName" query={query} onSort={handleSort} align="left" />
+                            <SortableHeader label="Your Price" sortKey="currentPrice" query={query} onSort={handleSort} />
+                            <SortableHeader label="Suggested Price" sortKey="suggestedPrice" query={query} onSort={handleSort} />
+                            <SortableHeader label="Change" sortKey="changePct" query={query} onSort={handleSort} />
+                            <SortableHeader label="Margin" sortKey="marginPct" query={query} onSort={handleSort} />
+                            <th className="py-2 px-3 text-right font-semibold text-dark-text-secondary">Rule Price</th>
+                            <th className="py-2 px-3 text-right font-semibold text-dark-text-secondary" title="The AI's own suggestion, before guardrails, minus the rule-based price">AI vs Rule</th>
+                            <th className="py-2 px-3 text-center font-semibold text-dark-text-secondary">Review</th>
                             <th className="py-2 px-3 text-center font-semibold text-dark-text-secondary">Details</th>
                         </tr>
                     </thead>
                     <tbody>
-                        {results.map((item, index) => {
+                        {visible.rows.length === 0 && (
+                            <tr>
+                                <td colSpan={9} className="py-6 text-center text-dark-text-secondary">No products match the search and filter.</td>
+                            </tr>
+                        )}
+                        {visible.rows.map(({ item, index }) => {
                             const change = getPriceChange(item.userProduct.currentPrice, item.suggestedPrice);
                             const isExpanded = expandedRow === index;
+                            const estimatedPrices = countEstimatedPrices(item.competitors);
                             return (
                                 <React.Fragment key={index}>
                                     <tr className="border-b border-dark-border hover:bg-slate-800/50">
-                                        <td className="py-3 px-3 text-white font-medium truncate max-w-xs" title={item.userProduct.productName}>{item.userProduct.productName}</td>
-                                        <td className="py-3 px-3 text-right text-dark-text-secondary">{formatCurrency(item.userProduct.currentPrice)}</td>
-                                        <td className="py-3 px-3 text-right text-brand-primary font-bold">{formatCurrency(item.suggestedPrice)}</td>
+                                        <td className="py-3 px-3 text-white font-medium truncate max-w-xs" title={item.userProduct.productName}>
+                                            {item.validationIssues && item.validationIssues.length > 0 && (
+                                                <span className="text-yellow-400 mr-1" title={`${item.validationIssues.length} data quality warning(s)`}>&#9888;</span>
+                                            )}
+                                            {item.userProduct.productName}
+                                            {estimatedPrices > 0 && (
+                                                <span className="ml-2 text-[10px] font-semibold uppercase text-yellow-300 border border-dashed border-yellow-600 rounded px-1" title={`${estimatedPrices} of ${item.competitors.length} competitor prices are model estimates`}>est.</span>
+                                            )}
+                                        </td>
+                                        <td className="py-3 px-3 text-right text-dark-text-secondary">{formatCurrency(item.userProduct.currentPrice, item.userProduct.currency)}</td>
+                                        <td className="py-3 px-3 text-right text-brand-primary font-bold">
+                                            {item.guardrails?.violations.some(v => v.action === 'clamped') && (
+                                                <span className="text-sky-300 mr-1" title="Adjusted by a pricing guardrail">&#9670;</span>
+                                            )}
+                                            {formatCurrency(item.suggestedPrice, item.userProduct.currency)}
+                                        </td>
                                         <td className={`py-3 px-3 text-right font-medium ${change.class}`}>{change.value.toFixed(1)}%</td>
+                                        <td className="py-3 px-3 text-right text-dark-text-secondary">{formatMargin(item.guardrails)}</td>
+                                        <td className="py-3 px-3 text-right text-dark-text-secondary" title={item.ruleBasedPrice?.explanation}>
+                                            {item.ruleBasedPrice ? formatCurrency(item.ruleBasedPrice.price, item.userProduct.currency) : '—'}
+                                        </td>
+                                        <td className="py-3 px-3 text-right text-dark-text-secondary whitespace-nowrap">{formatDifference(item) || '—'}</td>
+                                        <td className="py-3 px-3 text-center"><ReviewBadge analysis={item} /></td>
                                         <td className="py-3 px-3 text-center">
                                             <button onClick={() => setExpandedRow(isExpanded ? null : index)} className="text-brand-primary hover:text-teal-300">
                                                 {isExpanded ? 'Hide' : 'View'}
@@ -146,10 +467,18 @@ const BatchResultDisplay: React.FC<{ results: AnalysisResult }> = ({ results })
                                     </tr>
                                     {isExpanded && (
                                         <tr className="bg-slate-900/50">
-                                            <td colSpan={5} className="p-4">
+                                            <td colSpan={9} className="p-4">
+                                                {onReview && (
+                                                    <div className="mb-4 pb-4 border-b border-dark-border">
+                                                        <ReviewPanel analysis={item} onChange={review => onReview({ [index]: review })} />
+                                                    </div>
+                                                )}
                                                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                                                     <div>
-                                                        <h4 className="font-semibold text-white mb-2">Reasoning</h4>
+                                                        <div className="flex items-center justify-between mb-2">
+                                                            <h4 className="font-semibold text-white">Reasoning</h4>
+                                                            <WatchButton analysis={item} />
+                                                        </div>
                                                         <p className="text-dark-text-secondary text-sm">{item.reasoning}</p>
                                                         <h4 className="font-semibold text-white mt-4 mb-2">Market Summary</h4>
                                                         <p className="text-dark-text-secondary text-sm">{item.marketSummary}</p>
@@ -162,7 +491,9 @@ const BatchResultDisplay: React.FC<{ results: AnalysisResult }> = ({ results })
                                                                     <span className="truncate pr-2" title={c.productName}>{c.productName}</span>
                                                                     <div className="flex items-center space-x-2 flex-shrink-0">
                                                                         <StockStatusBadge status={c.stockStatus} />
-                                                                        <span className="font-mono text-white">{formatCurrency(c.price)}</span>
+                                                                        <span className={`font-mono ${isEstimated(c, 'price') ? 'text-yellow-200 underline decoration-dashed decoration-yellow-500' : 'text-white'}`} title={c.originalPrice !== undefined ? `Listed at ${formatCurrency(c.originalPrice, c.originalCurrency)}` : undefined}>{formatCurrency(c.price, c.currency || item.userProduct.currency)}</span>
+                                                                        <ProvenanceMark competitor={c} field="price" />
+                                                                        {c.match && <MatchBadge match={c.match} />}
                                                                         <TrendIcon trend={c.priceTrend} />
                                                                     </div>
                                                                 </li>
@@ -170,18 +501,27 @@ const BatchResultDisplay: React.FC<{ results: AnalysisResult }> = ({ results })
                                                         </ul>
                                                     </div>
                                                 </div>
+                                                {item.ruleBasedPrice && (
+                                                    <div className="mt-4 pt-4 border-t border-dark-border">
+                                                        <h4 className="font-semibold text-white mb-2">Rule-Based Price</h4>
+                                                        <RuleComparison analysis={item} />
+                                                    </div>
+                                                )}
+                                                {item.guardrails && (
+                                                    <div className="mt-4 pt-4 border-t border-dark-border">
+                                                        <h4 className="font-semibold text-white mb-2">Pricing Guardrails</h4>
+                                                        <GuardrailSummary analysis={item} />
+                                                    </div>
+                                                )}
+                                                {item.validationIssues && item.validationIssues.length > 0 && (
+                                                    <div className="mt-4">
+                                                        <ValidationIssuesList issues={item.validationIssues} />
+                                                    </div>
+                                                )}
                                                 {item.sources && item.sources.length > 0 && (
                                                     <div className="mt-4 pt-4 border-t border-dark-border">
                                                         <h4 className="font-semibold text-white mb-2">Sources</h4>
-                                                        <ul className="list-disc list-inside space-y-1">
-                                                            {item.sources.map((source, i) => (
-                                                                <li key={i} className="text-sm text-dark-text-secondary truncate">
-                                                                    <a href={source.web.uri} target="_blank" rel="noopener noreferrer" className="text-brand-primary hover:underline" title={source.web.uri}>
-                                                                        {source.web.title || source.web.uri}
-                                                                    </a>
-                                                                </li>
-                                                            ))}
-                                                        </ul>
+                                                        <SourcesList sources={item.sources} />
                                                     </div>
                                                 )}
                                             </td>
@@ -193,18 +533,51 @@ const BatchResultDisplay: React.FC<{ results: AnalysisResult }> = ({ results })
                     </tbody>
                 </table>
             </div>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mt-4 text-sm text-dark-text-secondary">
+                <span>
+                    {rows.length === 0 ? 'No products' : `Showing ${visible.page * pageSize + 1}–${visible.page * pageSize + visible.rows.length} of ${rows.length}`}
+                    {rows.length !== results.length && ` (filtered from ${results.length})`}
+                </span>
+                <div className="flex items-center space-x-2">
+                    <select value={pageSize} onChange={e => { setPageSize(Number(e.target.value)); setPage(0); }} aria-label="Rows per page"
+                        className="bg-slate-900 border border-dark-border rounded-md px-2 py-1">
+                        {PAGE_SIZES.map(size => <option key={size} value={size}>{size} per page</option>)}
+                    </select>
+                    <button type="button" onClick={() => setPage(visible.page - 1)} disabled={visible.page === 0} className="px-3 py-1 rounded-md border border-dark-border hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed">Previous</button>
+                    <span>Page {visible.page + 1} of {visible.pageCount}</span>
+                    <button type="button" onClick={() => setPage(visible.page + 1)} disabled={visible.page >= visible.pageCount - 1} className="px-3 py-1 rounded-md border border-dark-border hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed">Next</button>
+                </div>
+            </div>
         </Card>
     );
 };
 
-export const ResultsDisplay: React.FC<{ result: AnalysisResult }> = ({ result }) => {
+interface ResultsDisplayProps {
+  result: AnalysisResult;
+  failures?: AnalysisFailure[];
+  isPartial?: boolean; // Batch still running or cancelled; always render the table
+  onRerunWithCompetitors?: (competitorUrls: string[]) => void; // Single analysis only; hidden when not given
+  onReview?: ReviewHandler; // Enables accept/reject/override; hidden when not given
+}
+
+export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, failures = [], isPartial = false, onRerunWithCompetitors, onReview }) => {
   return (
       <div className="mt-8 space-y-8 animate-fade-in">
-          {result.length === 1 ? (
-              <SingleResultDisplay analysis={result[0]} />
+          {!isPartial && (
+              <div className="flex justify-end">
+                  <ExportMenu result={result} failures={failures} />
+              </div>
+          )}
+          {failures.length > 0 && <FailuresPanel failures={failures} />}
+          {result.length === 1 && !isPartial ? (
+              <SingleResultDisplay analysis={result[0]} onRerun={onRerunWithCompetitors} onReview={onReview} />
           ) : (
-              <BatchResultDisplay results={result} />
+              <>
+                  {result.length > 0 && <BatchDashboard results={result} />}
+                  <BatchResultDisplay results={result} isPartial={isPartial} onReview={onReview} />
+              </>
           )}
+          {onReview && !isPartial && <RepricingPanel results={result} />}
       </div>
   );
 };
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import type { PriceReview, ProductAnalysis } from '../types';
+import { formatCurrency, formatDateTime } from '../utils/formatters';
+import { parsePrice, getCurrencySettings } from '../services/currencyService';
+import { acceptSuggestion, overrideSuggestion, rejectSuggestion, reviewStatus, REVIEW_LABELS } from '../services/reviewService';
+import type { ReviewStatus } from '../services/reviewService';
+
+export const REVIEW_STATUS_CLASSES: Record<ReviewStatus, string> = {
+  pending: 'bg-slate-700 text-dark-text-secondary',
+  accepted: 'bg-green-800 text-green-200',
+  rejected: 'bg-red-900 text-red-200',
+  overridden: 'bg-sky-900 text-sky-200',
+};
+
+export const ReviewBadge: React.FC<{ analysis: ProductAnalysis }> = ({ analysis }) => {
+  const status = reviewStatus(analysis);
+  return (
+    <span title={analysis.review?.note} className={`px-2 py-0.5 text-xs font-semibold rounded-full whitespace-nowrap ${REVIEW_STATUS_CLASSES[status]}`}>
+      {REVIEW_LABELS[status]}
+    </span>
+  );
+};
+
+// Accept, reject or override one suggestion, with an optional note for the decision log
+export const ReviewPanel: React.FC<{ analysis: ProductAnalysis; onChange: (review: PriceReview | null) => void }> = ({ analysis, onChange }) => {
+  const { review, userProduct } = analysis;
+  const [note, setNote] = useState(review?.note || '');
+  const [overrideText, setOverrideText] = useState(review?.decision === 'overridden' && review.price !== undefined ? String(review.price) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOverride = () => {
+    const parsed = parsePrice(overrideText, getCurrencySettings().locale);
+    try {
+      onChange(overrideSuggestion(analysis, parsed ? parsed.amount : NaN, note));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid price.');
+    }
+  };
+
+  const buttonClass = 'px-3 py-1.5 text-xs font-semibold rounded-md transition-colors';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-dark-text-secondary">
+        <span>Decision:</span>
+        <ReviewBadge analysis={analysis} />
+        {review && (
+          <span className="text-xs">
+            {review.price !== undefined && `${formatCurrency(review.price, userProduct.currency)}, `}{formatDateTime(review.decidedAt)}
+          </span>
+        )}
+      </div>
+      <input type="text" value={note} onChange={e => setNote(e.target.value)} placeholder="Note (optional)" aria-label="Review note"
+        className="w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm text-dark-text-primary" />
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={() => onChange(acceptSuggestion(analysis, note))} className={`${buttonClass} bg-green-800 text-green-100 hover:bg-green-700`}>
+          Accept {formatCurrency(analysis.suggestedPrice, userProduct.currency)}
+        </button>
+        <button type="button" onClick={() => onChange(rejectSuggestion(note))} className={`${buttonClass} bg-red-900 text-red-100 hover:bg-red-800`}>Reject</button>
+        <div className="flex items-center space-x-1">
+          <input type="text" inputMode="decimal" value={overrideText} onChange={e => setOverrideText(e.target.value)} placeholder={userProduct.currency || 'Price'} aria-label="Override price"
+            className="w-24 bg-slate-900 border border-dark-border rounded-md px-2 py-1.5 text-xs text-dark-text-primary" />
+          <button type="button" onClick={handleOverride} disabled={!overrideText.trim()} className={`${buttonClass} bg-sky-900 text-sky-100 hover:bg-sky-800 disabled:opacity-50 disabled:cursor-not-allowed`}>Override</button>
+        </div>
+        {review && (
+          <button type="button" onClick={() => onChange(null)} className={`${buttonClass} text-dark-text-secondary hover:bg-slate-700`}>Reset</button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useMemo, useState } from 'react';
+import { Card } from './common/Card';
+import { compareRuns } from '../services/historyService';
+import type { AnalysisRun } from '../services/historyService';
+import { describeResultSettings } from '../services/promptTemplates';
+import { formatCurrency, formatDateTime } from '../utils/formatters';
+
+const runLabel = (run: AnalysisRun) =>
+  `${formatDateTime(run.createdAt)} · ${run.mode === 'single' ? run.results[0]?.userProduct.productName : `Batch of ${run.results.length}`}`;
+
+const formatDifference = (from: number, to: number) => {
+  const pct = from > 0 ? ((to - from) / from) * 100 : 0;
+  return `${pct > 0 ? '+' : ''}${pct.toFixed(1)}%`;
+};
+
+const RunHeading: React.FC<{ run: AnalysisRun }> = ({ run }) => {
+  const settings = describeResultSettings(run.results);
+  return <span className="block text-xs font-normal text-dark-text-secondary">{settings.length > 0 ? settings.join(' | ') : 'Settings not recorded'}</span>;
+};
+
+// Suggestions of two runs side by side for the products both analyzed, e.g. the same input under two strategies
+export const RunComparison: React.FC<{ runs: AnalysisRun[] }> = ({ runs }) => {
+  const [firstId, setFirstId] = useState(() => runs[1]?.id || '');
+  const [secondId, setSecondId] = useState(() => runs[0]?.id || '');
+  const first = runs.find(run => run.id === firstId);
+  const second = runs.find(run => run.id === secondId);
+  const rows = useMemo(() => (first && second && first !== second ? compareRuns(first, second) : []), [first, second]);
+
+  const selectClass = 'w-full bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm';
+
+  return (
+    <Card>
+      <h2 className="text-xl font-bold text-white mb-4">Compare Runs</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        {[{ value: firstId, onChange: setFirstId, label: 'Run A' }, { value: secondId, onChange: setSecondId, label: 'Run B' }].map(select => (
+          <div key={select.label}>
+            <label className="block text-sm font-medium text-dark-text-secondary mb-1">{select.label}</label>
+            <select value={select.value} onChange={e => select.onChange(e.target.value)} className={selectClass}>
+              <option value="">Select a run...</option>
+              {runs.map(run => <option key={run.id} value={run.id}>{runLabel(run)}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+      {!first || !second || first === second ? (
+        <p className="text-sm text-dark-text-secondary">Select two different runs of the same products, e.g. the same input analyzed with two strategies.</p>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-dark-text-secondary">The two runs have no products in common.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-dark-text-secondary border-b border-dark-border align-bottom">
+                <th className="py-2 pr-3 font-medium">Product</th>
+                <th className="py-2 px-3 font-medium text-right">Current</th>
+                <th className="py-2 px-3 font-medium text-right">Run A<RunHeading run={first} /></th>
+                <th className="py-2 px-3 font-medium text-right">Run B<RunHeading run={second} /></th>
+                <th className="py-2 pl-3 font-medium text-right">B vs. A</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.key} className="border-b border-dark-border/50">
+                  <td className="py-2 pr-3 text-white truncate max-w-[16rem]" title={row.productName}>{row.productName}</td>
+                  <td className="py-2 px-3 text-right text-dark-text-secondary">{formatCurrency(row.currentPrice, row.currency)}</td>
+                  <td className="py-2 px-3 text-right text-white">{formatCurrency(row.first.suggestedPrice, row.currency)}</td>
+                  <td className="py-2 px-3 text-right text-white">{formatCurrency(row.second.suggestedPrice, row.currency)}</td>
+                  <td className="py-2 pl-3 text-right text-dark-text-secondary">{formatDifference(row.first.suggestedPrice, row.second.suggestedPrice)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,24 @@
+import React, { useState } from 'react';
+import { getApiAccessToken, setApiAccessToken } from '../services/apiClient';
+
+// The server's API_ACCESS_TOKEN, kept in this browser and sent with every API request
+export const ServerAccessPanel: React.FC = () => {
+  const [token, setToken] = useState(getApiAccessToken);
+
+  const update = (value: string) => {
+    setToken(value);
+    setApiAccessToken(value);
+  };
+
+  return (
+    <details className="p-4 border border-dark-border rounded-lg bg-slate-900/50">
+      <summary className="cursor-pointer text-sm font-semibold text-white">Server Access</summary>
+      <div className="mt-4 space-y-2">
+        <label className="block text-sm font-medium text-dark-text-secondary mb-1">API access token</label>
+        <input type="password" value={token} onChange={e => update(e.target.value)} autoComplete="off" placeholder="Not needed when the server runs on this machine"
+          className="w-full md:w-1/2 bg-slate-900 border border-dark-border rounded-md px-3 py-2 text-sm text-dark-text-primary" />
+        <p className="text-xs text-dark-text-secondary">Servers set up for remote use only answer requests carrying their <code>API_ACCESS_TOKEN</code>. The token is stored in this browser.</p>
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,25 @@
+import React, { useEffect, useState } from 'react';
+import type { ProductAnalysis } from '../types';
+import { isWatched, watchProduct, unwatchProduct, subscribeToWatchlist } from '../services/watchlistService';
+import { productKey } from '../services/historyService';
+
+export const WatchButton: React.FC<{ analysis: ProductAnalysis, className?: string }> = ({ analysis, className = '' }) => {
+  const [watched, setWatched] = useState(() => isWatched(analysis));
+
+  useEffect(() => subscribeToWatchlist(() => setWatched(isWatched(analysis))), [analysis]);
+
+  const toggle = () => {
+    if (watched) {
+      unwatchProduct(productKey(analysis.userProduct));
+    } else {
+      watchProduct(analysis);
+    }
+  };
+
+  return (
+    <button type="button" onClick={toggle} aria-pressed={watched}
+      className={`px-3 py-1 text-xs font-semibold rounded-md border transition-colors ${watched ? 'border-brand-primary bg-brand-primary/20 text-teal-300' : 'border-dark-border text-dark-text-secondary hover:text-white hover:bg-slate-700'} ${className}`}>
+      {watched ? 'Watching' : 'Watch'}
+    </button>
+  );
+};
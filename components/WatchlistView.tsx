@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from './common/Card';
+import { TrashIcon } from './icons/TrashIcon';
+import {
+  getWatchlist,
+  getAlerts,
+  subscribeToWatchlist,
+  unwatchProduct,
+  updateWatchSettings,
+  checkWatchedProduct,
+  markAlertsRead,
+  clearAlerts,
+} from '../services/watchlistService';
+import { formatCurrency, formatDateTime } from '../utils/formatters';
+
+const INTERVAL_OPTIONS = [15, 30, 60, 180, 360, 720, 1440];
+
+const formatInterval = (minutes: number) => (minutes < 60 ? `${minutes} min` : `${minutes / 60} h`);
+
+export const WatchlistView: React.FC = () => {
+  const [watchlist, setWatchlist] = useState(getWatchlist);
+  const [alerts, setAlerts] = useState(getAlerts);
+  const [checking, setChecking] = useState<string | null>(null);
+
+  useEffect(() => subscribeToWatchlist(() => {
+    setWatchlist(getWatchlist());
+    setAlerts(getAlerts());
+  }), []);
+
+  // Opening the view counts as reading the alerts
+  useEffect(() => {
+    if (getAlerts().some(alert => !alert.read)) markAlertsRead();
+  }, [alerts]);
+
+  const handleCheckNow = async (key: string) => {
+    setChecking(key);
+    await checkWatchedProduct(key);
+    setChecking(null);
+  };
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <h2 className="text-xl font-bold text-white mb-1">Watchlist</h2>
+        <p className="text-sm text-dark-text-secondary mb-4">
+          Watched products are re-analyzed automatically while PredictGenie stays open. Use the Watch button on any result to add one.
+        </p>
+        {watchlist.length === 0 ? (
+          <p className="text-sm text-dark-text-secondary">No products are being watched.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="border-b border-dark-border">
+                <tr>
+                  <th className="py-2 px-3 text-left font-semibold text-dark-text-secondary">Product</th>
+                  <th className="py-2 px-3 text-right font-semibold text-dark-text-secondary">Suggested</th>
+                  <th className="py-2 px-3 text-left font-semibold text-dark-text-secondary">Every</th>
+                  <th className="py-2 px-3 text-left font-semibold text-dark-text-secondary">Alert at</th>
+                  <th className="py-2 px-3 text-left font-semibold text-dark-text-secondary">Last checked</th>
+                  <th className="py-2 px-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {watchlist.map(item => (
+                  <tr key={item.key} className="border-b border-dark-border">
+                    <td className="py-3 px-3 text-white font-medium truncate max-w-xs" title={item.productName}>
+                      {item.productName}
+                      {item.lastError && <p className="text-xs text-red-400 font-normal truncate" title={item.lastError}>{item.lastError}</p>}
+                    </td>
+                    <td className="py-3 px-3 text-right text-brand-primary font-bold">{formatCurrency(item.lastAnalysis.suggestedPrice, item.currency)}</td>
+                    <td className="py-3 px-3">
+                      <select value={item.intervalMinutes} onChange={e => updateWatchSettings(item.key, { intervalMinutes: Number(e.target.value) })} className="bg-slate-900 border border-dark-border rounded-md px-2 py-1 text-sm">
+                        {INTERVAL_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{formatInterval(minutes)}</option>)}
+                      </select>
+                    </td>
+                    <td className="py-3 px-3">
+                      <input type="number" min={0.1} step={0.5} value={item.priceThresholdPct}
+                        onChange={e => {
+                          const value = parseFloat(e.target.value);
+                          if (value > 0) updateWatchSettings(item.key, { priceThresholdPct: value });
+                        }}
+                        className="w-20 bg-slate-900 border border-dark-border rounded-md px-2 py-1 text-sm" /> <span className="text-dark-text-secondary">%</span>
+                    </td>
+                    <td className="py-3 px-3 text-dark-text-secondary">{item.lastCheckedAt ? formatDateTime(item.lastCheckedAt) : 'Never'}</td>
+                    <td className="py-3 px-3 text-right whitespace-nowrap">
+                      <button type="button" onClick={() => handleCheckNow(item.key)} disabled={checking !== null} className="text-brand-primary hover:text-teal-300 disabled:text-slate-500 mr-2">
+                        {checking === item.key ? 'Checking...' : 'Check now'}
+                      </button>
+                      <button type="button" onClick={() => unwatchProduct(item.key)} className="p-1 text-dark-text-secondary hover:text-red-400 transition rounded-md hover:bg-slate-700 align-middle" aria-label="Stop watching"><TrashIcon className="w-4 h-4" /></button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      <Card>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-white">Alerts</h2>
+          {alerts.length > 0 && (
+            <button type="button" onClick={clearAlerts} className="text-sm text-dark-text-secondary hover:text-red-400 transition">Clear alerts</button>
+          )}
+        </div>
+        {alerts.length === 0 ? (
+          <p className="text-sm text-dark-text-secondary">No competitor changes detected yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {alerts.map(alert => (
+              <li key={alert.id} className={`p-3 rounded-md border text-sm ${alert.type === 'outOfStock' ? 'border-red-700 bg-red-900/20' : 'border-yellow-700 bg-yellow-900/20'}`}>
+                <div className="flex justify-between gap-4">
+                  <span className="text-white font-medium">{alert.productName}</span>
+                  <span className="text-xs text-dark-text-secondary flex-shrink-0">{formatDateTime(alert.createdAt)}</span>
+                </div>
+                <p className="text-dark-text-secondary">{alert.message}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+
+export interface BarSeries {
+  label: string;
+  color: string;
+  values: number[]; // One per category
+}
+
+interface BarChartProps {
+  categories: string[];
+  series: BarSeries[]; // Several series are drawn as grouped bars
+  formatY?: (value: number) => string;
+  height?: number;
+}
+
+const WIDTH = 640;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 48 };
+const Y_TICKS = 4;
+const GROUP_GAP = 0.3; // Share of each category's width left empty
+
+export const BarChart: React.FC<BarChartProps> = ({ categories, series, formatY = String, height = 220 }) => {
+  const max = Math.max(0, ...series.flatMap(s => s.values));
+  if (categories.length === 0 || max === 0) {
+    return <p className="text-sm text-dark-text-secondary">No data to chart yet.</p>;
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const groupWidth = plotWidth / categories.length;
+  const barWidth = (groupWidth * (1 - GROUP_GAP)) / series.length;
+  const scaleY = (y: number) => PADDING.top + plotHeight - (y / max) * plotHeight;
+  const yTicks = Array.from({ length: Y_TICKS + 1 }, (_, i) => (max * i) / Y_TICKS);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img">
+        {yTicks.map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={scaleY(tick)} y2={scaleY(tick)} stroke="#334155" strokeWidth={1} />
+            <text x={PADDING.left - 8} y={scaleY(tick)} textAnchor="end" dominantBaseline="middle" fontSize={11} fill="#94a3b8">{formatY(tick)}</text>
+          </g>
+        ))}
+        {categories.map((category, i) => {
+          const groupX = PADDING.left + i * groupWidth + (groupWidth * GROUP_GAP) / 2;
+          return (
+            <g key={category}>
+              {series.map((s, j) => (
+                <rect key={s.label} x={groupX + j * barWidth} y={scaleY(s.values[i] || 0)} width={Math.max(barWidth - 2, 1)}
+                  height={PADDING.top + plotHeight - scaleY(s.values[i] || 0)} fill={s.color} rx={2}>
+                  <title>{`${series.length > 1 ? `${s.label}, ` : ''}${category}: ${formatY(s.values[i] || 0)}`}</title>
+                </rect>
+              ))}
+              <text x={PADDING.left + (i + 0.5) * groupWidth} y={height - 10} textAnchor="middle" fontSize={11} fill="#94a3b8">{category}</text>
+            </g>
+          );
+        })}
+      </svg>
+      {series.length > 1 && (
+        <ul className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-dark-text-secondary">
+          {series.map(s => (
+            <li key={s.label} className="flex items-center space-x-1">
+              <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: s.color }}></span>
+              <span>{s.label}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
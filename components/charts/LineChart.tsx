@@ -0,0 +1,87 @@
+import React from 'react';
+
+export interface LineSeries {
+  label: string;
+  color: string;
+  points: { x: number; y: number }[];
+  dashed?: boolean;
+}
+
+interface LineChartProps {
+  series: LineSeries[];
+  formatX?: (value: number) => string;
+  formatY?: (value: number) => string;
+  height?: number;
+}
+
+const WIDTH = 640;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 64 };
+const Y_TICKS = 4;
+
+export const LineChart: React.FC<LineChartProps> = ({ series, formatX = String, formatY = String, height = 260 }) => {
+  const allPoints = series.flatMap(s => s.points);
+  if (allPoints.length === 0) {
+    return <p className="text-sm text-dark-text-secondary">No data to chart yet.</p>;
+  }
+
+  const xs = allPoints.map(p => p.x);
+  const ys = allPoints.map(p => p.y);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const yPadding = (Math.max(...ys) - Math.min(...ys)) * 0.1 || Math.max(...ys) * 0.1 || 1;
+  const minY = Math.max(0, Math.min(...ys) - yPadding);
+  const maxY = Math.max(...ys) + yPadding;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const scaleX = (x: number) => PADDING.left + (maxX === minX ? plotWidth / 2 : ((x - minX) / (maxX - minX)) * plotWidth);
+  const scaleY = (y: number) => PADDING.top + plotHeight - ((y - minY) / (maxY - minY)) * plotHeight;
+
+  const yTicks = Array.from({ length: Y_TICKS + 1 }, (_, i) => minY + ((maxY - minY) * i) / Y_TICKS);
+  const xTicks = Array.from(new Set<number>(xs)).sort((a, b) => a - b);
+  // Avoid overlapping labels when there are many runs
+  const xLabelStep = Math.ceil(xTicks.length / 6);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img">
+        {yTicks.map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={scaleY(tick)} y2={scaleY(tick)} stroke="#334155" strokeWidth={1} />
+            <text x={PADDING.left - 8} y={scaleY(tick)} textAnchor="end" dominantBaseline="middle" fontSize={11} fill="#94a3b8">{formatY(tick)}</text>
+          </g>
+        ))}
+        {xTicks.map((tick, i) => i % xLabelStep === 0 && (
+          <text key={tick} x={scaleX(tick)} y={height - 10} textAnchor="middle" fontSize={11} fill="#94a3b8">{formatX(tick)}</text>
+        ))}
+        {series.map(s => {
+          const points = [...s.points].sort((a, b) => a.x - b.x);
+          return (
+            <g key={s.label}>
+              <polyline
+                points={points.map(p => `${scaleX(p.x)},${scaleY(p.y)}`).join(' ')}
+                fill="none"
+                stroke={s.color}
+                strokeWidth={2}
+                strokeDasharray={s.dashed ? '6 4' : undefined}
+              />
+              {points.map((p, i) => (
+                <circle key={i} cx={scaleX(p.x)} cy={scaleY(p.y)} r={3} fill={s.color}>
+                  <title>{`${s.label}: ${formatY(p.y)} (${formatX(p.x)})`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+      <ul className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-dark-text-secondary">
+        {series.map(s => (
+          <li key={s.label} className="flex items-center space-x-1">
+            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: s.color }}></span>
+            <span className="truncate max-w-[12rem]" title={s.label}>{s.label}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -1,12 +1,31 @@
+const path = require('node:path')
 const { app, BrowserWindow } = require('electron/main')
 
+// The app calls the PredictGenie server's /api, so the window loads a running server
+// instead of a static deploy: by default the one `npm start` runs in the repository root
+// on this machine. Set PREDICTGENIE_URL to use another server.
+const APP_URL = process.env.PREDICTGENIE_URL || 'http://localhost:8787/'
+
+// Electron reports -3 (ERR_ABORTED) when one navigation replaces another
+const ERR_ABORTED = -3
+
 const createWindow = () => {
   const win = new BrowserWindow({
     width: 1024,
-    height: 768
+    height: 768,
+    webPreferences: {
+      // Keep the watchlist scheduler running while the window is hidden or minimized
+      backgroundThrottling: false
+    }
   })
 
-  win.loadURL('https://productgenie.vercel.app/')
+  // Explain how to start the server rather than leaving the window blank
+  win.webContents.on('did-fail-load', (_event, errorCode, errorDescription, _url, isMainFrame) => {
+    if (!isMainFrame || errorCode === ERR_ABORTED) return
+    win.loadFile(path.join(__dirname, 'index.html'), { query: { url: APP_URL, error: errorDescription } })
+  })
+
+  win.loadURL(APP_URL)
 }
 
 app.whenReady().then(() => {
@@ -23,4 +42,4 @@ app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
     app.quit()
   }
-})
\ No newline at end of file
+})
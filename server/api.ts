@@ -0,0 +1,412 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { AnalysisConfig, CsvProduct, PriceUpdate, ScrapedProduct, SingleProductInput } from '../types';
+import { isCurrencyCode } from '../services/currencyService';
+import { sanitizeConstraints } from '../services/guardrailService';
+import { MAX_COMPETITORS, MAX_IDENTIFIER_LENGTH, MAX_NAME_LENGTH, MAX_URL_LENGTH } from '../services/requestLimits';
+import { ANALYSIS_MODELS, ANALYSIS_STRATEGIES, DEFAULT_ANALYSIS_CONFIG, TEMPERATURE_RANGE, isAnalysisStrategy, templateProblems } from '../services/promptTemplates';
+import { normalizeUrl } from '../utils/url';
+import { createGeminiAnalyzer } from './geminiAnalysis';
+import type { GeminiAnalyzer } from './geminiAnalysis';
+import { createRateLimiter } from './rateLimiter';
+import type { RateLimiterOptions } from './rateLimiter';
+import { scrapeProductPages, mergeScrapedFacts } from './scraper';
+import { runRepricing } from './repricing';
+import type { StoreConnector } from './repricing';
+import { createRestStoreConnector } from './restStoreConnector';
+import type { RestStoreOptions } from './restStoreConnector';
+
+// HTTP API in front of Gemini, so the API key stays on the server:
+//   POST /api/analyze/single  body: SingleProductInput & { settings? } -> { analysis }  (empty competitorUrls: search for them)
+//   POST /api/analyze/batch   body: { products: CsvProduct[], settings? } -> { results }
+//   POST /api/scrape          body: { urls: string[] }         -> { pages: ScrapedProduct[] }
+//   POST /api/reprice         body: { updates: PriceUpdate[], dryRun } -> RepriceReport  (needs X-Reprice-Token)
+//   GET  /api/health                                          -> { ok, gemini, store }
+// Competitor pages are scraped first and their facts override the model's values.
+// POST routes need `Authorization: Bearer <accessToken>` when one is configured; without
+// one they only answer requests from this machine, so the server is never an open proxy.
+// `settings` is an AnalysisConfig (strategy, model, temperature, templates); defaults apply without it.
+// Responses carry the raw model output; the app validates it as before.
+
+export interface ApiOptions {
+  apiKey?: string; // Gemini API key; analysis routes answer 503 without it
+  maxBodyBytes?: number;
+  maxBatchProducts?: number; // Products per batch request; the app sends chunks of 10
+  rateLimit?: RateLimiterOptions; // Per client address
+  trustProxy?: boolean; // Take the client address from X-Forwarded-For
+  accessToken?: string; // Required on every POST route; without it only local clients are served
+  scrapePages?: boolean; // Read competitor pages' structured data before analyzing
+  store?: RestStoreOptions; // Store API that approved prices are pushed to; /api/reprice answers 503 without it
+  repriceToken?: string; // Shared secret every /api/reprice call must send as X-Reprice-Token; the route answers 503 without it
+}
+
+export const DEFAULT_API_OPTIONS = {
+  maxBodyBytes: 256 * 1024,
+  maxBatchProducts: 50,
+  rateLimit: { limit: 60, windowMs: 60 * 1000 },
+  trustProxy: false,
+  scrapePages: true,
+};
+
+const MAX_PRICE_UPDATES = 500;
+
+class HttpError extends Error {
+  status: number;
+  headers: Record<string, string>;
+
+  constructor(status: number, message: string, headers: Record<string, string> = {}) {
+    super(message);
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+// Compares digests so the time taken doesn't reveal how much of the secret matched
+const secretMatches = (provided: unknown, secret: string): boolean =>
+  typeof provided === 'string' && timingSafeEqual(createHash('sha256').update(provided).digest(), createHash('sha256').update(secret).digest());
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<unknown> => new Promise((resolve, reject) => {
+  if (!(req.headers['content-type'] || '').includes('application/json')) {
+    return reject(new HttpError(415, 'Requests must be sent as application/json.'));
+  }
+  if (Number(req.headers['content-length'] || 0) > maxBytes) {
+    return reject(new HttpError(413, `Request body exceeds the limit of ${maxBytes} bytes.`));
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let tooLarge = false;
+  req.on('data', (chunk: Buffer) => {
+    if (tooLarge) return; // Keep draining so the 413 response can still be sent
+    size += chunk.length;
+    if (size > maxBytes) {
+      tooLarge = true;
+      chunks.length = 0;
+      reject(new HttpError(413, `Request body exceeds the limit of ${maxBytes} bytes.`));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (tooLarge) return;
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+    } catch {
+      reject(new HttpError(400, 'Request body is not valid JSON.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readString = (value: unknown, field: string, maxLength: number, required: boolean): string => {
+  if (value === undefined && !required) return '';
+  if (typeof value !== 'string' || value.length > maxLength || (required && value.trim() === '')) {
+    throw new HttpError(400, `${field} must be a ${required ? 'non-empty ' : ''}string of at most ${maxLength} characters.`);
+  }
+  return value.trim();
+};
+
+const readCompetitorUrls = (value: unknown, field: string): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_COMPETITORS) {
+    throw new HttpError(400, `${field} must be an array of at most ${MAX_COMPETITORS} URLs.`);
+  }
+  return value.map((url, i) => readString(url, `${field}[${i}]`, MAX_URL_LENGTH, true));
+};
+
+const readCurrency = (value: unknown, field: string): string | undefined => {
+  if (value === undefined || value === '') return undefined;
+  if (!isCurrencyCode(value)) throw new HttpError(400, `${field} must be an ISO 4217 currency code.`);
+  return value.trim().toUpperCase();
+};
+
+// Rebuilds the input from known fields only, so nothing unexpected reaches the prompt
+const parseSingleInput = (body: unknown): SingleProductInput => {
+  if (!isRecord(body)) throw new HttpError(400, 'Request body must be a JSON object.');
+  const input: SingleProductInput = {
+    userProductUrl: readString(body.userProductUrl, 'userProductUrl', MAX_URL_LENGTH, true),
+    competitorUrls: readCompetitorUrls(body.competitorUrls, 'competitorUrls'),
+  };
+  const currency = readCurrency(body.currency, 'currency');
+  if (currency) input.currency = currency;
+  const constraints = sanitizeConstraints(body.constraints);
+  if (constraints) input.constraints = constraints;
+  if (body.findCompetitors !== undefined && typeof body.findCompetitors !== 'boolean') {
+    throw new HttpError(400, 'findCompetitors must be a boolean.');
+  }
+  if (body.findCompetitors) input.findCompetitors = true;
+  return input;
+};
+
+// Only allowlisted models, and templates that pass the same checks as in the app
+const parseAnalysisConfig = (value: unknown): AnalysisConfig => {
+  if (value === undefined) return { ...DEFAULT_ANALYSIS_CONFIG };
+  if (!isRecord(value)) throw new HttpError(400, 'settings must be an object.');
+  const config: AnalysisConfig = { ...DEFAULT_ANALYSIS_CONFIG };
+  if (value.strategy !== undefined) {
+    if (!isAnalysisStrategy(value.strategy)) {
+      throw new HttpError(400, `settings.strategy must be one of ${ANALYSIS_STRATEGIES.map(s => s.id).join(', ')}.`);
+    }
+    config.strategy = value.strategy;
+  }
+  if (value.model !== undefined) {
+    if (typeof value.model !== 'string' || !ANALYSIS_MODELS.includes(value.model)) {
+      throw new HttpError(400, `settings.model must be one of ${ANALYSIS_MODELS.join(', ')}.`);
+    }
+    config.model = value.model;
+  }
+  if (value.temperature !== undefined) {
+    const { temperature } = value;
+    if (typeof temperature !== 'number' || !Number.isFinite(temperature) || temperature < TEMPERATURE_RANGE.min || temperature > TEMPERATURE_RANGE.max) {
+      throw new HttpError(400, `settings.temperature must be a number from ${TEMPERATURE_RANGE.min} to ${TEMPERATURE_RANGE.max}.`);
+    }
+    config.temperature = temperature;
+  }
+  // Free prompt text: only reachable by callers that passed authorize(), so strangers can't use the server's Gemini key
+  if (value.templates !== undefined) {
+    const { templates } = value;
+    if (!isRecord(templates) || typeof templates.single !== 'string' || typeof templates.batch !== 'string') {
+      throw new HttpError(400, 'settings.templates must contain "single" and "batch" strings.');
+    }
+    const problems = templateProblems({ single: templates.single, batch: templates.batch });
+    if (problems.length > 0) throw new HttpError(400, problems.join(' '));
+    config.templates = { single: templates.single, batch: templates.batch };
+  }
+  return config;
+};
+
+const parseBatchInput = (body: unknown, maxProducts: number): CsvProduct[] => {
+  if (!isRecord(body) || !Array.isArray(body.products) || body.products.length === 0) {
+    throw new HttpError(400, 'Request body must contain a non-empty "products" array.');
+  }
+  if (body.products.length > maxProducts) {
+    throw new HttpError(413, `A batch request may contain at most ${maxProducts} products.`);
+  }
+  return body.products.map((raw, i) => {
+    const field = `products[${i}]`;
+    if (!isRecord(raw)) throw new HttpError(400, `${field} must be an object.`);
+    if (typeof raw.currentPrice !== 'number' || !Number.isFinite(raw.currentPrice) || raw.currentPrice <= 0) {
+      throw new HttpError(400, `${field}.currentPrice must be a positive number.`);
+    }
+    const product: CsvProduct = {
+      productName: readString(raw.productName, `${field}.productName`, MAX_NAME_LENGTH, true),
+      currentPrice: raw.currentPrice,
+      userProductUrl: readString(raw.userProductUrl, `${field}.userProductUrl`, MAX_URL_LENGTH, false),
+      competitorUrls: readCompetitorUrls(raw.competitorUrls, `${field}.competitorUrls`),
+    };
+    const currency = readCurrency(raw.currency, `${field}.currency`);
+    if (currency) product.currency = currency;
+    (['sku', 'gtin', 'mpn'] as const).forEach(key => {
+      const value = readString(raw[key], `${field}.${key}`, MAX_IDENTIFIER_LENGTH, false);
+      if (value) product[key] = value;
+    });
+    const constraints = sanitizeConstraints(raw.constraints);
+    if (constraints) product.constraints = constraints;
+    return product;
+  });
+};
+
+const parseScrapeInput = (body: unknown): string[] => {
+  if (!isRecord(body) || !Array.isArray(body.urls) || body.urls.length === 0) {
+    throw new HttpError(400, 'Request body must contain a non-empty "urls" array.');
+  }
+  return readCompetitorUrls(body.urls, 'urls');
+};
+
+// Competitor URLs in model output that were not scraped before the call
+const discoveredUrls = (raw: unknown, scraped: ScrapedProduct[]): string[] => {
+  if (!isRecord(raw) || !Array.isArray(raw.competitors)) return [];
+  const known = new Set(scraped.map(page => normalizeUrl(page.url)));
+  return raw.competitors
+    .map(item => (isRecord(item) && typeof item.url === 'string' ? item.url : ''))
+    .filter(url => url && !known.has(normalizeUrl(url)))
+    .slice(0, MAX_COMPETITORS);
+};
+
+const parseRepriceInput = (body: unknown): { updates: PriceUpdate[]; dryRun: boolean } => {
+  if (!isRecord(body) || !Array.isArray(body.updates) || body.updates.length === 0) {
+    throw new HttpError(400, 'Request body must contain a non-empty "updates" array.');
+  }
+  if (body.updates.length > MAX_PRICE_UPDATES) {
+    throw new HttpError(413, `A reprice request may contain at most ${MAX_PRICE_UPDATES} updates.`);
+  }
+  if (typeof body.dryRun !== 'boolean') throw new HttpError(400, 'dryRun must be a boolean.');
+  const updates = body.updates.map((raw, i) => {
+    const field = `updates[${i}]`;
+    if (!isRecord(raw)) throw new HttpError(400, `${field} must be an object.`);
+    if (typeof raw.newPrice !== 'number' || !Number.isFinite(raw.newPrice) || raw.newPrice <= 0) {
+      throw new HttpError(400, `${field}.newPrice must be a positive number.`);
+    }
+    const update: PriceUpdate = { newPrice: raw.newPrice };
+    const sku = readString(raw.sku, `${field}.sku`, MAX_NAME_LENGTH, false);
+    const productUrl = readString(raw.productUrl, `${field}.productUrl`, MAX_URL_LENGTH, false);
+    if (!sku && !productUrl) throw new HttpError(400, `${field} needs a sku or a productUrl.`);
+    if (sku) update.sku = sku;
+    if (productUrl) update.productUrl = productUrl;
+    const productName = readString(raw.productName, `${field}.productName`, MAX_NAME_LENGTH, false);
+    if (productName) update.productName = productName;
+    const currency = readCurrency(raw.currency, `${field}.currency`);
+    if (currency) update.currency = currency;
+    const constraints = sanitizeConstraints(raw.constraints);
+    if (constraints) update.constraints = constraints;
+    return update;
+  });
+  return { updates, dryRun: body.dryRun };
+};
+
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+// Direct connections from this machine only; anything forwarded by a proxy counts as remote
+const isLocalRequest = (req: IncomingMessage, trustProxy: boolean): boolean =>
+  !trustProxy && !req.headers['x-forwarded-for'] && LOOPBACK_ADDRESSES.includes(req.socket.remoteAddress || '');
+
+const bearerToken = (req: IncomingMessage): string | undefined => {
+  const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+};
+
+// Behind a proxy the client is the rightmost X-Forwarded-For entry, the one the proxy appended;
+// entries to its left come from the client and can be anything
+const clientAddress = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') {
+    const proxied = forwarded.split(',').map(entry => entry.trim()).filter(Boolean).pop();
+    if (proxied) return proxied;
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+/**
+ * Creates a Node/Connect-style request handler for the analysis API. Requests outside
+ * /api/ are passed to `next` (or answered with 404 when there is none), so the handler
+ * can be mounted in the Vite dev server as well as in the standalone server.
+ */
+export const createApiHandler = (options: ApiOptions = {}) => {
+  const { apiKey, maxBodyBytes, maxBatchProducts, rateLimit, trustProxy, accessToken, scrapePages, store, repriceToken } = { ...DEFAULT_API_OPTIONS, ...options };
+  const limiter = createRateLimiter(rateLimit);
+  let analyzer: GeminiAnalyzer | null = null;
+  const connector: StoreConnector | null = store?.baseUrl ? createRestStoreConnector(store) : null;
+
+  const authorize = (req: IncomingMessage) => {
+    if (accessToken) {
+      if (!secretMatches(bearerToken(req), accessToken)) {
+        throw new HttpError(401, 'Missing or wrong API access token.', { 'WWW-Authenticate': 'Bearer' });
+      }
+    } else if (!isLocalRequest(req, trustProxy)) {
+      throw new HttpError(403, 'This server only answers requests from its own machine. Set API_ACCESS_TOKEN on the server to allow other clients.');
+    }
+  };
+
+  // Pushing prices is off unless the server has its own secret for it, checked on every call
+  const getConnector = (req: IncomingMessage): StoreConnector => {
+    if (!connector) {
+      throw new HttpError(503, 'No store API is configured. Set STORE_API_URL on the server.');
+    }
+    if (!repriceToken) {
+      throw new HttpError(503, 'Pushing prices is disabled. Set REPRICE_TOKEN on the server to enable it.');
+    }
+    if (!secretMatches(req.headers['x-reprice-token'], repriceToken)) {
+      throw new HttpError(401, 'Missing or wrong store push secret.');
+    }
+    return connector;
+  };
+
+  const getAnalyzer = (): GeminiAnalyzer => {
+    if (!apiKey) {
+      throw new HttpError(503, 'The analysis server has no GEMINI_API_KEY configured.');
+    }
+    analyzer = analyzer || createGeminiAnalyzer(apiKey);
+    return analyzer;
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse, path: string) => {
+    if (path === '/api/health') {
+      if (req.method !== 'GET') throw new HttpError(405, 'Method not allowed.', { Allow: 'GET' });
+      return sendJson(res, 200, { ok: true, gemini: Boolean(apiKey), store: (repriceToken && connector?.label) || null });
+    }
+    if (!['/api/analyze/single', '/api/analyze/batch', '/api/scrape', '/api/reprice'].includes(path)) {
+      throw new HttpError(404, `Unknown API route ${path}.`);
+    }
+    if (req.method !== 'POST') throw new HttpError(405, 'Method not allowed.', { Allow: 'POST' });
+
+    const decision = limiter.consume(clientAddress(req, trustProxy));
+    const limitHeaders = { 'X-RateLimit-Limit': String(rateLimit.limit), 'X-RateLimit-Remaining': String(decision.remaining) };
+    if (!decision.allowed) {
+      throw new HttpError(429, 'Too many analysis requests. Please wait a moment and try again.', {
+        ...limitHeaders,
+        'Retry-After': String(Math.ceil(decision.retryAfterMs / 1000)),
+      });
+    }
+
+    authorize(req);
+    const body = await readJsonBody(req, maxBodyBytes);
+    // Stop the model call when the browser cancels or goes away
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    const { signal } = controller;
+    try {
+      if (path === '/api/scrape') {
+        const pages = await scrapeProductPages(parseScrapeInput(body), signal);
+        return sendJson(res, 200, { pages }, limitHeaders);
+      }
+      if (path === '/api/reprice') {
+        const target = getConnector(req);
+        const { updates, dryRun } = parseRepriceInput(body);
+        const results = await runRepricing(target, updates, { dryRun, signal });
+        return sendJson(res, 200, { connector: target.label, dryRun, results }, limitHeaders);
+      }
+      if (path === '/api/analyze/single') {
+        const input = parseSingleInput(body);
+        const config = parseAnalysisConfig(isRecord(body) ? body.settings : undefined);
+        const analyzer = getAnalyzer();
+        let facts = scrapePages ? await scrapeProductPages([input.userProductUrl, ...input.competitorUrls], signal) : [];
+        const raw = await analyzer.analyzeSingleProduct(input, facts, config, signal);
+        if (scrapePages) {
+          // Competitors found by search are only known now; read their pages too
+          facts = facts.concat(await scrapeProductPages(discoveredUrls(raw, facts), signal));
+        }
+        const analysis = mergeScrapedFacts(raw, facts, { userProduct: { url: input.userProductUrl, currency: input.currency }, addMissing: true });
+        return sendJson(res, 200, { analysis }, limitHeaders);
+      }
+      const products = parseBatchInput(body, maxBatchProducts);
+      const config = parseAnalysisConfig(isRecord(body) ? body.settings : undefined);
+      const analyzer = getAnalyzer();
+      // Only competitor pages: the user's own price comes from their file
+      const facts = scrapePages ? await scrapeProductPages(products.flatMap(p => p.competitorUrls), signal) : [];
+      const raw = await analyzer.analyzeBatchProducts(products, facts, config, signal);
+      const results = raw.map(item => mergeScrapedFacts(item, facts));
+      return sendJson(res, 200, { results }, limitHeaders);
+    } catch (error) {
+      if (error instanceof HttpError) throw error;
+      throw new HttpError(502, error instanceof Error ? error.message : 'The analysis failed.', limitHeaders);
+    }
+  };
+
+  return (req: IncomingMessage, res: ServerResponse, next?: () => void) => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    if (!path.startsWith('/api/')) {
+      if (next) return next();
+      return sendJson(res, 404, { error: 'Not found.' });
+    }
+    route(req, res, path).catch(error => {
+      if (res.headersSent || res.destroyed) return;
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message }, error.headers);
+      } else {
+        console.error('Unhandled API error:', error);
+        sendJson(res, 500, { error: 'Internal server error.' });
+      }
+    });
+  };
+};
@@ -0,0 +1,152 @@
+
+import { GoogleGenAI } from "@google/genai";
+import type { ProductAnalysis, AnalysisResult, AnalysisConfig, CsvProduct, SingleProductInput, ScrapedProduct } from '../types';
+import { describeConstraints } from '../services/guardrailService';
+import { BUILTIN_TEMPLATES, renderTemplate, strategyInstruction } from '../services/promptTemplates';
+import { describeScrapedFacts } from './scraper';
+import { attributeGrounding } from './provenance';
+import type { Grounding } from './provenance';
+
+// Server-side Gemini calls. This module holds the API key and must never be
+// imported by the browser bundle; the app reaches it through server/api.ts.
+// `facts` are pages read by the scraper; the model is told to use them as given.
+// `config` picks the model, temperature, strategy and prompt templates.
+
+export interface GeminiAnalyzer {
+  analyzeSingleProduct: (input: SingleProductInput, facts: ScrapedProduct[], config: AnalysisConfig, signal?: AbortSignal) => Promise<ProductAnalysis>;
+  analyzeBatchProducts: (products: CsvProduct[], facts: ScrapedProduct[], config: AnalysisConfig, signal?: AbortSignal) => Promise<AnalysisResult>;
+}
+
+// Shared by both prompts: listings of a different item must not drive the price
+const SAME_ITEM_RULE = 'Competitors must sell exactly the same item. Do not base the price on bundles, multipacks, other variants (size, colour, capacity, model year), refurbished or used units, or accessories; if such a listing is included, say so in the reasoning. Where a page shows a GTIN (EAN/UPC), MPN or SKU, report it.';
+
+const describeIdentifiers = (product: CsvProduct): string =>
+  (['sku', 'gtin', 'mpn'] as const).filter(key => product[key]).map(key => `, ${key.toUpperCase()}: ${product[key]}`).join('');
+
+// Prompt section listing scraped facts, or nothing when no page could be read
+const factsSection = (facts: ScrapedProduct[]): string => {
+  const lines = describeScrapedFacts(facts);
+  return lines
+    ? `Verified facts read from the pages' structured data. Use these names, prices, currencies and stock statuses exactly as given:\n${lines}\n`
+    : '';
+};
+
+// Appended to the rendered templates rather than part of them, so edited templates still produce parseable output
+const singleOutputFormat = (currency: string) => `
+Return ONLY a single JSON object inside a \`\`\`json ... \`\`\` markdown block, containing:
+userProduct (object with url, productName, currentPrice, currency, and sku, gtin and mpn when known), competitors (array of objects with url, productName, price, currency, stockStatus ("In Stock", "Low Stock" or "Out of Stock"), priceTrend ("up", "down" or "stable"), and sku, gtin and mpn when shown), suggestedPrice (number, in ${currency}), reasoning (string) and marketSummary (string).`;
+
+const batchOutputFormat = (count: number) => `
+Return ONLY a single JSON object inside a \`\`\`json ... \`\`\` markdown block.
+The JSON object must contain a 'results' key. The value of 'results' must be an array of exactly ${count} analysis objects, one for each product in the input batch, in the same order as the input.
+Each analysis object must contain: userProduct (object with productName, currentPrice, currency), competitors (array of objects with url, productName, price, currency, stockStatus, priceTrend, and sku, gtin and mpn when shown), suggestedPrice (number, in the product's own currency), reasoning (string), and marketSummary (string).`;
+
+// Search results can't be combined with a response schema, so the JSON comes back in a markdown block
+const parseJsonBlock = (text: string | undefined): unknown => {
+  let jsonText = (text || '').trim();
+  const jsonMatch = jsonText.match(/```json\n?([\s\S]*?)\n?```/);
+  if (jsonMatch && jsonMatch[1]) {
+    jsonText = jsonMatch[1];
+  }
+  if (!jsonText) {
+    throw new Error("Received an empty response from the AI. The model might be unable to process the request with the given inputs.");
+  }
+  return JSON.parse(jsonText);
+};
+
+type GroundedResponse = Awaited<ReturnType<GoogleGenAI['models']['generateContent']>>;
+
+const grounding = (response: GroundedResponse): Grounding => {
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  return { chunks: metadata?.groundingChunks || [], supports: metadata?.groundingSupports || [] };
+};
+
+const analyzeSingleProduct = async (ai: GoogleGenAI, { userProductUrl, competitorUrls, currency = 'USD', constraints, findCompetitors }: SingleProductInput, facts: ScrapedProduct[], config: AnalysisConfig, signal?: AbortSignal): Promise<ProductAnalysis> => {
+  const discover = findCompetitors || competitorUrls.length === 0;
+  const prompt = renderTemplate(config.templates?.single || BUILTIN_TEMPLATES.single, {
+    strategy: strategyInstruction(config.strategy),
+    currency,
+    userProductUrl,
+    competitors: competitorUrls.length > 0
+      ? `Competitor URLs:\n${competitorUrls.map(url => `- ${url}`).join('\n')}`
+      : 'No competitor URLs were given.',
+    discoverInstruction: discover
+      ? '\nYou MUST also use your web search tool to find 2-3 other top online retailers selling the same product and include them as competitors, each with the URL of its product page.\n'
+      : '',
+    constraints: constraints ? ` It must respect these pricing constraints: ${describeConstraints(constraints)}.` : '',
+    facts: factsSection(facts),
+    sameItemRule: SAME_ITEM_RULE,
+  }) + singleOutputFormat(currency);
+
+  try {
+    const response = await ai.models.generateContent({
+      model: config.model,
+      contents: prompt,
+      config: {
+        tools: [{ googleSearch: {} }], // Enable web search
+        temperature: config.temperature,
+        abortSignal: signal,
+      },
+    });
+
+    // Shape is checked by the validation layer in analysisService
+    return attributeGrounding(parseJsonBlock(response.text), grounding(response), new Date().toISOString()) as ProductAnalysis;
+  } catch (error) {
+    console.error("Error calling Gemini API for single product:", error);
+    if (error instanceof Error) {
+        throw new Error(`Failed to get analysis from PredictGenie. Reason: ${error.message}`);
+    }
+    throw new Error("An unknown error occurred while analyzing prices.");
+  }
+};
+
+
+const analyzeBatchProducts = async (ai: GoogleGenAI, products: CsvProduct[], facts: ScrapedProduct[], config: AnalysisConfig, signal?: AbortSignal): Promise<AnalysisResult> => {
+    const productDataString = products.map(p => 
+        `- Product: "${p.productName}", Price: ${p.currentPrice} ${p.currency || 'USD'}, URL: ${p.userProductUrl || 'N/A'}${describeIdentifiers(p)}, Competitors: [${p.competitorUrls.join(', ')}]${p.constraints ? `, Constraints: ${describeConstraints(p.constraints)}` : ''}`
+    ).join('\n');
+
+    const prompt = renderTemplate(config.templates?.batch || BUILTIN_TEMPLATES.batch, {
+      strategy: strategyInstruction(config.strategy),
+      products: productDataString,
+      facts: factsSection(facts),
+      sameItemRule: SAME_ITEM_RULE,
+    }) + batchOutputFormat(products.length);
+
+  try {
+    const response = await ai.models.generateContent({
+      model: config.model,
+      contents: prompt,
+      config: {
+        tools: [{ googleSearch: {} }], // Enable web search
+        temperature: config.temperature,
+        abortSignal: signal,
+      },
+    });
+
+    const searchGrounding = grounding(response);
+    const parsedResult = parseJsonBlock(response.text) as { results?: unknown };
+
+    if (!parsedResult.results || !Array.isArray(parsedResult.results)) {
+        throw new Error("API response is missing the 'results' array or it is not in the correct format.");
+    }
+
+    // Each item gets the search results for its own competitors, with grounded values marked
+    const groundedAt = new Date().toISOString();
+    return parsedResult.results.map((item: unknown) => attributeGrounding(item, searchGrounding, groundedAt)) as AnalysisResult;
+  } catch (error) {
+    console.error("Error calling Gemini API for batch analysis:", error);
+    if (error instanceof Error) {
+        throw new Error(`Failed to get batch analysis from PredictGenie. Reason: ${error.message}`);
+    }
+    throw new Error("An unknown error occurred while analyzing the batch of products.");
+  }
+};
+
+export const createGeminiAnalyzer = (apiKey: string): GeminiAnalyzer => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    analyzeSingleProduct: (input, facts, config, signal) => analyzeSingleProduct(ai, input, facts, config, signal),
+    analyzeBatchProducts: (products, facts, config, signal) => analyzeBatchProducts(ai, products, facts, config, signal),
+  };
+};
@@ -0,0 +1,107 @@
+import { createServer } from 'node:http';
+import type { ServerResponse } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { createApiHandler, DEFAULT_API_OPTIONS } from './api';
+import { createMockStore } from './mockStore';
+
+// Standalone production server: the analysis API plus the built app from dist/.
+// Build with `npm run build && npm run build:server`, then start with `npm start`.
+//
+// Environment:
+//   GEMINI_API_KEY         required for analysis
+//   PORT, HOST             defaults 8787 and 0.0.0.0
+//   RATE_LIMIT_PER_MINUTE  analysis requests per client per minute (default 60)
+//   TRUST_PROXY=1          behind a reverse proxy, rate limit by X-Forwarded-For
+//   API_ACCESS_TOKEN       bearer token clients must send; without it the API only answers this machine
+//   STATIC_DIR             built app to serve (default ./dist)
+//   SCRAPE_PAGES=0         don't read competitor pages before analyzing
+//   STORE_API_URL          store API that approved prices are pushed to (see restStoreConnector.ts)
+//   STORE_API_TOKEN        bearer token for that API
+//   REPRICE_TOKEN          secret the app must send to push prices; pushing is disabled without it
+//   MOCK_STORE=1           serve an in-memory test store under /mock-store
+
+const port = Number(process.env.PORT) || 8787;
+const host = process.env.HOST || '0.0.0.0';
+const staticDir = path.resolve(process.env.STATIC_DIR || 'dist');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+};
+
+const apiHandler = createApiHandler({
+  apiKey: process.env.GEMINI_API_KEY,
+  rateLimit: {
+    ...DEFAULT_API_OPTIONS.rateLimit,
+    limit: Number(process.env.RATE_LIMIT_PER_MINUTE) || DEFAULT_API_OPTIONS.rateLimit.limit,
+  },
+  trustProxy: process.env.TRUST_PROXY === '1',
+  accessToken: process.env.API_ACCESS_TOKEN,
+  scrapePages: process.env.SCRAPE_PAGES !== '0',
+  store: process.env.STORE_API_URL ? { baseUrl: process.env.STORE_API_URL, token: process.env.STORE_API_TOKEN } : undefined,
+  repriceToken: process.env.REPRICE_TOKEN,
+});
+
+const mockStore = process.env.MOCK_STORE === '1' ? createMockStore({ token: process.env.STORE_API_TOKEN }) : null;
+
+const sendFile = async (res: ServerResponse, filePath: string) => {
+  const body = await readFile(filePath);
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(filePath)] || 'application/octet-stream' });
+  res.end(body);
+};
+
+// Serves files from the build output; unknown paths get index.html so client-side views work
+const serveStatic = async (url: string, res: ServerResponse) => {
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(new URL(url, 'http://localhost').pathname);
+  } catch {
+    // Malformed percent-encoding such as "/%E0%A4%A" is the client's mistake, not ours
+    res.writeHead(400).end();
+    return;
+  }
+  const requested = path.resolve(staticDir, `.${pathname}`);
+  const relative = path.relative(staticDir, requested);
+  // A plain prefix check would also let "/../dist-server/..." reach sibling directories
+  if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    res.writeHead(403).end();
+    return;
+  }
+  try {
+    if ((await stat(requested)).isFile()) return await sendFile(res, requested);
+  } catch {
+    // Fall through to the app shell
+  }
+  try {
+    await sendFile(res, path.join(staticDir, 'index.html'));
+  } catch {
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end('App not built. Run `npm run build` first.');
+  }
+};
+
+const server = createServer((req, res) => {
+  const serveApp = () => {
+    serveStatic(req.url || '/', res).catch(error => {
+      console.error('Could not serve static file:', error);
+      if (!res.headersSent) res.writeHead(500).end();
+    });
+  };
+  apiHandler(req, res, () => (mockStore ? mockStore(req, res, serveApp) : serveApp()));
+});
+
+server.listen(port, host, () => {
+  console.log(`PredictGenie server listening on http://${host === '0.0.0.0' ? 'localhost' : host}:${port}`);
+  if (!process.env.GEMINI_API_KEY) {
+    console.warn('GEMINI_API_KEY is not set; analysis requests will fail with 503.');
+  }
+  if (!process.env.API_ACCESS_TOKEN) {
+    console.warn('API_ACCESS_TOKEN is not set; the API only answers requests from this machine.');
+  }
+});
@@ -0,0 +1,99 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { normalizeUrl } from '../utils/url';
+import type { StorePriceChange, StorePriceChangeResult, StoreProduct } from './repricing';
+
+// An in-memory store speaking the protocol of restStoreConnector.ts, for trying repricing
+// without a real shop. Mounted under /mock-store by the dev server and, with MOCK_STORE=1,
+// by server/main.ts. Locked products reject price changes, to show per-item failures.
+
+export interface MockStoreProduct extends StoreProduct {
+  title: string;
+  locked?: boolean;
+}
+
+export interface MockStoreOptions {
+  prefix?: string; // Path the store is mounted under
+  token?: string; // Require this bearer token
+  products?: MockStoreProduct[];
+}
+
+// Matches the examples in the input form and the sample CSV
+export const MOCK_STORE_PRODUCTS: MockStoreProduct[] = [
+  { id: '1001', sku: 'CAM-X1', url: 'https://www.example-store.com/products/pro-camera-x1', title: 'Pro Camera X1', price: 499.99, currency: 'USD' },
+  { id: '1002', sku: 'CAM-X1-STAND', url: 'https://yourstore.com/pro-camera', title: 'Pro Camera X1, with stand', price: 499.99, currency: 'USD' },
+  { id: '1003', sku: 'HP-Z', url: 'https://yourstore.com/headphones-z', title: 'Wireless Headphones Z', price: 149, currency: 'USD' },
+  { id: '1004', sku: 'LAMP-01', url: 'https://yourstore.com/desk-lamp', title: 'Desk Lamp', price: 39.5, currency: 'USD', locked: true },
+];
+
+const MAX_BODY_BYTES = 256 * 1024;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+  let body = '';
+  req.setEncoding('utf-8');
+  req.on('data', (chunk: string) => {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) req.destroy(new Error('Request body is too large.'));
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(body || 'null'));
+    } catch {
+      reject(new Error('Request body is not valid JSON.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const publicProduct = ({ locked: _locked, ...product }: MockStoreProduct) => product;
+
+/** Creates a Connect-style handler; requests outside `prefix` go to `next`. */
+export const createMockStore = ({ prefix = '/mock-store', token, products = MOCK_STORE_PRODUCTS }: MockStoreOptions = {}) => {
+  const catalogue = new Map(products.map(product => [product.id, { ...product }]));
+
+  const changePrice = ({ productId, price }: StorePriceChange): StorePriceChangeResult => {
+    const product = catalogue.get(String(productId));
+    if (!product) return { productId, ok: false, message: 'Unknown product.' };
+    if (product.locked) return { productId, ok: false, message: 'The price of this product is locked.' };
+    if (typeof price !== 'number' || !Number.isFinite(price) || price <= 0) return { productId, ok: false, message: 'Price must be a positive number.' };
+    product.price = Math.round(price * 100) / 100;
+    return { productId, ok: true };
+  };
+
+  const handler = async (req: IncomingMessage, res: ServerResponse, next?: () => void) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== prefix && !url.pathname.startsWith(`${prefix}/`)) {
+      if (next) return next();
+      return sendJson(res, 404, { error: 'Not found.' });
+    }
+    if (token && req.headers.authorization !== `Bearer ${token}`) {
+      return sendJson(res, 401, { error: 'Missing or invalid API token.' });
+    }
+
+    const path = url.pathname.slice(prefix.length) || '/';
+    if (path === '/products' && req.method === 'GET') {
+      const sku = url.searchParams.get('sku');
+      const productUrl = url.searchParams.get('url');
+      const matches = Array.from(catalogue.values()).filter(product =>
+        (!sku || product.sku === sku) && (!productUrl || (product.url && normalizeUrl(product.url) === normalizeUrl(productUrl))));
+      return sendJson(res, 200, { products: matches.map(publicProduct) });
+    }
+    if (path === '/prices/batch' && req.method === 'POST') {
+      try {
+        const body = await readBody(req);
+        const changes = (body as { changes?: unknown } | null)?.changes;
+        if (!Array.isArray(changes)) return sendJson(res, 400, { error: 'Request body must contain a "changes" array.' });
+        return sendJson(res, 200, { results: (changes as StorePriceChange[]).map(changePrice) });
+      } catch (error) {
+        return sendJson(res, 400, { error: error instanceof Error ? error.message : 'Invalid request.' });
+      }
+    }
+    sendJson(res, 404, { error: `Unknown mock store route ${req.method} ${path}.` });
+  };
+
+  return handler;
+};
@@ -0,0 +1,147 @@
+import http from 'node:http';
+import https from 'node:https';
+import type { IncomingMessage } from 'node:http';
+import { lookup } from 'node:dns';
+import { isIP } from 'node:net';
+import type { LookupFunction } from 'node:net';
+import { Readable } from 'node:stream';
+import { createBrotliDecompress, createGunzip, createInflate } from 'node:zlib';
+
+// Fetches competitor pages for the scraper. URLs come from users, so only public
+// http(s) hosts are allowed and responses are capped in time and size. Redirects are
+// followed by hand so every hop is checked, and the address each connection actually
+// uses is checked in the DNS lookup, so a hostname can't pass the check and then
+// resolve to a private address for the request (DNS rebinding).
+
+export interface FetchPageOptions {
+  timeoutMs?: number;
+  maxBytes?: number;
+  maxRedirects?: number;
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_FETCH_OPTIONS = {
+  timeoutMs: 8000,
+  maxBytes: 2 * 1024 * 1024,
+  maxRedirects: 5,
+};
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; PredictGenie/1.0; +price-analysis)';
+
+const isPrivateIPv4 = (address: string): boolean => {
+  const [a, b] = address.split('.').map(Number);
+  return a === 10 || a === 127 || a === 0 || a >= 224 || (a === 100 && b >= 64 && b <= 127) || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+};
+
+// Loopback, private, link-local, carrier-grade NAT and multicast addresses, including IPv4-mapped IPv6 ones
+const isPrivateAddress = (address: string): boolean => {
+  const host = address.replace(/^\[|\]$/g, '').toLowerCase();
+  const version = isIP(host);
+  if (version === 4) return isPrivateIPv4(host);
+  if (version !== 6) return true;
+  const mapped = host.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIPv4(mapped[1]);
+  return host === '::' || host === '::1' || host.startsWith('::ffff:') || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || host.startsWith('ff');
+};
+
+/**
+ * Rejects URLs the server must not fetch on a user's behalf: other protocols, localhost,
+ * `.local`/`.internal` names and private or loopback IP literals. Hostnames that resolve
+ * to private addresses are refused when connecting (see fetchPageHtml).
+ */
+export const isFetchableUrl = (value: string): boolean => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) return false;
+  return isIP(host) === 0 || !isPrivateAddress(host);
+};
+
+// Used for every connection, so the address checked is the one connected to
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(Object.assign(new Error(`${hostname} resolves to an address that cannot be fetched.`), { code: 'EPRIVATEADDRESS' }), '', 0);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const request = (url: URL, signal: AbortSignal): Promise<IncomingMessage> => new Promise((resolve, reject) => {
+  const client = url.protocol === 'https:' ? https : http;
+  const req = client.get(url, {
+    headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml', 'Accept-Encoding': 'gzip, deflate, br' },
+    lookup: publicOnlyLookup,
+    signal,
+  }, resolve);
+  req.on('error', reject);
+});
+
+const decodedBody = (response: IncomingMessage): Readable => {
+  switch ((response.headers['content-encoding'] || '').toLowerCase()) {
+    case 'gzip': return response.pipe(createGunzip());
+    case 'deflate': return response.pipe(createInflate());
+    case 'br': return response.pipe(createBrotliDecompress());
+    default: return response;
+  }
+};
+
+/** Downloads a page as text. Throws on non-HTML responses, HTTP errors, timeouts, oversized pages and disallowed redirects. */
+export const fetchPageHtml = async (url: string, options: FetchPageOptions = {}): Promise<string> => {
+  const { timeoutMs, maxBytes, maxRedirects, signal } = { ...DEFAULT_FETCH_OPTIONS, ...options };
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const combined = signal ? AbortSignal.any([signal, timeout]) : timeout;
+
+  let current = url;
+  let response: IncomingMessage;
+  for (let hop = 0; ; hop++) {
+    if (!isFetchableUrl(current)) {
+      throw new Error(hop === 0 ? 'Only public http(s) addresses can be fetched.' : 'The page redirected to an address that cannot be fetched.');
+    }
+    response = await request(new URL(current), combined);
+    const status = response.statusCode || 0;
+    const location = response.headers.location;
+    if (status < 300 || status >= 400 || !location) break;
+    response.resume();
+    if (hop >= maxRedirects) throw new Error('The page redirected too many times.');
+    current = new URL(location, current).toString();
+  }
+
+  const status = response.statusCode || 0;
+  if (status < 200 || status >= 300) {
+    response.resume();
+    throw new Error(`The page responded with status ${status}.`);
+  }
+  const contentType = response.headers['content-type'] || '';
+  if (contentType && !/html|xml/i.test(contentType)) {
+    response.resume();
+    throw new Error(`Expected an HTML page but got ${contentType}.`);
+  }
+
+  // The limit applies after decompression, so a small compressed body can't expand without bound
+  const body = decodedBody(response);
+  const decoder = new TextDecoder();
+  let html = '';
+  let bytes = 0;
+  try {
+    for await (const chunk of body as AsyncIterable<Buffer>) {
+      bytes += chunk.length;
+      if (bytes > maxBytes) {
+        throw new Error(`The page is larger than ${Math.round(maxBytes / 1024)} KB.`);
+      }
+      html += decoder.decode(chunk, { stream: true });
+    }
+    return html + decoder.decode();
+  } finally {
+    body.destroy();
+    response.destroy();
+  }
+};
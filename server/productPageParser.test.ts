@@ -0,0 +1,64 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { extractProductFacts } from './productPageParser';
+
+const FETCHED_AT = '2025-01-01T00:00:00.000Z';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+describe('extractProductFacts', () => {
+  it('reads a JSON-LD Product from an @graph and prefers it over OpenGraph', () => {
+    const facts = extractProductFacts(fixture('jsonld-product.html'), 'https://shop.example/aeron', FETCHED_AT);
+    expect(facts).toEqual({
+      url: 'https://shop.example/aeron',
+      fetchedAt: FETCHED_AT,
+      sources: ['json-ld'],
+      productName: 'Aeron Chair & Lumbar Pad &#99999999;',
+      price: 1299,
+      currency: 'USD',
+      stockStatus: 'In Stock',
+      sku: 'AER-B-01',
+      gtin: '4006381333931',
+      mpn: 'AE113',
+    });
+  });
+
+  it('reads schema.org microdata', () => {
+    const facts = extractProductFacts(fixture('microdata-product.html'), 'https://shop.example/kettle', FETCHED_AT);
+    expect(facts).toMatchObject({
+      sources: ['microdata'],
+      productName: 'Wasserkocher \u{1F375} 1,7 l',
+      price: 49.9,
+      currency: 'EUR',
+      stockStatus: 'Low Stock',
+      sku: 'WK-17',
+      gtin: '4006381333948',
+    });
+    expect(facts.error).toBeUndefined();
+  });
+
+  it('falls back to OpenGraph product tags', () => {
+    const facts = extractProductFacts(fixture('opengraph-product.html'), 'https://shop.example/lamp', FETCHED_AT);
+    expect(facts).toMatchObject({
+      sources: ['opengraph'],
+      productName: 'Desk Lamp "Arc" &#x110000;',
+      price: 34.5,
+      currency: 'GBP',
+      stockStatus: 'Out of Stock',
+      sku: 'LAMP-ARC',
+    });
+  });
+
+  it('keeps character references beyond U+10FFFF as text instead of failing the page', () => {
+    const html = '<meta property="og:title" content="Lamp &#99999999; &#x7FFFFFFF; &#65;"><meta property="product:price:amount" content="10">';
+    const facts = extractProductFacts(html, 'https://shop.example/x', FETCHED_AT);
+    expect(facts.productName).toBe('Lamp &#99999999; &#x7FFFFFFF; A');
+    expect(facts.price).toBe(10);
+  });
+
+  it('reports pages without structured data', () => {
+    const facts = extractProductFacts('<html><body>Hello</body></html>', 'https://shop.example/none', FETCHED_AT);
+    expect(facts.sources).toEqual([]);
+    expect(facts.error).toBe('No product structured data found on the page.');
+  });
+});
@@ -0,0 +1,205 @@
+import type { Competitor, ScrapedProduct } from '../types';
+import { isCurrencyCode, parsePrice } from '../services/currencyService';
+import { decodeEntities } from '../utils/entities';
+
+// Extracts product facts from a page's HTML without a DOM: schema.org Product/Offer
+// JSON-LD first, then microdata, then OpenGraph/product meta tags. Pure string in,
+// facts out, so it can be checked against saved HTML pages.
+
+type Facts = Pick<ScrapedProduct, 'productName' | 'price' | 'currency' | 'stockStatus' | 'sku' | 'gtin' | 'mpn'>;
+type FactSource = ScrapedProduct['sources'][number];
+
+// schema.org ItemAvailability values, compared without the "https://schema.org/" prefix
+const AVAILABILITY: Record<string, Competitor['stockStatus']> = {
+  instock: 'In Stock',
+  instoreonly: 'In Stock',
+  onlineonly: 'In Stock',
+  limitedavailability: 'Low Stock',
+  outofstock: 'Out of Stock',
+  soldout: 'Out of Stock',
+  discontinued: 'Out of Stock',
+  preorder: 'Out of Stock',
+  presale: 'Out of Stock',
+  backorder: 'Out of Stock',
+};
+
+const cleanText = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const text = decodeEntities(value).replace(/\s+/g, ' ').trim();
+  return text || undefined;
+};
+
+const toStockStatus = (value: unknown): Competitor['stockStatus'] | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const key = value.trim().toLowerCase().replace(/^https?:\/\/schema\.org\//, '').replace(/[^a-z]/g, '');
+  return AVAILABILITY[key];
+};
+
+// Structured data prices use "." as the decimal separator, but tolerate "$1,299.00"
+const toPrice = (value: unknown): { amount?: number; currency?: string } => {
+  if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? { amount: value } : {};
+  if (typeof value !== 'string') return {};
+  const parsed = parsePrice(value, 'en-US');
+  return parsed && parsed.amount > 0 ? parsed : {};
+};
+
+const toCurrency = (value: unknown): string | undefined =>
+  isCurrencyCode(value) ? value.trim().toUpperCase() : undefined;
+
+// schema.org has a property per barcode length; JSON-LD sometimes gives them as numbers
+const GTIN_PROPERTIES = ['gtin13', 'gtin12', 'gtin14', 'gtin8', 'gtin'];
+
+const toIdentifier = (value: unknown): string | undefined =>
+  typeof value === 'number' && Number.isInteger(value) ? String(value) : cleanText(value);
+
+const identifiersFrom = (values: Record<string, unknown>): Pick<Facts, 'sku' | 'gtin' | 'mpn'> => ({
+  sku: toIdentifier(values.sku),
+  gtin: GTIN_PROPERTIES.map(key => toIdentifier(values[key])).find(Boolean),
+  mpn: toIdentifier(values.mpn),
+});
+
+// Reads attributes from a single start tag, e.g. `<meta property="og:title" content="...">`
+const readAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag))) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+};
+
+const typeIncludes = (node: Record<string, unknown>, type: string): boolean => {
+  const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+  return types.some(t => typeof t === 'string' && t.replace(/^https?:\/\/schema\.org\//, '') === type);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Walks arrays, @graph containers and nested values looking for Product nodes
+const findProductNodes = (value: unknown, found: Record<string, unknown>[] = [], depth = 0): Record<string, unknown>[] => {
+  if (depth > 8) return found;
+  if (Array.isArray(value)) {
+    value.forEach(item => findProductNodes(item, found, depth + 1));
+  } else if (isRecord(value)) {
+    if (typeIncludes(value, 'Product') || typeIncludes(value, 'ProductGroup')) {
+      found.push(value);
+    } else {
+      Object.values(value).forEach(item => findProductNodes(item, found, depth + 1));
+    }
+  }
+  return found;
+};
+
+const factsFromOffer = (offer: Record<string, unknown>): Facts => {
+  const specification = Array.isArray(offer.priceSpecification) ? offer.priceSpecification[0] : offer.priceSpecification;
+  const spec = isRecord(specification) ? specification : {};
+  // AggregateOffer: the lowest price is what a shopper compares against
+  const price = toPrice(offer.price ?? offer.lowPrice ?? spec.price);
+  return {
+    price: price.amount,
+    currency: toCurrency(offer.priceCurrency ?? spec.priceCurrency) || price.currency,
+    stockStatus: toStockStatus(offer.availability),
+    ...identifiersFrom(offer),
+  };
+};
+
+const extractJsonLd = (html: string): Facts | null => {
+  const pattern = /<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html))) {
+    let data: unknown;
+    try {
+      data = JSON.parse(match[1].replace(/^\s*<!\[CDATA\[|\]\]>\s*$/g, '').trim());
+    } catch {
+      continue; // Broken JSON-LD blocks are common; try the next one
+    }
+    for (const product of findProductNodes(data)) {
+      const offers = Array.isArray(product.offers) ? product.offers : [product.offers];
+      const offerFacts = offers.filter(isRecord).map(factsFromOffer);
+      const priced = offerFacts.find(facts => facts.price !== undefined) || offerFacts[0] || {};
+      // Identifiers on the product itself win over ones repeated on an offer
+      const own = identifiersFrom(product);
+      const facts: Facts = { productName: cleanText(product.name), ...priced, sku: own.sku ?? priced.sku, gtin: own.gtin ?? priced.gtin, mpn: own.mpn ?? priced.mpn };
+      if (facts.price !== undefined || facts.productName) return facts;
+    }
+  }
+  return null;
+};
+
+const extractMicrodata = (html: string): Facts | null => {
+  if (!/itemtype\s*=\s*["']?https?:\/\/schema\.org\/Product/i.test(html)) return null;
+  const values: Record<string, string> = {};
+  const pattern = /<([a-z0-9]+)\b([^>]*\bitemprop\s*=[^>]*)>([^<]*)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html))) {
+    const attributes = readAttributes(match[2]);
+    const value = attributes.content ?? attributes.href ?? attributes.value ?? match[3];
+    // itemprop may list several properties; the first occurrence of each wins
+    attributes.itemprop.split(/\s+/).forEach(prop => {
+      if (prop && values[prop] === undefined && value.trim()) values[prop] = value;
+    });
+  }
+  const price = toPrice(values.price ?? values.lowPrice);
+  const facts: Facts = {
+    productName: cleanText(values.name),
+    price: price.amount,
+    currency: toCurrency(values.priceCurrency) || price.currency,
+    stockStatus: toStockStatus(values.availability),
+    ...identifiersFrom(values),
+  };
+  return facts.price !== undefined || facts.productName ? facts : null;
+};
+
+const extractOpenGraph = (html: string): Facts | null => {
+  const meta: Record<string, string> = {};
+  const pattern = /<meta\b[^>]*>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html))) {
+    const attributes = readAttributes(match[0]);
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    if (key && attributes.content !== undefined && meta[key] === undefined) meta[key] = attributes.content;
+  }
+  const price = toPrice(meta['product:price:amount'] ?? meta['og:price:amount']);
+  const facts: Facts = {
+    productName: cleanText(meta['og:title']),
+    price: price.amount,
+    currency: toCurrency(meta['product:price:currency'] ?? meta['og:price:currency']) || price.currency,
+    stockStatus: toStockStatus(meta['product:availability'] ?? meta['og:availability']),
+    sku: cleanText(meta['product:retailer_item_id']),
+  };
+  return facts.price !== undefined ? facts : null;
+};
+
+/**
+ * Reads the product name, price, currency, availability and identifiers (SKU, GTIN,
+ * MPN) from a product page.
+ * Each field is taken from the most trusted format that has it: JSON-LD, then
+ * microdata, then OpenGraph. `sources` lists the formats that contributed.
+ */
+export const extractProductFacts = (html: string, url: string, fetchedAt = new Date().toISOString()): ScrapedProduct => {
+  const result: ScrapedProduct = { url, fetchedAt, sources: [] };
+  const candidates: [FactSource, Facts | null][] = [
+    ['json-ld', extractJsonLd(html)],
+    ['microdata', extractMicrodata(html)],
+    ['opengraph', extractOpenGraph(html)],
+  ];
+
+  candidates.forEach(([source, facts]) => {
+    if (!facts) return;
+    let used = false;
+    (['productName', 'price', 'currency', 'stockStatus', 'sku', 'gtin', 'mpn'] as const).forEach(field => {
+      if (result[field] === undefined && facts[field] !== undefined) {
+        Object.assign(result, { [field]: facts[field] });
+        used = true;
+      }
+    });
+    if (used) result.sources.push(source);
+  });
+
+  if (result.sources.length === 0) {
+    result.error = 'No product structured data found on the page.';
+  }
+  return result;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { attributeGrounding } from './provenance';
+
+const FETCHED_AT = '2025-01-01T00:00:00.000Z';
+
+const chunks = [
+  { web: { uri: 'https://search.example/redirect/1', title: 'shop-a.com' } },
+  { web: { uri: 'https://search.example/redirect/2', title: 'shop-b.com' } },
+];
+
+const analysis = {
+  userProduct: { productName: 'Kettle', currentPrice: 40 },
+  competitors: [
+    { url: 'https://www.shop-a.com/kettle', productName: 'Steel Kettle 1.7 l', price: 1299, stockStatus: 'In Stock', priceTrend: 'stable' },
+    { url: 'https://shop-b.com/kettle', productName: 'Kettle', price: 39.5, stockStatus: 'Out of Stock', priceTrend: 'up' },
+  ],
+};
+
+describe('attributeGrounding', () => {
+  it('marks only the values a grounding support from the same site states', () => {
+    const result = attributeGrounding(analysis, {
+      chunks,
+      supports: [
+        { segment: { text: 'Shop A lists the steel kettle 1.7 L at $1,299.00.' }, groundingChunkIndices: [0] },
+        // Shop B's price is backed by Shop A's page, which doesn't count
+        { segment: { text: 'It is offered for 39.50 elsewhere.' }, groundingChunkIndices: [0] },
+      ],
+    }, FETCHED_AT) as typeof analysis & { competitors: { provenance?: Record<string, unknown> }[]; sources?: unknown[] };
+
+    expect(result.competitors[0].provenance).toEqual({
+      productName: { origin: 'grounded', sourceUrl: chunks[0].web.uri, fetchedAt: FETCHED_AT, confidence: 0.6 },
+      price: { origin: 'grounded', sourceUrl: chunks[0].web.uri, fetchedAt: FETCHED_AT, confidence: 0.6 },
+    });
+    expect(result.competitors[1].provenance).toBeUndefined();
+    expect(result.sources).toHaveLength(2);
+  });
+
+  it('leaves every field estimated when a site was searched but nothing was supported', () => {
+    const result = attributeGrounding(analysis, { chunks, supports: [] }, FETCHED_AT) as { competitors: { provenance?: unknown }[] };
+    expect(result.competitors.map(competitor => competitor.provenance)).toEqual([undefined, undefined]);
+  });
+
+  it('discards provenance claimed by the model', () => {
+    const claimed = { ...analysis, competitors: [{ ...analysis.competitors[1], provenance: { price: { origin: 'scraped', confidence: 1 } } }] };
+    const result = attributeGrounding(claimed, { chunks, supports: [] }, FETCHED_AT) as { competitors: { provenance?: unknown }[] };
+    expect(result.competitors[0].provenance).toBeUndefined();
+  });
+});
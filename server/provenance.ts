@@ -0,0 +1,98 @@
+import type { FieldProvenance } from '../types';
+import { hostOf, ORIGIN_CONFIDENCE } from '../services/provenance';
+import { parsePrice } from '../services/currencyService';
+
+// Server-side provenance: only the server knows which values were backed by search
+// results, so anything the model claims about its own sources is discarded first.
+
+type GroundingChunk = { web?: { uri?: string; title?: string; domain?: string } };
+
+// A span of the model's answer and the search results (indices into the chunks) that back it
+type GroundingSupport = { segment?: { text?: string }; groundingChunkIndices?: number[] };
+
+export interface Grounding {
+  chunks: GroundingChunk[];
+  supports: GroundingSupport[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Search results often link through a redirect, so the title or domain names the site
+const chunkHost = (chunk: GroundingChunk): string => {
+  const web = chunk.web || {};
+  const named = (web.domain || web.title || '').toLowerCase().replace(/^www\./, '');
+  return /^[a-z0-9.-]+\.[a-z]{2,}$/.test(named) ? named : hostOf(web.uri || '');
+};
+
+const sameSite = (a: string, b: string) => !!a && !!b && (a === b || a.endsWith(`.${b}`) || b.endsWith(`.${a}`));
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Whether a supported span states this value: the same name, the same stock status, or a number equal to the price
+const mentions = (text: string, field: 'productName' | 'price' | 'stockStatus', value: unknown): boolean => {
+  if (field === 'price') {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return false;
+    return (text.match(/\d(?:[\d.,]*\d)?/g) || []).some(token =>
+      ['en-US', 'de-DE'].some(locale => {
+        const parsed = parsePrice(token, locale);
+        return parsed !== null && Math.abs(parsed.amount - value) < 0.005;
+      }));
+  }
+  return typeof value === 'string' && value.trim() !== '' && normalizeText(text).includes(normalizeText(value));
+};
+
+/** Removes `provenance` from every competitor in raw model output. */
+export const stripModelProvenance = (raw: unknown): unknown => {
+  if (!isRecord(raw) || !Array.isArray(raw.competitors)) return raw;
+  return {
+    ...raw,
+    competitors: raw.competitors.map(item => {
+      if (!isRecord(item)) return item;
+      const { provenance: _ignored, ...rest } = item;
+      return rest;
+    }),
+  };
+};
+
+/**
+ * Attaches to one analysis only the search results from its own competitors' sites
+ * (instead of the whole response's grounding list). A competitor's name, price or stock
+ * status is marked grounded only when a grounding support from that competitor's site
+ * states the same value; everything else, and the trend, stays an estimate.
+ */
+export const attributeGrounding = (raw: unknown, { chunks, supports }: Grounding, fetchedAt: string): unknown => {
+  const item = stripModelProvenance(raw);
+  if (!isRecord(item) || chunks.length === 0) return item;
+
+  const used = new Set<GroundingChunk>();
+  const competitors = Array.isArray(item.competitors) ? item.competitors.map(competitor => {
+    if (!isRecord(competitor) || typeof competitor.url !== 'string') return competitor;
+    const url = competitor.url;
+    const host = hostOf(url);
+    const siteChunks = chunks.filter(c => sameSite(chunkHost(c), host));
+    siteChunks.forEach(chunk => used.add(chunk));
+
+    const provenance: Partial<Record<'productName' | 'price' | 'stockStatus', FieldProvenance>> = {};
+    (['productName', 'price', 'stockStatus'] as const).forEach(field => {
+      for (const support of supports) {
+        const chunk = (support.groundingChunkIndices || []).map(index => chunks[index]).find(c => c && siteChunks.includes(c));
+        if (chunk && mentions(support.segment?.text || '', field, competitor[field])) {
+          provenance[field] = { origin: 'grounded', sourceUrl: chunk.web?.uri || url, fetchedAt, confidence: ORIGIN_CONFIDENCE.grounded };
+          return;
+        }
+      }
+    });
+    return Object.keys(provenance).length > 0 ? { ...competitor, provenance } : competitor;
+  }) : item.competitors;
+
+  const userHost = isRecord(item.userProduct) && typeof item.userProduct.url === 'string' ? hostOf(item.userProduct.url) : '';
+  chunks.forEach(chunk => {
+    if (sameSite(chunkHost(chunk), userHost)) used.add(chunk);
+  });
+  const sources = chunks
+    .filter(chunk => used.has(chunk) && chunk.web?.uri)
+    .map(chunk => ({ web: { uri: chunk.web!.uri!, title: chunk.web!.title || chunkHost(chunk) } }));
+
+  return { ...item, competitors, sources: sources.length > 0 ? sources : undefined };
+};
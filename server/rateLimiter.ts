@@ -0,0 +1,42 @@
+// Fixed-window request counter per client. Kept in memory, so limits apply per server process.
+
+export interface RateLimiterOptions {
+  limit: number; // Requests allowed per window
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // Time until the window resets; 0 when allowed
+}
+
+export const createRateLimiter = ({ limit, windowMs }: RateLimiterOptions) => {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+  let lastSweep = Date.now();
+
+  // Forget clients whose window has ended so the map doesn't grow without bound
+  const sweep = (now: number) => {
+    if (now - lastSweep < windowMs) return;
+    lastSweep = now;
+    windows.forEach((window, key) => {
+      if (now - window.startedAt >= windowMs) windows.delete(key);
+    });
+  };
+
+  const consume = (clientKey: string, now = Date.now()): RateLimitDecision => {
+    sweep(now);
+    let window = windows.get(clientKey);
+    if (!window || now - window.startedAt >= windowMs) {
+      window = { startedAt: now, count: 0 };
+      windows.set(clientKey, window);
+    }
+    if (window.count >= limit) {
+      return { allowed: false, remaining: 0, retryAfterMs: window.startedAt + windowMs - now };
+    }
+    window.count++;
+    return { allowed: true, remaining: limit - window.count, retryAfterMs: 0 };
+  };
+
+  return { consume };
+};
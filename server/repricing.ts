@@ -0,0 +1,112 @@
+import type { PriceUpdate, RepriceItemResult } from '../types';
+import { chunkArray, runWithConcurrency } from '../services/batchRunner';
+import { priceViolations } from '../services/guardrailService';
+
+// Pushes approved prices to a store platform. Every platform (a generic REST API, Shopify,
+// WooCommerce, ...) implements StoreConnector; runRepricing does the lookups, diffing,
+// batching and per-item reporting the same way for all of them.
+
+export interface StoreProduct {
+  id: string;
+  sku?: string;
+  url?: string;
+  price: number;
+  currency?: string;
+}
+
+export interface StorePriceChange {
+  productId: string;
+  price: number;
+}
+
+export interface StorePriceChangeResult {
+  productId: string;
+  ok: boolean;
+  message?: string;
+}
+
+export interface StoreConnector {
+  id: string;
+  label: string;
+  // Resolves to null when the store has no such product
+  findProduct: (update: PriceUpdate, signal?: AbortSignal) => Promise<StoreProduct | null>;
+  // One call per batch; reports each change separately
+  updatePrices: (changes: StorePriceChange[], signal?: AbortSignal) => Promise<StorePriceChangeResult[]>;
+}
+
+export interface RepricingOptions {
+  dryRun?: boolean; // Look up and diff only; nothing is written
+  batchSize?: number; // Price changes per updatePrices call
+  concurrency?: number; // Product lookups in flight at once
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_REPRICING_OPTIONS = {
+  dryRun: false,
+  batchSize: 25,
+  concurrency: 4,
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error.');
+
+// Prices within half a cent are the same price
+const samePrice = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+const diff = async (connector: StoreConnector, update: PriceUpdate, signal?: AbortSignal): Promise<RepriceItemResult> => {
+  // A price that breaks the product's guardrails never reaches the store, not even for a lookup
+  const violations = priceViolations(update.newPrice, update.constraints);
+  if (violations.length > 0) {
+    return { update, status: 'blocked', message: violations.map(v => v.message).join(' ') };
+  }
+  let product: StoreProduct | null;
+  try {
+    product = await connector.findProduct(update, signal);
+  } catch (error) {
+    signal?.throwIfAborted();
+    return { update, status: 'failed', message: `Lookup failed: ${errorMessage(error)}` };
+  }
+  if (!product) {
+    return { update, status: 'notFound', message: `No product with ${update.sku ? `SKU ${update.sku}` : `URL ${update.productUrl}`} in the store.` };
+  }
+  const result: RepriceItemResult = { update, status: 'wouldUpdate', productId: product.id, previousPrice: product.price };
+  if (update.currency && product.currency && update.currency !== product.currency) {
+    return { ...result, status: 'failed', message: `The store sells this product in ${product.currency}, not ${update.currency}.` };
+  }
+  return samePrice(product.price, update.newPrice) ? { ...result, status: 'unchanged' } : result;
+};
+
+/**
+ * Looks up every update in the store and compares prices. Updates that break their
+ * constraints are blocked without contacting the store. Unless `dryRun` is set, the
+ * changed prices are then written in batches. One failing item or batch never stops
+ * the rest; results come back in the order of `updates`.
+ */
+export const runRepricing = async (connector: StoreConnector, updates: PriceUpdate[], options: RepricingOptions = {}): Promise<RepriceItemResult[]> => {
+  const { dryRun, batchSize, concurrency, signal } = { ...DEFAULT_REPRICING_OPTIONS, ...options };
+  const results: RepriceItemResult[] = [];
+
+  for (const chunk of chunkArray(updates, batchSize)) {
+    const diffs = await runWithConcurrency(chunk, concurrency, update => diff(connector, update, signal), signal);
+    signal?.throwIfAborted();
+    const changes = diffs.filter(item => item.status === 'wouldUpdate');
+    if (!dryRun && changes.length > 0) {
+      let outcomes: Map<string, StorePriceChangeResult>;
+      try {
+        const written = await connector.updatePrices(changes.map(item => ({ productId: item.productId!, price: item.update.newPrice })), signal);
+        outcomes = new Map(written.map(outcome => [outcome.productId, outcome]));
+      } catch (error) {
+        signal?.throwIfAborted();
+        const message = `Update failed: ${errorMessage(error)}`;
+        outcomes = new Map(changes.map(item => [item.productId!, { productId: item.productId!, ok: false, message }]));
+      }
+      changes.forEach(item => {
+        const outcome = outcomes.get(item.productId!);
+        Object.assign(item, outcome?.ok
+          ? { status: 'updated' }
+          : { status: 'failed', message: outcome?.message || 'The store did not confirm the update.' });
+      });
+    }
+    results.push(...diffs);
+  }
+  return results;
+};
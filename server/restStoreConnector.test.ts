@@ -0,0 +1,73 @@
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { PriceUpdate } from '../types';
+import { createMockStore } from './mockStore';
+import { runRepricing } from './repricing';
+import { createRestStoreConnector } from './restStoreConnector';
+
+const TOKEN = 'store-token';
+
+const updates: PriceUpdate[] = [
+  { sku: 'CAM-X1', newPrice: 479.99, currency: 'USD' },
+  { productUrl: 'https://yourstore.com/headphones-z/', newPrice: 149, currency: 'USD' },
+  { sku: 'LAMP-01', newPrice: 35, currency: 'USD' },
+  { sku: 'NOPE', newPrice: 10 },
+];
+
+// A fresh mock store per test, so price changes don't leak between tests
+let server: Server;
+let baseUrl: string;
+
+beforeEach(async () => {
+  const store = createMockStore({ token: TOKEN });
+  server = createServer((req, res) => { store(req, res); });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mock-store`;
+});
+
+afterEach(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const storePrice = async (sku: string) => {
+  const response = await fetch(`${baseUrl}/products?sku=${sku}`, { headers: { Authorization: `Bearer ${TOKEN}` } });
+  return ((await response.json()) as { products: { price: number }[] }).products[0].price;
+};
+
+describe('REST store connector against the mock store', () => {
+  it('reports differences in a dry run without writing anything', async () => {
+    const results = await runRepricing(createRestStoreConnector({ baseUrl, token: TOKEN }), updates, { dryRun: true });
+    expect(results.map(({ status, productId, previousPrice }) => ({ status, productId, previousPrice }))).toEqual([
+      { status: 'wouldUpdate', productId: '1001', previousPrice: 499.99 },
+      { status: 'unchanged', productId: '1003', previousPrice: 149 },
+      { status: 'wouldUpdate', productId: '1004', previousPrice: 39.5 },
+      { status: 'notFound', productId: undefined, previousPrice: undefined },
+    ]);
+    expect(await storePrice('CAM-X1')).toBe(499.99);
+  });
+
+  it('writes changed prices and reports a locked product as failed without stopping the rest', async () => {
+    const results = await runRepricing(createRestStoreConnector({ baseUrl, token: TOKEN }), updates);
+    expect(results.map(({ status, message }) => ({ status, message }))).toEqual([
+      { status: 'updated', message: undefined },
+      { status: 'unchanged', message: undefined },
+      { status: 'failed', message: 'The price of this product is locked.' },
+      { status: 'notFound', message: 'No product with SKU NOPE in the store.' },
+    ]);
+    expect(await storePrice('CAM-X1')).toBe(479.99);
+    expect(await storePrice('LAMP-01')).toBe(39.5);
+  });
+
+  it('blocks prices that break constraints before contacting the store', async () => {
+    const [result] = await runRepricing(createRestStoreConnector({ baseUrl, token: TOKEN }), [
+      { sku: 'CAM-X1', newPrice: 300, constraints: { floorPrice: 400 } },
+    ]);
+    expect(result.status).toBe('blocked');
+    expect(await storePrice('CAM-X1')).toBe(499.99);
+  });
+
+  it('fails every lookup when the store rejects the token', async () => {
+    const results = await runRepricing(createRestStoreConnector({ baseUrl, token: 'wrong' }), updates.slice(0, 1));
+    expect(results[0]).toMatchObject({ status: 'failed', message: 'Lookup failed: The store responded with Missing or invalid API token.' });
+  });
+});
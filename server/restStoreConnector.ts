@@ -0,0 +1,79 @@
+import type { PriceUpdate } from '../types';
+import type { StoreConnector, StorePriceChange, StorePriceChangeResult, StoreProduct } from './repricing';
+
+// Connector for stores that expose a small JSON API (server/mockStore.ts implements it,
+// and a thin proxy in front of Shopify or WooCommerce can too):
+//   GET  {baseUrl}/products?sku=...  or  ?url=...    -> { products: StoreProduct[] }
+//   POST {baseUrl}/prices/batch  body: { changes: StorePriceChange[] } -> { results: StorePriceChangeResult[] }
+// Requests carry `Authorization: Bearer <token>` when a token is configured.
+
+export interface RestStoreOptions {
+  baseUrl: string;
+  token?: string;
+  label?: string;
+  timeoutMs?: number; // Per request
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toStoreProduct = (raw: unknown): StoreProduct | null => {
+  if (!isRecord(raw) || (typeof raw.id !== 'string' && typeof raw.id !== 'number') || typeof raw.price !== 'number') return null;
+  return {
+    id: String(raw.id),
+    sku: typeof raw.sku === 'string' ? raw.sku : undefined,
+    url: typeof raw.url === 'string' ? raw.url : undefined,
+    price: raw.price,
+    currency: typeof raw.currency === 'string' ? raw.currency : undefined,
+  };
+};
+
+export const createRestStoreConnector = ({ baseUrl, token, label = 'REST store API', timeoutMs = DEFAULT_TIMEOUT_MS }: RestStoreOptions): StoreConnector => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string, init: RequestInit, signal?: AbortSignal): Promise<unknown> => {
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const response = await fetch(`${root}${path}`, {
+      ...init,
+      headers: {
+        Accept: 'application/json',
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      const message = isRecord(data) && typeof data.error === 'string' ? data.error : `status ${response.status}`;
+      throw new Error(`The store responded with ${message.replace(/\.$/, '')}.`);
+    }
+    return data;
+  };
+
+  const findProduct = async (update: PriceUpdate, signal?: AbortSignal): Promise<StoreProduct | null> => {
+    if (!update.sku && !update.productUrl) return null;
+    const query = update.sku ? `sku=${encodeURIComponent(update.sku)}` : `url=${encodeURIComponent(update.productUrl!)}`;
+    const data = await request(`/products?${query}`, { method: 'GET' }, signal);
+    const products = isRecord(data) && Array.isArray(data.products) ? data.products.map(toStoreProduct).filter((p): p is StoreProduct => p !== null) : [];
+    if (products.length > 1) {
+      throw new Error(`${products.length} store products match; refusing to guess.`);
+    }
+    return products[0] || null;
+  };
+
+  const updatePrices = async (changes: StorePriceChange[], signal?: AbortSignal): Promise<StorePriceChangeResult[]> => {
+    const data = await request('/prices/batch', { method: 'POST', body: JSON.stringify({ changes }) }, signal);
+    if (!isRecord(data) || !Array.isArray(data.results)) {
+      throw new Error('The store sent an unexpected response to the price update.');
+    }
+    return data.results.filter(isRecord).map(result => ({
+      productId: String(result.productId),
+      ok: result.ok === true,
+      message: typeof result.message === 'string' ? result.message : undefined,
+    }));
+  };
+
+  return { id: 'rest', label, findProduct, updatePrices };
+};
@@ -0,0 +1,161 @@
+import type { ScrapedProduct, FieldProvenance, ProductIdentifiers } from '../types';
+import { SCRAPE_SOURCE_CONFIDENCE } from '../services/provenance';
+import { runWithConcurrency } from '../services/batchRunner';
+import { normalizeUrl } from '../utils/url';
+import { fetchPageHtml } from './pageFetcher';
+import { extractProductFacts } from './productPageParser';
+
+// Reads competitor pages before the model is asked, so real prices, currencies and
+// availability replace model guesses wherever a page publishes structured data.
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 1000;
+const SCRAPE_CONCURRENCY = 4;
+
+const cache = new Map<string, { expiresAt: number; page: ScrapedProduct }>();
+
+// Every entry lives for the same TTL and is re-inserted when refreshed, so the Map's insertion
+// order is also expiry order: drop from the front until the rest is fresh and within the cap
+const storeInCache = (key: string, page: ScrapedProduct) => {
+  const now = Date.now();
+  cache.delete(key);
+  for (const [oldest, entry] of cache) {
+    if (entry.expiresAt > now && cache.size < CACHE_MAX_ENTRIES) break;
+    cache.delete(oldest);
+  }
+  cache.set(key, { expiresAt: now + CACHE_TTL_MS, page });
+};
+
+const scrapePage = async (url: string, signal?: AbortSignal): Promise<ScrapedProduct> => {
+  const key = normalizeUrl(url);
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.page;
+
+  let page: ScrapedProduct;
+  try {
+    page = extractProductFacts(await fetchPageHtml(url, { signal }), url);
+  } catch (error) {
+    signal?.throwIfAborted();
+    page = { url, fetchedAt: new Date().toISOString(), sources: [], error: error instanceof Error ? error.message : 'The page could not be read.' };
+  }
+  // Failures are cached too, so a dead page doesn't slow down every batch chunk
+  storeInCache(key, page);
+  return page;
+};
+
+/** Scrapes every distinct URL, a few at a time. Pages that fail are returned with `error` set. */
+export const scrapeProductPages = async (urls: string[], signal?: AbortSignal): Promise<ScrapedProduct[]> => {
+  const unique = Array.from(new Map(urls.filter(Boolean).map(url => [normalizeUrl(url), url])).values());
+  return runWithConcurrency(unique, SCRAPE_CONCURRENCY, url => scrapePage(url, signal), signal);
+};
+
+export const hasProductFacts = (page: ScrapedProduct | undefined): page is ScrapedProduct =>
+  !!page && page.sources.length > 0 && !page.error;
+
+// One prompt line per page, e.g. `- https://...: name "X", price 19.99 EUR, In Stock (json-ld)`
+export const describeScrapedFacts = (pages: ScrapedProduct[]): string =>
+  pages.filter(hasProductFacts).map(page => {
+    const facts = [
+      page.productName && `name "${page.productName}"`,
+      page.price !== undefined && `price ${page.price}${page.currency ? ` ${page.currency}` : ''}`,
+      page.stockStatus,
+      page.gtin && `GTIN ${page.gtin}`,
+      page.mpn && `MPN ${page.mpn}`,
+    ].filter(Boolean);
+    return `- ${page.url}: ${facts.join(', ')} (${page.sources.join(', ')})`;
+  }).join('\n');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const pageIdentifiers = (page: ScrapedProduct): ProductIdentifiers => ({
+  ...(page.sku ? { sku: page.sku } : {}),
+  ...(page.gtin ? { gtin: page.gtin } : {}),
+  ...(page.mpn ? { mpn: page.mpn } : {}),
+});
+
+// Confidence follows the most trusted format the page offered
+const scrapedProvenance = (page: ScrapedProduct): FieldProvenance => ({
+  origin: 'scraped',
+  sourceUrl: page.url,
+  fetchedAt: page.fetchedAt,
+  confidence: SCRAPE_SOURCE_CONFIDENCE[page.sources[0]],
+});
+
+export interface MergeOptions {
+  userProduct?: { url?: string; currency?: string }; // Takes the scraped name and price of its own page
+  addMissing?: boolean; // Add scraped competitors the model left out (single-product requests only)
+}
+
+/**
+ * Overwrites model output with scraped facts. Competitors are matched by URL. The user's
+ * product takes the scraped name, identifiers and, when the currency matches what they
+ * sell in, the scraped price. `raw` is unvalidated model output and is returned in the same loose
+ * shape, with the pages that concern it attached as `scrapedPages`.
+ */
+export const mergeScrapedFacts = (raw: unknown, pages: ScrapedProduct[], { userProduct = {}, addMissing = false }: MergeOptions = {}): unknown => {
+  if (!isRecord(raw)) return raw;
+  const byUrl = new Map(pages.filter(hasProductFacts).map(page => [normalizeUrl(page.url), page]));
+  const merged: Record<string, unknown> = { ...raw };
+
+  const competitors = Array.isArray(raw.competitors) ? raw.competitors : [];
+  const seen = new Set<string>();
+  merged.competitors = competitors.map(item => {
+    if (!isRecord(item) || typeof item.url !== 'string') return item;
+    const key = normalizeUrl(item.url);
+    const page = byUrl.get(key);
+    if (!page || (userProduct.url && key === normalizeUrl(userProduct.url))) return item;
+    seen.add(key);
+    const scraped = scrapedProvenance(page);
+    return {
+      ...item,
+      ...(page.productName ? { productName: page.productName } : {}),
+      ...(page.price !== undefined ? { price: page.price, currency: page.currency ?? item.currency } : {}),
+      ...(page.stockStatus ? { stockStatus: page.stockStatus } : {}),
+      ...pageIdentifiers(page),
+      provenance: {
+        ...(isRecord(item.provenance) ? item.provenance : {}),
+        ...(page.productName ? { productName: scraped } : {}),
+        ...(page.price !== undefined ? { price: scraped } : {}),
+        ...(page.stockStatus ? { stockStatus: scraped } : {}),
+      },
+    };
+  });
+  byUrl.forEach((page, key) => {
+    if (!addMissing || seen.has(key) || page.price === undefined || (userProduct.url && key === normalizeUrl(userProduct.url))) return;
+    const scraped = scrapedProvenance(page);
+    (merged.competitors as unknown[]).push({
+      url: page.url,
+      productName: page.productName || page.url,
+      price: page.price,
+      currency: page.currency,
+      stockStatus: page.stockStatus || 'In Stock',
+      priceTrend: 'stable',
+      ...pageIdentifiers(page),
+      // Only what the page stated counts as scraped; the rest is filled in as estimates
+      provenance: {
+        price: scraped,
+        ...(page.productName ? { productName: scraped } : {}),
+        ...(page.stockStatus ? { stockStatus: scraped } : {}),
+      },
+    });
+  });
+
+  const ownPage = userProduct.url ? byUrl.get(normalizeUrl(userProduct.url)) : undefined;
+  if (ownPage && isRecord(raw.userProduct)) {
+    const sameCurrency = !ownPage.currency || !userProduct.currency || ownPage.currency === userProduct.currency;
+    merged.userProduct = {
+      ...raw.userProduct,
+      ...(ownPage.productName ? { productName: ownPage.productName } : {}),
+      ...(ownPage.price !== undefined && sameCurrency ? { currentPrice: ownPage.price } : {}),
+      ...pageIdentifiers(ownPage),
+    };
+  }
+
+  const relevant = new Set((merged.competitors as unknown[])
+    .map(item => (isRecord(item) && typeof item.url === 'string' ? normalizeUrl(item.url) : ''))
+    .concat(userProduct.url ? [normalizeUrl(userProduct.url)] : []));
+  const scrapedPages = pages.filter(page => relevant.has(normalizeUrl(page.url)));
+  if (scrapedPages.length > 0) merged.scrapedPages = scrapedPages;
+  return merged;
+};
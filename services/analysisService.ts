@@ -0,0 +1,178 @@
+import type { ProductAnalysis, AnalysisResult, AnalysisConfig, CsvProduct, SingleProductInput, BatchAnalysisResult, AnalysisFailure, BatchProgress, PricingConstraints } from '../types';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockService';
+import { validateProductAnalysis, validateBatchResults, formatIssues } from './validationService';
+import { chunkArray, runWithConcurrency, withRetry } from './batchRunner';
+import { batchProductProblem } from './requestLimits';
+import { isRetryableError } from './apiClient';
+import { getCurrencySettings, normalizeCurrencies } from './currencyService';
+import { applyGuardrails } from './guardrailService';
+import { getPricingRules, withRuleBasedPrice } from './pricingEngine';
+import { applyProductMatching } from './matchingService';
+import { applyCompetitorStores, getCompetitorStores, withStoreUrls } from './competitorRegistry';
+import { getAnalysisSettings, toAnalysisConfig } from './analysisSettingsService';
+import { getActiveProjectId } from './projectService';
+import { normalizeUrl } from '../utils/url';
+
+// Every analysis backend (Gemini, the offline mock, future LLMs) implements this contract.
+// Providers return whatever the backend produced; it is validated here before reaching the UI.
+// `settings` carries the strategy, model, temperature and prompt templates to use.
+export interface AnalysisProvider {
+  id: string;
+  label: string;
+  analyzeSingleProduct: (input: SingleProductInput, settings: AnalysisConfig, signal?: AbortSignal) => Promise<ProductAnalysis>;
+  analyzeBatchProducts: (products: CsvProduct[], settings: AnalysisConfig, signal?: AbortSignal) => Promise<AnalysisResult>;
+}
+
+const providers: Record<string, AnalysisProvider> = {
+  [geminiProvider.id]: geminiProvider,
+  [mockProvider.id]: mockProvider,
+};
+
+let activeProviderId = process.env.ANALYSIS_PROVIDER || geminiProvider.id;
+
+export const registerProvider = (provider: AnalysisProvider) => {
+  providers[provider.id] = provider;
+};
+
+export const listProviders = (): AnalysisProvider[] => Object.values(providers);
+
+export const setActiveProvider = (id: string) => {
+  if (!providers[id]) {
+    throw new Error(`Unknown analysis provider "${id}". Available providers: ${Object.keys(providers).join(', ')}.`);
+  }
+  activeProviderId = id;
+};
+
+export const getActiveProvider = (): AnalysisProvider => {
+  const provider = providers[activeProviderId];
+  if (!provider) {
+    throw new Error(`Unknown analysis provider "${activeProviderId}". Check the ANALYSIS_PROVIDER setting.`);
+  }
+  return provider;
+};
+
+// Post-processing for every validated analysis: currency conversion, registry stores,
+// product matching, guardrails, rule-based price. Stores and rules come from the project analyzed for.
+const finalizeAnalysis = (analysis: ProductAnalysis, projectId: string, constraints?: PricingConstraints): ProductAnalysis =>
+  withRuleBasedPrice(
+    applyGuardrails(applyProductMatching(applyCompetitorStores(normalizeCurrencies(analysis), getCompetitorStores(projectId))), constraints),
+    getPricingRules(projectId),
+  );
+
+// Uses the settings, prompt templates, registry and pricing rules of `projectId`, the active project by default.
+// The settings are stored on the result.
+export const analyzeSingleProduct = async (input: SingleProductInput, signal?: AbortSignal, projectId: string = getActiveProjectId()): Promise<ProductAnalysis> => {
+  const settings = getAnalysisSettings(projectId);
+  const request = { ...input, currency: input.currency || getCurrencySettings().baseCurrency };
+  const raw = await getActiveProvider().analyzeSingleProduct(request, toAnalysisConfig(settings, projectId), signal);
+  signal?.throwIfAborted();
+  const { analysis, issues } = validateProductAnalysis(raw);
+  if (!analysis) {
+    throw new Error(`The analysis returned by PredictGenie is invalid. ${formatIssues(issues.filter(i => i.severity === 'error'))}`);
+  }
+  if (!analysis.userProduct.url) {
+    analysis.userProduct.url = request.userProductUrl;
+  }
+  analysis.userProduct.currency = request.currency;
+  // Anything the user didn't list was found by search and still needs their approval
+  const requested = new Set(request.competitorUrls.map(normalizeUrl));
+  analysis.competitors.forEach(competitor => {
+    if (!requested.has(normalizeUrl(competitor.url))) competitor.discovered = true;
+  });
+  return { ...finalizeAnalysis(analysis, projectId, request.constraints), settings };
+};
+
+export interface BatchOptions {
+  chunkSize?: number; // Products sent to the provider per request
+  concurrency?: number; // Requests in flight at once
+  maxRetries?: number; // Retries per chunk after the first attempt
+  retryDelayMs?: number; // Base backoff delay, doubled on each retry
+  onProgress?: (progress: BatchProgress) => void;
+  signal?: AbortSignal; // Cancels in-flight requests and stops scheduling new chunks
+  completedRows?: Record<number, ProductAnalysis>; // Rows already analyzed by an earlier, interrupted run
+  onRowsCompleted?: (rows: Record<number, ProductAnalysis>) => void; // Called per chunk, e.g. to checkpoint
+  projectId?: string; // Whose settings, templates, registry and pricing rules are used; defaults to the active project
+}
+
+export const DEFAULT_BATCH_OPTIONS = {
+  chunkSize: 10,
+  concurrency: 3,
+  maxRetries: 2,
+  retryDelayMs: 1000,
+};
+
+/**
+ * Analyzes a batch in chunks so large catalogues stay within model limits.
+ * Chunks run concurrently with retry/backoff; a chunk that keeps failing only
+ * fails its own rows. Results and failures are reported in input order.
+ * Rows passed in `completedRows` are reused instead of being analyzed again, and rows
+ * the server would reject (see batchProductProblem) fail without being sent.
+ * Registry stores that know a row's product page are added to its competitors.
+ */
+export const analyzeBatchProducts = async (products: CsvProduct[], options: BatchOptions = {}): Promise<BatchAnalysisResult> => {
+  const { chunkSize, concurrency, maxRetries, retryDelayMs, signal, completedRows = {}, projectId = getActiveProjectId() } = { ...DEFAULT_BATCH_OPTIONS, ...options };
+  const provider = getActiveProvider();
+  const settings = getAnalysisSettings(projectId);
+  const config = toAnalysisConfig(settings, projectId);
+  const { baseCurrency } = getCurrencySettings();
+  const stores = getCompetitorStores(projectId);
+  products = products.map(product => withStoreUrls(product.currency ? product : { ...product, currency: baseCurrency }, stores));
+
+  // One slot per input row, filled in as chunks complete
+  const rowResults: (ProductAnalysis | null)[] = products.map((_, index) => completedRows[index] || null);
+  const rowFailures: (AnalysisFailure | null)[] = new Array(products.length).fill(null);
+
+  const pending = products
+    .map((product, index) => ({ product, index }))
+    .filter(row => {
+      if (rowResults[row.index] !== null) return false;
+      const problem = batchProductProblem(row.product);
+      if (problem) rowFailures[row.index] = { index: row.index, productName: row.product.productName, reason: problem, issues: [] };
+      return !problem;
+    });
+  let completed = products.length - pending.length;
+  const chunks = chunkArray(pending, chunkSize);
+
+  const collect = (): BatchAnalysisResult => ({
+    results: rowResults.filter((r): r is ProductAnalysis => r !== null),
+    failures: rowFailures.filter((f): f is AnalysisFailure => f !== null),
+  });
+
+  options.onProgress?.({ completed, total: products.length, partial: collect() });
+
+  await runWithConcurrency(chunks, concurrency, async chunk => {
+    const chunkProducts = chunk.map(row => row.product);
+    try {
+      const validated = await withRetry(async () => {
+        const raw = await provider.analyzeBatchProducts(chunkProducts, config, signal);
+        return validateBatchResults(raw, chunkProducts);
+      }, { maxRetries, retryDelayMs, signal, shouldRetry: isRetryableError });
+
+      // validateBatchResults keeps input order: every row without a failure has the next result
+      const failedRows = new Map(validated.failures.map(failure => [failure.index, failure]));
+      const newRows: Record<number, ProductAnalysis> = {};
+      let nextResult = 0;
+      chunk.forEach((row, i) => {
+        const failure = failedRows.get(i);
+        if (failure) {
+          rowFailures[row.index] = { ...failure, index: row.index };
+        } else {
+          rowResults[row.index] = newRows[row.index] = { ...finalizeAnalysis(validated.results[nextResult++], projectId, row.product.constraints), settings };
+        }
+      });
+      options.onRowsCompleted?.(newRows);
+    } catch (error) {
+      if (signal?.aborted) return;
+      const reason = error instanceof Error ? error.message : 'An unknown error occurred.';
+      chunk.forEach(row => {
+        rowFailures[row.index] = { index: row.index, productName: row.product.productName, reason, issues: [] };
+      });
+    }
+    completed += chunk.length;
+    options.onProgress?.({ completed, total: products.length, partial: collect() });
+  }, signal);
+
+  signal?.throwIfAborted();
+  return collect();
+};
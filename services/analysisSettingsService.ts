@@ -0,0 +1,110 @@
+import type { AnalysisConfig, AnalysisSettings, PromptTemplates, PromptTemplateVersion } from '../types';
+import {
+  ANALYSIS_MODELS,
+  BUILTIN_TEMPLATES,
+  BUILTIN_TEMPLATE_VERSION,
+  DEFAULT_ANALYSIS_SETTINGS,
+  TEMPERATURE_RANGE,
+  isAnalysisStrategy,
+  templateProblems,
+} from './promptTemplates';
+import { projectStorageKey } from './projectService';
+
+// Per-project strategy, model and prompt template settings. Edited templates are saved
+// as new versions and never changed afterwards, so the templateVersion stored with a
+// result keeps pointing at the exact text that produced it.
+
+const SETTINGS_KEY = 'predictgenie.analysisSettings';
+const TEMPLATES_KEY = 'predictgenie.promptTemplates';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not save ${key}:`, error);
+  }
+  listeners.forEach(listener => listener());
+};
+
+// Notifies `listener` whenever the settings or template versions change. Returns an unsubscribe function.
+export const subscribeToAnalysisSettings = (listener: Listener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const BUILTIN_VERSION: PromptTemplateVersion = { ...BUILTIN_TEMPLATES, version: BUILTIN_TEMPLATE_VERSION, createdAt: new Date(0).toISOString(), note: 'Built-in' };
+
+const savedVersions = (projectId?: string): PromptTemplateVersion[] =>
+  readJson<PromptTemplateVersion[]>(projectStorageKey(TEMPLATES_KEY, projectId), []);
+
+// The built-in template first, then the project's saved versions, oldest first
+export const listTemplateVersions = (projectId?: string): PromptTemplateVersion[] => [BUILTIN_VERSION, ...savedVersions(projectId)];
+
+export const getTemplateVersion = (version: number, projectId?: string): PromptTemplateVersion | undefined =>
+  listTemplateVersions(projectId).find(template => template.version === version);
+
+// Stored values that are no longer valid, e.g. a model that was removed, fall back to the defaults
+export const getAnalysisSettings = (projectId?: string): AnalysisSettings => {
+  const stored = readJson<Partial<AnalysisSettings>>(projectStorageKey(SETTINGS_KEY, projectId), {});
+  const { temperature } = stored;
+  return {
+    strategy: isAnalysisStrategy(stored.strategy) ? stored.strategy : DEFAULT_ANALYSIS_SETTINGS.strategy,
+    model: stored.model && ANALYSIS_MODELS.includes(stored.model) ? stored.model : DEFAULT_ANALYSIS_SETTINGS.model,
+    temperature: typeof temperature === 'number' && temperature >= TEMPERATURE_RANGE.min && temperature <= TEMPERATURE_RANGE.max
+      ? temperature
+      : DEFAULT_ANALYSIS_SETTINGS.temperature,
+    templateVersion: typeof stored.templateVersion === 'number' && getTemplateVersion(stored.templateVersion, projectId)
+      ? stored.templateVersion
+      : BUILTIN_TEMPLATE_VERSION,
+  };
+};
+
+export const saveAnalysisSettings = (settings: AnalysisSettings) => {
+  writeJson(projectStorageKey(SETTINGS_KEY), settings);
+};
+
+/**
+ * Saves edited templates as the next version of the active project and selects it.
+ * Throws when the templates can't be used (see templateProblems).
+ */
+export const saveTemplateVersion = (templates: PromptTemplates, note = ''): PromptTemplateVersion => {
+  const problems = templateProblems(templates);
+  if (problems.length > 0) throw new Error(problems.join(' '));
+  const versions = savedVersions();
+  const saved: PromptTemplateVersion = {
+    version: Math.max(BUILTIN_TEMPLATE_VERSION, ...versions.map(template => template.version)) + 1,
+    createdAt: new Date().toISOString(),
+    single: templates.single,
+    batch: templates.batch,
+  };
+  if (note.trim()) saved.note = note.trim();
+  writeJson(projectStorageKey(TEMPLATES_KEY), [...versions, saved]);
+  saveAnalysisSettings({ ...getAnalysisSettings(), templateVersion: saved.version });
+  return saved;
+};
+
+// Replaces the active project's saved versions, e.g. from an imported project
+export const replaceTemplateVersions = (versions: PromptTemplateVersion[]) => {
+  writeJson(projectStorageKey(TEMPLATES_KEY), versions.filter(template => template.version !== BUILTIN_TEMPLATE_VERSION));
+};
+
+/** What is sent to the provider for `settings`: the saved template text travels with the request. */
+export const toAnalysisConfig = (settings: AnalysisSettings, projectId?: string): AnalysisConfig => {
+  const { templateVersion, ...config } = settings;
+  if (templateVersion === BUILTIN_TEMPLATE_VERSION) return config;
+  const template = getTemplateVersion(templateVersion, projectId);
+  if (!template) throw new Error(`Prompt template version ${templateVersion} no longer exists in this project.`);
+  return { ...config, templates: { single: template.single, batch: template.batch } };
+};
@@ -0,0 +1,68 @@
+// Thin fetch wrapper for the PredictGenie server API (see server/api.ts).
+
+const API_BASE_URL = process.env.API_BASE_URL || '';
+const ACCESS_TOKEN_KEY = 'predictgenie.apiAccessToken';
+
+// The server's API_ACCESS_TOKEN, needed when the API is not on this machine
+export const getApiAccessToken = (): string => {
+  try {
+    return localStorage.getItem(ACCESS_TOKEN_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+export const setApiAccessToken = (token: string) => {
+  try {
+    if (token.trim()) localStorage.setItem(ACCESS_TOKEN_KEY, token.trim());
+    else localStorage.removeItem(ACCESS_TOKEN_KEY);
+  } catch (error) {
+    console.warn('Could not save the API access token:', error);
+  }
+};
+
+export class ApiError extends Error {
+  status: number;
+  retryAfterMs?: number; // Set on 429 responses from the Retry-After header
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Rate limits and server/upstream failures are worth retrying; bad requests are not
+export const isRetryableError = (error: unknown): boolean =>
+  !(error instanceof ApiError) || error.status === 429 || error.status >= 500;
+
+export const postJson = async <T>(path: string, body: unknown, signal?: AbortSignal, headers: Record<string, string> = {}): Promise<T> => {
+  const token = getApiAccessToken();
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}), ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new Error('Could not reach the PredictGenie server. Check your connection and try again.');
+  }
+
+  const data = await response.json().catch(() => null) as (T & { error?: string }) | null;
+  if (!response.ok) {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    throw new ApiError(
+      response.status,
+      data?.error || `The PredictGenie server responded with status ${response.status}.`,
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+    );
+  }
+  if (!data) {
+    throw new ApiError(response.status, 'The PredictGenie server sent an empty response.');
+  }
+  return data;
+};
@@ -0,0 +1,118 @@
+import type { AnalysisResult, Competitor, ElasticityConfig, ProductAnalysis } from '../types';
+import { priceChangePct } from './exportService';
+import { isMismatch } from './matchingService';
+import { demandRatio, getElasticityConfig } from './simulatorService';
+import { urlDomain } from '../utils/url';
+
+// Batch-wide overview computed from the results alone: where we sit against the market,
+// how big the suggested changes are, which competitors show up most and what applying
+// every suggestion would do to revenue.
+
+export type MarketPosition = 'cheapest' | 'midPack' | 'mostExpensive' | 'noComparison';
+
+export const MARKET_POSITION_LABELS: Record<MarketPosition, string> = {
+  cheapest: 'Cheapest',
+  midPack: 'Mid-pack',
+  mostExpensive: 'Most expensive',
+  noComparison: 'No comparable competitor',
+};
+
+// Suggested change buckets, in percent of the current price; each bucket is [min, max)
+export const CHANGE_BUCKETS: { label: string; min: number; max: number }[] = [
+  { label: '≤ -10%', min: -Infinity, max: -10 },
+  { label: '-10 to -5%', min: -10, max: -5 },
+  { label: '-5 to -1%', min: -5, max: -1 },
+  { label: '±1%', min: -1, max: 1 },
+  { label: '1 to 5%', min: 1, max: 5 },
+  { label: '5 to 10%', min: 5, max: 10 },
+  { label: '≥ 10%', min: 10, max: Infinity },
+];
+
+const MAX_DOMAINS = 10;
+
+export interface DomainStats {
+  domain: string;
+  listings: number; // Products this domain was compared against
+  beatenNow: number; // Listings where our current price is lower
+  beatenSuggested: number; // Listings where the suggested price would be lower
+}
+
+export interface RevenueImpact {
+  currency: string;
+  products: number;
+  priceChange: number; // Sum of suggested minus current prices, before any change in demand
+  currentRevenue: number; // One unit of every product at its current price
+  suggestedRevenue: number; // Same baseline at the suggested prices, units adjusted by the demand model
+  changePct: number;
+}
+
+export interface BatchInsights {
+  positions: { current: Record<MarketPosition, number>; suggested: Record<MarketPosition, number> };
+  changeBuckets: number[]; // Product counts, aligned with CHANGE_BUCKETS
+  domains: DomainStats[]; // Most frequent first, at most MAX_DOMAINS
+  revenue: RevenueImpact[]; // One entry per currency, since totals can't be added across them
+}
+
+const emptyPositions = (): Record<MarketPosition, number> => ({ cheapest: 0, midPack: 0, mostExpensive: 0, noComparison: 0 });
+
+// Same item, same currency: the competitors whose prices can be compared with ours
+const comparableCompetitors = (analysis: ProductAnalysis): Competitor[] => {
+  const currency = analysis.userProduct.currency;
+  return analysis.competitors.filter(c => c.price > 0 && (!currency || !c.currency || c.currency === currency) && !isMismatch(c));
+};
+
+/** Where `price` sits among the competitor prices; ties count as cheapest. */
+export const marketPosition = (price: number, competitorPrices: number[]): MarketPosition => {
+  if (competitorPrices.length === 0) return 'noComparison';
+  if (price <= Math.min(...competitorPrices)) return 'cheapest';
+  if (price >= Math.max(...competitorPrices)) return 'mostExpensive';
+  return 'midPack';
+};
+
+export const computeBatchInsights = (results: AnalysisResult, elasticity: ElasticityConfig = getElasticityConfig()): BatchInsights => {
+  const positions = { current: emptyPositions(), suggested: emptyPositions() };
+  const changeBuckets = CHANGE_BUCKETS.map(() => 0);
+  const domains = new Map<string, DomainStats>();
+  const revenue = new Map<string, RevenueImpact>();
+
+  results.forEach(analysis => {
+    const { currentPrice, currency = '' } = analysis.userProduct;
+    const competitors = comparableCompetitors(analysis);
+    const prices = competitors.map(c => c.price);
+    positions.current[marketPosition(currentPrice, prices)]++;
+    positions.suggested[marketPosition(analysis.suggestedPrice, prices)]++;
+
+    const change = priceChangePct(analysis);
+    const bucket = CHANGE_BUCKETS.findIndex(b => change >= b.min && change < b.max);
+    changeBuckets[bucket]++;
+
+    // A domain listed twice for one product still counts once
+    new Map(competitors.map(c => [urlDomain(c.url), c])).forEach((competitor, domain) => {
+      if (!domain) return;
+      const stats = domains.get(domain) || { domain, listings: 0, beatenNow: 0, beatenSuggested: 0 };
+      stats.listings++;
+      if (currentPrice < competitor.price) stats.beatenNow++;
+      if (analysis.suggestedPrice < competitor.price) stats.beatenSuggested++;
+      domains.set(domain, stats);
+    });
+
+    const impact = revenue.get(currency) || { currency, products: 0, priceChange: 0, currentRevenue: 0, suggestedRevenue: 0, changePct: 0 };
+    impact.products++;
+    impact.priceChange += analysis.suggestedPrice - currentPrice;
+    impact.currentRevenue += currentPrice;
+    impact.suggestedRevenue += analysis.suggestedPrice * demandRatio(analysis.suggestedPrice, currentPrice, elasticity);
+    revenue.set(currency, impact);
+  });
+
+  return {
+    positions,
+    changeBuckets,
+    domains: [...domains.values()]
+      .sort((a, b) => b.listings - a.listings || a.domain.localeCompare(b.domain))
+      .slice(0, MAX_DOMAINS),
+    revenue: [...revenue.values()].map(impact => ({
+      ...impact,
+      changePct: impact.currentRevenue > 0 ? (impact.suggestedRevenue / impact.currentRevenue - 1) * 100 : 0,
+    })),
+  };
+};
@@ -0,0 +1,82 @@
+// Generic helpers for splitting work into chunks and running them with a concurrency limit.
+
+export interface RetryOptions {
+  maxRetries: number;
+  retryDelayMs: number; // Base delay, doubled on every attempt
+  signal?: AbortSignal; // Stops retrying once aborted
+  shouldRetry?: (error: unknown) => boolean; // Errors rejected here are rethrown immediately
+}
+
+export const chunkArray = <T>(items: T[], size: number): T[][] => {
+  const chunkSize = Math.max(1, Math.floor(size));
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += chunkSize) {
+    chunks.push(items.slice(i, i + chunkSize));
+  }
+  return chunks;
+};
+
+// Resolves after `ms`, or rejects as soon as `signal` is aborted
+export const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Errors may say how long to back off, e.g. from a Retry-After header
+const retryAfterMs = (error: unknown): number => {
+  const value = (error as { retryAfterMs?: unknown } | null)?.retryAfterMs;
+  return typeof value === 'number' && value > 0 ? value : 0;
+};
+
+/**
+ * Runs `task` and retries it with exponential backoff (plus a little jitter) when it throws.
+ * An error's `retryAfterMs` extends the delay. The last error is rethrown once all
+ * attempts are used.
+ */
+export const withRetry = async <T>(task: (attempt: number) => Promise<T>, { maxRetries, retryDelayMs, signal, shouldRetry }: RetryOptions): Promise<T> => {
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      lastError = error;
+      if (signal?.aborted || (shouldRetry && !shouldRetry(error))) break;
+      if (attempt < maxRetries) {
+        const delay = Math.max(retryDelayMs * 2 ** attempt, retryAfterMs(error));
+        await wait(delay + Math.random() * delay * 0.25, signal);
+      }
+    }
+  }
+  throw lastError;
+};
+
+/**
+ * Runs `worker` over every item with at most `concurrency` calls in flight.
+ * Results are returned in input order regardless of completion order.
+ * Once `signal` is aborted no new items are started.
+ */
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const runners = Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+};
@@ -0,0 +1,69 @@
+import type { CsvProduct, ProductAnalysis } from '../types';
+import { projectStorageKey } from './projectService';
+
+// Keeps the rows of the current batch run in localStorage so an interrupted
+// run (cancel, error or page refresh) can be resumed without re-analyzing them.
+// Each project has its own checkpoint.
+
+const CHECKPOINT_KEY = 'predictgenie.batchCheckpoint';
+
+export interface BatchCheckpoint {
+  createdAt: string;
+  updatedAt: string;
+  products: CsvProduct[];
+  completedRows: Record<number, ProductAnalysis>; // Keyed by row index in `products`
+  runId?: string; // History run the partial results were saved to; a resumed run adds to it
+}
+
+const write = (checkpoint: BatchCheckpoint) => {
+  try {
+    localStorage.setItem(projectStorageKey(CHECKPOINT_KEY), JSON.stringify(checkpoint));
+  } catch (error) {
+    // Quota exceeded or storage disabled: the run continues, it just can't be resumed.
+    console.warn('Could not save batch checkpoint:', error);
+  }
+};
+
+export const loadCheckpoint = (): BatchCheckpoint | null => {
+  try {
+    const stored = localStorage.getItem(projectStorageKey(CHECKPOINT_KEY));
+    if (!stored) return null;
+    const checkpoint = JSON.parse(stored) as BatchCheckpoint;
+    return Array.isArray(checkpoint.products) && checkpoint.completedRows ? checkpoint : null;
+  } catch {
+    return null;
+  }
+};
+
+export const startCheckpoint = (products: CsvProduct[], resumeFrom?: Pick<BatchCheckpoint, 'completedRows' | 'runId'>): BatchCheckpoint => {
+  const now = new Date().toISOString();
+  const checkpoint: BatchCheckpoint = { createdAt: now, updatedAt: now, products, completedRows: { ...resumeFrom?.completedRows } };
+  if (resumeFrom?.runId) checkpoint.runId = resumeFrom.runId;
+  write(checkpoint);
+  return checkpoint;
+};
+
+export const recordCompletedRows = (checkpoint: BatchCheckpoint, rows: Record<number, ProductAnalysis>) => {
+  Object.assign(checkpoint.completedRows, rows);
+  checkpoint.updatedAt = new Date().toISOString();
+  write(checkpoint);
+};
+
+// Remembers the history run holding the partial results; returns the updated checkpoint, if any
+export const attachRunToCheckpoint = (runId: string): BatchCheckpoint | null => {
+  const checkpoint = loadCheckpoint();
+  if (!checkpoint) return null;
+  checkpoint.runId = runId;
+  write(checkpoint);
+  return checkpoint;
+};
+
+export const clearCheckpoint = () => {
+  try {
+    localStorage.removeItem(projectStorageKey(CHECKPOINT_KEY));
+  } catch {
+    // Nothing to clear if storage is unavailable
+  }
+};
+
+export const countCompletedRows = (checkpoint: BatchCheckpoint): number => Object.keys(checkpoint.completedRows).length;
@@ -0,0 +1,243 @@
+import type { AnalysisResult, Competitor, CompetitorStore, CsvProduct, ProductAnalysis } from '../types';
+import { productKey } from './historyService';
+import type { AnalysisRun } from './historyService';
+import { isMismatch } from './matchingService';
+import { median } from './pricingEngine';
+import { normalizeUrl, urlDomain } from '../utils/url';
+import { createId } from '../utils/id';
+import { projectStorageKey } from './projectService';
+import { MAX_COMPETITORS } from './requestLimits';
+
+// Saved competitor stores. Listings on a registered domain carry the store's shipping,
+// tax and trust assumptions, and the store remembers its product page for each of our
+// products so later batch runs can include it without retyping the URL. Every project
+// has its own registry.
+
+const STORES_KEY = 'predictgenie.competitorStores';
+const RECENT_LISTINGS = 20;
+
+export const DEFAULT_TRUST_WEIGHT = 1;
+
+export interface CompetitorListing {
+  runId: string;
+  createdAt: string;
+  ourProductName: string;
+  ourPrice: number;
+  ourCurrency?: string;
+  competitor: Competitor;
+}
+
+export interface CompetitorProfile {
+  domain: string;
+  listings: number; // One per product per run
+  products: number; // Distinct products of ours it was compared against
+  runs: number;
+  firstSeen: string | null;
+  lastSeen: string | null;
+  priceIndex: number | null; // Median of their price / our price x 100, same item and currency only
+  priceIndexByRun: { createdAt: string; priceIndex: number }[]; // Oldest first
+  outOfStockPct: number;
+  lowStockPct: number;
+  trendPct: Record<Competitor['priceTrend'], number>; // Share of listings per reported trend
+  recent: CompetitorListing[]; // Newest first
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+// Notifies `listener` whenever the registry changes. Returns an unsubscribe function.
+export const subscribeToCompetitorStores = (listener: Listener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// `projectId` defaults to the active project
+export const getCompetitorStores = (projectId?: string): CompetitorStore[] => {
+  try {
+    const stored = localStorage.getItem(projectStorageKey(STORES_KEY, projectId));
+    return stored ? (JSON.parse(stored) as CompetitorStore[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeStores = (stores: CompetitorStore[]) => {
+  try {
+    localStorage.setItem(projectStorageKey(STORES_KEY), JSON.stringify(stores));
+  } catch (error) {
+    console.warn('Could not save the competitor registry:', error);
+  }
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Adds a store, or updates the one with the same id. Throws when the domain is not a
+ * valid hostname or another store already uses it.
+ */
+export const saveCompetitorStore = (store: Omit<CompetitorStore, 'id' | 'productUrls'> & Partial<Pick<CompetitorStore, 'id' | 'productUrls'>>): CompetitorStore => {
+  const domain = urlDomain(store.domain);
+  if (!domain || !domain.includes('.')) {
+    throw new Error(`"${store.domain}" is not a valid store domain.`);
+  }
+  const stores = getCompetitorStores();
+  if (stores.some(s => s.domain === domain && s.id !== store.id)) {
+    throw new Error(`${domain} is already in the registry.`);
+  }
+  const existing = stores.find(s => s.id === store.id);
+  const saved: CompetitorStore = {
+    ...store,
+    id: existing?.id || createId(),
+    name: store.name.trim() || domain,
+    domain,
+    trustWeight: Math.min(1, Math.max(0, store.trustWeight)),
+    productUrls: store.productUrls || existing?.productUrls || {},
+  };
+  writeStores(existing ? stores.map(s => (s.id === saved.id ? saved : s)) : [...stores, saved]);
+  return saved;
+};
+
+export const deleteCompetitorStore = (id: string) => {
+  writeStores(getCompetitorStores().filter(store => store.id !== id));
+};
+
+// Replaces the active project's registry, e.g. when a project is imported
+export const replaceCompetitorStores = (stores: CompetitorStore[]) => writeStores(stores);
+
+const domainMatches = (domain: string, storeDomain: string) => domain === storeDomain || domain.endsWith(`.${storeDomain}`);
+
+/** The registered store a URL belongs to; the most specific domain wins. */
+export const findStoreForUrl = (url: string, stores: CompetitorStore[] = getCompetitorStores()): CompetitorStore | undefined => {
+  const domain = urlDomain(url);
+  if (!domain) return undefined;
+  return stores
+    .filter(store => domainMatches(domain, store.domain))
+    .sort((a, b) => b.domain.length - a.domain.length)[0];
+};
+
+/** Listed price plus the store's tax and shipping assumptions. */
+export const landedPrice = (price: number, store: Pick<CompetitorStore, 'shippingCost' | 'taxExcluded' | 'taxRatePct'>): number => {
+  const withTax = store.taxExcluded && store.taxRatePct ? price * (1 + store.taxRatePct / 100) : price;
+  return Math.round((withTax + (store.shippingCost || 0)) * 100) / 100;
+};
+
+const hasCostAssumptions = (store: CompetitorStore) => !!store.shippingCost || (!!store.taxExcluded && !!store.taxRatePct);
+
+/**
+ * Links each competitor on a registered domain to its store and adds its landed price.
+ * Runs after currency normalization, since shipping costs are in the product's currency.
+ */
+export const applyCompetitorStores = (analysis: ProductAnalysis, stores: CompetitorStore[] = getCompetitorStores()): ProductAnalysis => {
+  if (stores.length === 0) return analysis;
+  const sameCurrency = (c: Competitor) => !analysis.userProduct.currency || !c.currency || c.currency === analysis.userProduct.currency;
+  return {
+    ...analysis,
+    competitors: analysis.competitors.map(competitor => {
+      const store = findStoreForUrl(competitor.url, stores);
+      if (!store) return competitor;
+      return {
+        ...competitor,
+        store: { id: store.id, name: store.name, trustWeight: store.trustWeight },
+        ...(hasCostAssumptions(store) && sameCurrency(competitor) ? { landedPrice: landedPrice(competitor.price, store) } : {}),
+      };
+    }),
+  };
+};
+
+/**
+ * Adds every registered store's known product page to a batch row, skipping URLs the
+ * row already has and stores it already lists a page from.
+ */
+export const withStoreUrls = (product: CsvProduct, stores: CompetitorStore[] = getCompetitorStores()): CsvProduct => {
+  const key = productKey({ url: product.userProductUrl, productName: product.productName, gtin: product.gtin, sku: product.sku });
+  const listed = new Set(product.competitorUrls.map(url => findStoreForUrl(url, stores)?.id));
+  const extra = stores
+    .filter(store => store.productUrls[key] && !listed.has(store.id))
+    .map(store => store.productUrls[key]);
+  if (extra.length === 0) return product;
+  return { ...product, competitorUrls: [...product.competitorUrls, ...extra].slice(0, MAX_COMPETITORS) };
+};
+
+/**
+ * Remembers the product page each registered store had for each analyzed product, so
+ * the next batch run can include it. Listings that are likely a different item are skipped.
+ */
+export const recordStoreListings = (results: AnalysisResult) => {
+  const stores = getCompetitorStores();
+  if (stores.length === 0) return;
+  let changed = false;
+  const updated = stores.map(store => ({ ...store, productUrls: { ...store.productUrls } }));
+  results.forEach(analysis => {
+    const key = productKey(analysis.userProduct);
+    analysis.competitors.forEach(competitor => {
+      if (!competitor.url || isMismatch(competitor)) return;
+      const store = findStoreForUrl(competitor.url, updated);
+      if (!store || (store.productUrls[key] && normalizeUrl(store.productUrls[key]) === normalizeUrl(competitor.url))) return;
+      store.productUrls[key] = competitor.url;
+      changed = true;
+    });
+  });
+  if (changed) writeStores(updated);
+};
+
+// Every competitor listing on `domain` (or its subdomains) in the given runs
+const listingsFor = (runs: AnalysisRun[], domain: string): CompetitorListing[] =>
+  runs.flatMap(run => run.results.flatMap(analysis => {
+    // A store listed twice for one product counts once
+    const seen = analysis.competitors.find(c => domainMatches(urlDomain(c.url), domain));
+    return seen
+      ? [{ runId: run.id, createdAt: run.createdAt, ourProductName: analysis.userProduct.productName, ourPrice: analysis.userProduct.currentPrice, ourCurrency: analysis.userProduct.currency, competitor: seen }]
+      : [];
+  }));
+
+const priceRatio = ({ ourPrice, ourCurrency, competitor }: CompetitorListing): number | null =>
+  ourPrice > 0 && competitor.price > 0 && !isMismatch(competitor) && (!ourCurrency || !competitor.currency || competitor.currency === ourCurrency)
+    ? competitor.price / ourPrice
+    : null;
+
+const percent = (count: number, total: number) => (total > 0 ? (count / total) * 100 : 0);
+
+/** Aggregates everything recorded about one competitor domain across the given runs. */
+export const buildCompetitorProfile = (runs: AnalysisRun[], domain: string): CompetitorProfile => {
+  const listings = listingsFor(runs, domain).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const ratios = (items: CompetitorListing[]) => items.map(priceRatio).filter((r): r is number => r !== null);
+  const allRatios = ratios(listings);
+
+  const byRun = new Map<string, CompetitorListing[]>();
+  listings.forEach(listing => byRun.set(listing.runId, [...(byRun.get(listing.runId) || []), listing]));
+  const priceIndexByRun = [...byRun.values()]
+    .map(items => ({ createdAt: items[0].createdAt, ratios: ratios(items) }))
+    .filter(run => run.ratios.length > 0)
+    .map(run => ({ createdAt: run.createdAt, priceIndex: Math.round(median(run.ratios) * 1000) / 10 }))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const count = (predicate: (c: Competitor) => boolean) => listings.filter(listing => predicate(listing.competitor)).length;
+  return {
+    domain,
+    listings: listings.length,
+    products: new Set(listings.map(listing => listing.ourProductName)).size,
+    runs: byRun.size,
+    firstSeen: listings.length > 0 ? listings[listings.length - 1].createdAt : null,
+    lastSeen: listings.length > 0 ? listings[0].createdAt : null,
+    priceIndex: allRatios.length > 0 ? Math.round(median(allRatios) * 1000) / 10 : null,
+    priceIndexByRun,
+    outOfStockPct: percent(count(c => c.stockStatus === 'Out of Stock'), listings.length),
+    lowStockPct: percent(count(c => c.stockStatus === 'Low Stock'), listings.length),
+    trendPct: {
+      up: percent(count(c => c.priceTrend === 'up'), listings.length),
+      down: percent(count(c => c.priceTrend === 'down'), listings.length),
+      stable: percent(count(c => c.priceTrend === 'stable'), listings.length),
+    },
+    recent: listings.slice(0, RECENT_LISTINGS),
+  };
+};
+
+// Competitor domains in the given runs with their listing counts, most frequent first
+export const listSeenDomains = (runs: AnalysisRun[]): { domain: string; listings: number }[] => {
+  const counts = new Map<string, number>();
+  runs.forEach(run => run.results.forEach(analysis => {
+    new Set(analysis.competitors.map(c => urlDomain(c.url)).filter(Boolean)).forEach(domain => counts.set(domain, (counts.get(domain) || 0) + 1));
+  }));
+  return [...counts.entries()]
+    .map(([domain, listings]) => ({ domain, listings }))
+    .sort((a, b) => b.listings - a.listings || a.domain.localeCompare(b.domain));
+};
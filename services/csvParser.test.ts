@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, detectEncoding, parseCsvFile, parseCsvText } from './csvParser';
+
+const utf16le = (text: string, bom = true) => {
+  const bytes = new Uint8Array((bom ? 2 : 0) + text.length * 2);
+  if (bom) bytes.set([0xff, 0xfe]);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[(bom ? 2 : 0) + i * 2] = code & 0xff;
+    bytes[(bom ? 2 : 0) + i * 2 + 1] = code >> 8;
+  }
+  return bytes;
+};
+
+describe('parseCsvText', () => {
+  it('reads quoted headers, "" escapes and line breaks inside fields', () => {
+    const result = parseCsvText('"Product, name","Price"\r\n"Kettle ""Deluxe""","15.00"\r\n"Mug\nwith lid",4.50\r\n');
+    expect(result.headers).toEqual(['Product, name', 'Price']);
+    expect(result.data).toEqual([
+      { 'Product, name': 'Kettle "Deluxe"', Price: '15.00' },
+      { 'Product, name': 'Mug\nwith lid', Price: '4.50' },
+    ]);
+    expect(result.lineNumbers).toEqual([2, 3]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('detects semicolon files and skips blank lines', () => {
+    const result = parseCsvText('name;price\nKettle;15,00\n\nMug;4,50');
+    expect(result.delimiter).toBe(';');
+    expect(result.data).toEqual([{ name: 'Kettle', price: '15,00' }, { name: 'Mug', price: '4,50' }]);
+    expect(result.lineNumbers).toEqual([2, 4]);
+  });
+
+  it('names empty and duplicate headers uniquely', () => {
+    expect(parseCsvText('name,,name\na,b,c').headers).toEqual(['name', 'Column 2', 'name (2)']);
+  });
+
+  it('reports malformed records by the line they start on', () => {
+    const result = parseCsvText([
+      'name,price',
+      'Kettle,15',
+      'Lamp,20,extra',
+      '"Mug\nwith lid"x,4',
+      'Bad "quote",5',
+      'Vase,"30',
+      'Rug,40',
+    ].join('\n'));
+    expect(result.errors).toEqual([
+      { line: 3, message: 'Expected 2 fields but found 3.' },
+      { line: 4, message: 'Unexpected character "x" after a closing quote.' },
+      { line: 6, message: 'Unescaped quote inside an unquoted field.' },
+      { line: 7, message: 'Unterminated quoted field; the rest of the file was read into it.' },
+    ]);
+    // Malformed records are kept where possible
+    expect(result.data[2]).toEqual({ name: 'Mug\nwith lidx', price: '4' });
+    expect(result.lineNumbers).toEqual([2, 3, 4, 6, 7]);
+  });
+
+  it('rejects files without a data row', () => {
+    expect(() => parseCsvText('')).toThrow('CSV file is empty.');
+    expect(() => parseCsvText('name,price\n')).toThrow('CSV file must contain a header row and at least one data row.');
+  });
+});
+
+describe('detectDelimiter', () => {
+  it.each([
+    ['name,price\nKettle,15\nMug,4', ','],
+    ['name;price;url\nKettle;15,00;https://a.example\nMug;4,50;', ';'],
+    ['name\tprice\nKettle\t15', '\t'],
+    ['name|price\nKettle|15', '|'],
+    ['"name;x",price\n"Kettle;1",15\n"Mug;2",4', ','],
+  ])('detects the delimiter of %j', (sample, delimiter) => {
+    expect(detectDelimiter(sample)).toBe(delimiter);
+  });
+});
+
+describe('detectEncoding', () => {
+  it('reads byte order marks', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]))).toEqual({ encoding: 'utf-8', bomLength: 3 });
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x61, 0x00]))).toEqual({ encoding: 'utf-16le', bomLength: 2 });
+    expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x61]))).toEqual({ encoding: 'utf-16be', bomLength: 2 });
+  });
+
+  it('recognizes BOM-less UTF-16 by its zero bytes', () => {
+    expect(detectEncoding(utf16le('name,price\nKettle,15', false))).toEqual({ encoding: 'utf-16le', bomLength: 0 });
+  });
+
+  it('falls back to Windows-1252 for bytes that are not UTF-8', () => {
+    expect(detectEncoding(new TextEncoder().encode('Café,1'))).toEqual({ encoding: 'utf-8', bomLength: 0 });
+    expect(detectEncoding(new Uint8Array([0x43, 0x61, 0x66, 0xe9, 0x2c, 0x31]))).toEqual({ encoding: 'windows-1252', bomLength: 0 });
+  });
+});
+
+describe('parseCsvFile', () => {
+  it('decodes UTF-16 files with a byte order mark', async () => {
+    const result = await parseCsvFile(new Blob([utf16le('name;price\r\nCafé crème;3,20\r\n')]));
+    expect(result).toMatchObject({ encoding: 'utf-16le', delimiter: ';', headers: ['name', 'price'], data: [{ name: 'Café crème', price: '3,20' }] });
+  });
+
+  it('strips a UTF-8 byte order mark from the first header', async () => {
+    const result = await parseCsvFile(new Blob([new Uint8Array([0xef, 0xbb, 0xbf]), 'name,price\nKettle,15']));
+    expect(result.headers).toEqual(['name', 'price']);
+  });
+
+  it('re-reads the file as Windows-1252 when invalid UTF-8 appears after the detection sample', async () => {
+    const padding = 'Kettle,15\n'.repeat(7000);
+    const bytes = new Uint8Array([...new TextEncoder().encode(`name,price\n${padding}`), 0x43, 0x61, 0x66, 0xe9, 0x2c, 0x31]);
+    const result = await parseCsvFile(new Blob([bytes]));
+    expect(result.encoding).toBe('windows-1252');
+    expect(result.data[result.data.length - 1]).toEqual({ name: 'Café', price: '1' });
+  });
+});
@@ -0,0 +1,328 @@
+// RFC 4180 CSV parsing with delimiter and encoding detection.
+// Files are decoded and parsed chunk by chunk, yielding to the event loop between
+// chunks so large catalogues do not freeze the UI.
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface CsvParseError {
+  line: number; // 1-based physical line on which the record starts
+  message: string;
+}
+
+export interface CsvParseResult {
+  headers: string[];
+  data: Record<string, string>[];
+  lineNumbers: number[]; // Line of each entry in `data`, for user-facing messages
+  delimiter: CsvDelimiter;
+  encoding: CsvEncoding;
+  errors: CsvParseError[];
+}
+
+export interface CsvParseOptions {
+  delimiter?: CsvDelimiter; // Detected when omitted
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+const DELIMITER_CANDIDATES: CsvDelimiter[] = [',', ';', '\t', '|'];
+const SAMPLE_LINES = 20;
+
+export const delimiterLabel = (delimiter: CsvDelimiter): string =>
+  ({ ',': 'comma', ';': 'semicolon', '\t': 'tab', '|': 'pipe' })[delimiter];
+
+/**
+ * Detects the encoding from a byte order mark, falling back to the zero-byte pattern
+ * of BOM-less UTF-16 and finally to UTF-8 (or Windows-1252 if the bytes aren't valid UTF-8).
+ */
+export const detectEncoding = (bytes: Uint8Array): { encoding: CsvEncoding; bomLength: number } => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', bomLength: 3 };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', bomLength: 2 };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', bomLength: 2 };
+
+  const sample = bytes.subarray(0, 1024);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++; else oddZeros++;
+    }
+  }
+  const half = sample.length / 2;
+  if (half > 0 && oddZeros / half > 0.3 && evenZeros / half < 0.05) return { encoding: 'utf-16le', bomLength: 0 };
+  if (half > 0 && evenZeros / half > 0.3 && oddZeros / half < 0.05) return { encoding: 'utf-16be', bomLength: 0 };
+
+  try {
+    // `stream: true` tolerates a multi-byte character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return { encoding: 'utf-8', bomLength: 0 };
+  } catch {
+    return { encoding: 'windows-1252', bomLength: 0 };
+  }
+};
+
+/**
+ * Picks the delimiter that splits the first lines of `sample` into the same,
+ * largest number of fields. Delimiters inside quoted fields are ignored.
+ */
+export const detectDelimiter = (sample: string): CsvDelimiter => {
+  let best: { delimiter: CsvDelimiter; consistentLines: number; fields: number } = { delimiter: ',', consistentLines: 0, fields: 0 };
+
+  DELIMITER_CANDIDATES.forEach(delimiter => {
+    const counts: number[] = [];
+    let count = 0;
+    let inQuotes = false;
+    for (let i = 0; i < sample.length && counts.length < SAMPLE_LINES; i++) {
+      const ch = sample[i];
+      if (ch === '"') inQuotes = !inQuotes;
+      else if (!inQuotes && ch === delimiter) count++;
+      else if (!inQuotes && ch === '\n') {
+        counts.push(count);
+        count = 0;
+      }
+    }
+    if (count > 0) counts.push(count);
+
+    const frequency = new Map<number, number>();
+    counts.filter(c => c > 0).forEach(c => frequency.set(c, (frequency.get(c) || 0) + 1));
+    frequency.forEach((lines, fields) => {
+      if (lines > best.consistentLines || (lines === best.consistentLines && fields > best.fields)) {
+        best = { delimiter, consistentLines: lines, fields };
+      }
+    });
+  });
+
+  return best.delimiter;
+};
+
+/**
+ * Incremental RFC 4180 record parser. Text can be pushed in arbitrary chunks; quoted
+ * fields may contain delimiters, `""` escapes and line breaks. Blank lines are skipped.
+ */
+const createRecordParser = (
+  delimiter: string,
+  onRecord: (fields: string[], line: number) => void,
+  onError: (error: CsvParseError) => void,
+) => {
+  let field = '';
+  let record: string[] = [];
+  let inQuotes = false;
+  let afterClosingQuote = false;
+  let fieldStarted = false;
+  let line = 1;
+  let recordLine = 1;
+  let lastWasCR = false;
+  let recordHasError = false;
+
+  const reportOnce = (message: string) => {
+    if (!recordHasError) {
+      recordHasError = true;
+      onError({ line: recordLine, message });
+    }
+  };
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+    fieldStarted = false;
+    afterClosingQuote = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    if (record.length > 1 || record[0] !== '') {
+      onRecord(record, recordLine);
+    }
+    record = [];
+    recordHasError = false;
+  };
+
+  const push = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      const isNewline = ch === '\n' || ch === '\r';
+      // "\r\n" is one line break
+      const countsAsLine = ch === '\r' || (ch === '\n' && !lastWasCR);
+      const crlfTail = ch === '\n' && lastWasCR;
+      lastWasCR = ch === '\r';
+
+      if (inQuotes) {
+        if (ch === '"') {
+          inQuotes = false;
+          afterClosingQuote = true;
+        } else {
+          field += ch;
+          if (countsAsLine) line++;
+        }
+        continue;
+      }
+
+      if (afterClosingQuote && ch === '"') {
+        // Escaped quote ("") inside a quoted field
+        field += '"';
+        inQuotes = true;
+        afterClosingQuote = false;
+        continue;
+      }
+
+      if (ch === delimiter) {
+        endField();
+      } else if (isNewline) {
+        if (crlfTail) continue;
+        endRecord();
+        line++;
+        recordLine = line;
+      } else if (ch === '"' && !fieldStarted) {
+        inQuotes = true;
+        fieldStarted = true;
+      } else {
+        if (afterClosingQuote) {
+          reportOnce(`Unexpected character "${ch}" after a closing quote.`);
+          afterClosingQuote = false;
+        } else if (ch === '"') {
+          reportOnce('Unescaped quote inside an unquoted field.');
+        }
+        field += ch;
+        fieldStarted = true;
+      }
+    }
+  };
+
+  const end = () => {
+    if (inQuotes) {
+      reportOnce('Unterminated quoted field; the rest of the file was read into it.');
+      inQuotes = false;
+    }
+    if (field !== '' || fieldStarted || record.length > 0) {
+      endRecord();
+    }
+  };
+
+  return { push, end };
+};
+
+/**
+ * Turns raw records into header-keyed rows. Empty or duplicate header names are made
+ * unique, and rows with a different number of fields than the header are reported.
+ */
+const createRowCollector = () => {
+  let headers: string[] | null = null;
+  const data: Record<string, string>[] = [];
+  const lineNumbers: number[] = [];
+  const errors: CsvParseError[] = [];
+
+  const onRecord = (fields: string[], line: number) => {
+    if (!headers) {
+      const seen = new Map<string, number>();
+      headers = fields.map((raw, index) => {
+        const name = raw.trim() || `Column ${index + 1}`;
+        const count = (seen.get(name) || 0) + 1;
+        seen.set(name, count);
+        return count > 1 ? `${name} (${count})` : name;
+      });
+      return;
+    }
+    if (fields.length !== headers.length) {
+      errors.push({ line, message: `Expected ${headers.length} fields but found ${fields.length}.` });
+    }
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      row[header] = (fields[index] || '').trim();
+    });
+    data.push(row);
+    lineNumbers.push(line);
+  };
+
+  const onError = (error: CsvParseError) => errors.push(error);
+
+  return { onRecord, onError, result: () => ({ headers: headers || [], data, lineNumbers, errors }) };
+};
+
+const finish = (collected: ReturnType<ReturnType<typeof createRowCollector>['result']>) => {
+  if (collected.headers.length === 0) {
+    throw new Error("CSV file is empty.");
+  }
+  if (collected.data.length === 0) {
+    throw new Error("CSV file must contain a header row and at least one data row.");
+  }
+  collected.errors.sort((a, b) => a.line - b.line);
+  return collected;
+};
+
+// Parses CSV that is already in memory as a string
+export const parseCsvText = (text: string, delimiter: CsvDelimiter = detectDelimiter(text.slice(0, 64 * 1024))): Omit<CsvParseResult, 'encoding'> => {
+  const collector = createRowCollector();
+  const parser = createRecordParser(delimiter, collector.onRecord, collector.onError);
+  parser.push(text.charCodeAt(0) === 0xfeff ? text.slice(1) : text);
+  parser.end();
+  return { ...finish(collector.result()), delimiter };
+};
+
+const yieldToEventLoop = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const parseStream = async (file: Blob, encoding: CsvEncoding, bomLength: number, options: CsvParseOptions): Promise<CsvParseResult> => {
+  const reader = file.stream().getReader();
+  // Non-UTF-8 fallbacks never throw; UTF-8 throws so the caller can retry as Windows-1252
+  const decoder = new TextDecoder(encoding, { fatal: encoding === 'utf-8' });
+  const collector = createRowCollector();
+  let parser: ReturnType<typeof createRecordParser> | null = null;
+  let delimiter = options.delimiter;
+  let bytesRead = 0;
+  let skipBytes = bomLength;
+
+  try {
+    while (true) {
+      options.signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      if (done) break;
+      bytesRead += value.length;
+
+      let bytes = value;
+      if (skipBytes > 0) {
+        const skipped = Math.min(skipBytes, bytes.length);
+        bytes = bytes.subarray(skipped);
+        skipBytes -= skipped;
+      }
+      const text = decoder.decode(bytes, { stream: true });
+
+      if (!parser) {
+        delimiter = delimiter || detectDelimiter(text);
+        parser = createRecordParser(delimiter, collector.onRecord, collector.onError);
+      }
+      parser.push(text);
+
+      options.onProgress?.(file.size > 0 ? bytesRead / file.size : 1);
+      await yieldToEventLoop();
+    }
+    const tail = decoder.decode();
+    if (!parser) {
+      delimiter = delimiter || detectDelimiter(tail);
+      parser = createRecordParser(delimiter, collector.onRecord, collector.onError);
+    }
+    parser.push(tail);
+    parser.end();
+  } finally {
+    reader.releaseLock();
+  }
+
+  return { ...finish(collector.result()), delimiter: delimiter || ',', encoding };
+};
+
+/**
+ * Parses a CSV file of any size. The encoding and delimiter are detected from the
+ * first bytes of the file unless a delimiter is given. Malformed records are kept
+ * where possible and reported in `errors` with their line number.
+ */
+export const parseCsvFile = async (file: Blob, options: CsvParseOptions = {}): Promise<CsvParseResult> => {
+  const head = new Uint8Array(await file.slice(0, 64 * 1024).arrayBuffer());
+  const { encoding, bomLength } = detectEncoding(head);
+  try {
+    return await parseStream(file, encoding, bomLength, options);
+  } catch (error) {
+    // Invalid UTF-8 past the detection sample: decode the whole file as Windows-1252 instead
+    if (encoding === 'utf-8' && error instanceof TypeError) {
+      return parseStream(file, 'windows-1252', 0, options);
+    }
+    throw error;
+  }
+};
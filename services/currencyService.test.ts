@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { parsePrice } from './currencyService';
+
+describe('parsePrice', () => {
+  it.each([
+    ['$1,299.00', 'en-US', 1299, 'USD'],
+    ['1.299,00 €', 'de-DE', 1299, 'EUR'],
+    ['₹1,29,999', 'en-IN', 129999, 'INR'],
+    ['EUR 12.50', 'en-US', 12.5, 'EUR'],
+    ['Rs. 499', 'en-US', 499, 'INR'],
+    ['Rs.1,299.50', 'en-IN', 1299.5, 'INR'],
+    ['-$5.00', 'en-US', -5, 'USD'],
+    ['($5.00)', 'en-US', -5, 'USD'],
+  ])('parses %s in %s', (text, locale, amount, currency) => {
+    expect(parsePrice(text, locale)).toEqual({ amount, currency });
+  });
+
+  it.each(['10-20', '$10 - $20', '10 to 20', '12.99–15.99 €', 'free', ''])('rejects %j', text => {
+    expect(parsePrice(text, 'en-US')).toBeNull();
+  });
+});
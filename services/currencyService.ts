@@ -0,0 +1,162 @@
+import type { ProductAnalysis, ValidationIssue } from '../types';
+
+// Currency settings, locale-aware price parsing and conversion of competitor
+// prices into our own currency using a user-supplied rate table.
+
+const SETTINGS_KEY = 'predictgenie.currencySettings';
+
+export interface CurrencySettings {
+  baseCurrency: string; // ISO 4217 code of the currency we sell in by default
+  locale: string; // BCP 47 locale used for parsing and display
+  rates: Record<string, number>; // Units of `baseCurrency` per one unit of each currency
+}
+
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'INR', 'CAD', 'AUD', 'JPY', 'CHF'];
+export const SUPPORTED_LOCALES = [
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'en-IN', label: 'English (India)' },
+  { code: 'de-DE', label: 'Deutsch' },
+  { code: 'fr-FR', label: 'Français' },
+  { code: 'es-ES', label: 'Español' },
+  { code: 'it-IT', label: 'Italiano' },
+  { code: 'nl-NL', label: 'Nederlands' },
+];
+
+const DEFAULT_SETTINGS: CurrencySettings = { baseCurrency: 'USD', locale: 'en-US', rates: {} };
+
+// Checked in order, so multi-character symbols come before "$"
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ['US$', 'USD'], ['C$', 'CAD'], ['A$', 'AUD'], ['CHF', 'CHF'], ['Rs.', 'INR'], ['Rs', 'INR'],
+  ['€', 'EUR'], ['£', 'GBP'], ['₹', 'INR'], ['¥', 'JPY'], ['$', 'USD'],
+];
+
+let cachedSettings: CurrencySettings | null = null;
+
+export const getCurrencySettings = (): CurrencySettings => {
+  if (!cachedSettings) {
+    try {
+      const stored = localStorage.getItem(SETTINGS_KEY);
+      cachedSettings = stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+    } catch {
+      cachedSettings = DEFAULT_SETTINGS;
+    }
+  }
+  return cachedSettings!;
+};
+
+export const saveCurrencySettings = (settings: CurrencySettings) => {
+  cachedSettings = settings;
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Could not save currency settings:', error);
+  }
+};
+
+export const isCurrencyCode = (value: unknown): value is string =>
+  typeof value === 'string' && /^[A-Za-z]{3}$/.test(value.trim());
+
+const localeDecimalSeparator = (locale: string): string =>
+  new Intl.NumberFormat(locale).formatToParts(1.1).find(part => part.type === 'decimal')?.value || '.';
+
+/**
+ * Parses a price such as "$1,299.00", "1.299,00 €", "₹1,29,999", "Rs. 499" or "EUR 12.50".
+ * When only one kind of separator appears, the locale decides whether it is the decimal
+ * separator, unless it is clearly grouping (repeated, or followed by exactly three digits
+ * while the locale uses the other separator). A price is negative only with a leading
+ * "-" or in parentheses. Returns null when no number is found or for ranges like "10-20".
+ */
+export const parsePrice = (text: string, locale = getCurrencySettings().locale): { amount: number; currency?: string } | null => {
+  const raw = text.trim();
+  if (!raw) return null;
+
+  // The currency is cut out before reading the number, so the "." of "Rs." isn't taken as a decimal point
+  let currency: string | undefined;
+  let rest = raw;
+  const code = raw.match(/\b([A-Z]{3})\b/);
+  if (code && SUPPORTED_CURRENCIES.includes(code[1])) {
+    currency = code[1];
+    rest = raw.replace(code[0], '');
+  } else {
+    const symbol = CURRENCY_SYMBOLS.find(([candidate]) => raw.includes(candidate));
+    currency = symbol?.[1];
+    if (symbol) rest = raw.replace(symbol[0], '');
+  }
+  rest = rest.trim();
+
+  const parenthesized = /^\(.*\)$/.test(rest);
+  const unsigned = parenthesized ? rest.slice(1, -1).trim() : rest.replace(/^-\s*/, '');
+  const negative = parenthesized || unsigned !== rest;
+  // A dash or "to" anywhere else means a range or other text, not one price
+  if (/[-\u2012-\u2015]|\d\s*to\s*\d/i.test(unsigned)) return null;
+  const numeric = unsigned.replace(/[^0-9.,]/g, '');
+  if (!/\d/.test(numeric)) return null;
+
+  const lastDot = numeric.lastIndexOf('.');
+  const lastComma = numeric.lastIndexOf(',');
+  let decimalSeparator: string | null = null;
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    decimalSeparator = lastDot > lastComma ? '.' : ',';
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? '.' : ',';
+    const occurrences = numeric.split(separator).length - 1;
+    const digitsAfter = numeric.length - numeric.lastIndexOf(separator) - 1;
+    const isGrouping = occurrences > 1 || (digitsAfter === 3 && separator !== localeDecimalSeparator(locale));
+    decimalSeparator = isGrouping ? null : separator;
+  }
+
+  let normalized = numeric.replace(/[.,]/g, '');
+  if (decimalSeparator) {
+    const cut = numeric.lastIndexOf(decimalSeparator);
+    normalized = `${numeric.slice(0, cut).replace(/[.,]/g, '')}.${numeric.slice(cut + 1)}`;
+  }
+  const amount = parseFloat(normalized);
+  if (!Number.isFinite(amount)) return null;
+  return { amount: negative ? -amount : amount, currency };
+};
+
+/** Converts between two currencies through the base currency. Returns null when a rate is missing. */
+export const convertAmount = (amount: number, from: string, to: string, settings = getCurrencySettings()): number | null => {
+  if (from === to) return amount;
+  const rateTo = (code: string) => (code === settings.baseCurrency ? 1 : settings.rates[code]);
+  const fromRate = rateTo(from);
+  const toRate = rateTo(to);
+  if (!fromRate || !toRate) return null;
+  return Math.round(((amount * fromRate) / toRate) * 100) / 100;
+};
+
+/**
+ * Converts every competitor price into the user product's currency. The original price
+ * and currency are kept on the competitor; missing rates are reported as warnings.
+ */
+export const normalizeCurrencies = (analysis: ProductAnalysis, settings = getCurrencySettings()): ProductAnalysis => {
+  const target = analysis.userProduct.currency || settings.baseCurrency;
+  const issues: ValidationIssue[] = [];
+
+  const competitors = analysis.competitors.map((competitor, index) => {
+    const source = competitor.currency || target;
+    if (source === target) {
+      return { ...competitor, currency: target };
+    }
+    const converted = convertAmount(competitor.price, source, target, settings);
+    if (converted === null) {
+      issues.push({
+        field: `competitors[${index}].price`,
+        message: `No exchange rate from ${source} to ${target}; the price is shown unconverted.`,
+        severity: 'warning',
+      });
+      return competitor;
+    }
+    return { ...competitor, price: converted, currency: target, originalPrice: competitor.price, originalCurrency: source };
+  });
+
+  const validationIssues = [...(analysis.validationIssues || []), ...issues];
+  return {
+    ...analysis,
+    userProduct: { ...analysis.userProduct, currency: target },
+    competitors,
+    ...(validationIssues.length > 0 ? { validationIssues } : {}),
+  };
+};
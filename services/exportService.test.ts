@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import type { ProductAnalysis } from '../types';
+import { parseJsonExport, parseProjectExport, projectToJson, toJson, toPriceUpdateCsv } from './exportService';
+import { BUILTIN_TEMPLATES, DEFAULT_ANALYSIS_SETTINGS } from './promptTemplates';
+import { DEFAULT_PRICING_RULES } from './pricingEngine';
+import { validateProductAnalysis } from './validationService';
+
+// A competitor without a URL is repaired, and re-validated on every import
+const { analysis } = validateProductAnalysis({
+  userProduct: { productName: '=HYPERLINK("https://evil.example")', currentPrice: 40 },
+  competitors: [{ productName: 'Kettle', price: 38, stockStatus: 'In Stock', priceTrend: 'stable' }],
+  suggestedPrice: 39,
+  reasoning: 'Reasons.',
+  marketSummary: 'Summary.',
+});
+const result = analysis as ProductAnalysis;
+
+describe('JSON export round trip', () => {
+  it('keeps each repaired issue once however often a file is re-imported', () => {
+    const once = parseJsonExport(toJson([result]));
+    const twice = parseJsonExport(toJson(once.results));
+    expect(result.validationIssues).toHaveLength(1);
+    expect(twice.results[0].validationIssues).toEqual(result.validationIssues);
+  });
+
+  it('validates failed rows and drops malformed ones', () => {
+    const file = JSON.parse(toJson([result]));
+    file.failures = [
+      { index: 2, productName: 'Lamp', reason: 'No analysis was returned for this product.', issues: [{ field: 'x', message: 'y', severity: 'bad' }], extra: true },
+      { index: -1, productName: 'Broken', reason: 'x', issues: [] },
+      { productName: 'No index', reason: 'x' },
+      'failure',
+    ];
+    expect(parseJsonExport(JSON.stringify(file)).failures).toEqual([
+      { index: 2, productName: 'Lamp', reason: 'No analysis was returned for this product.', issues: [] },
+    ]);
+  });
+});
+
+describe('project import', () => {
+  const kettle = { productName: 'Kettle', currentPrice: 40, userProductUrl: 'https://shop.example/kettle', competitorUrls: ['https://other.example/kettle'] };
+  const project = projectToJson({
+    project: { id: 'p1', name: 'Kitchen', createdAt: '2025-01-01T00:00:00.000Z', products: [kettle], csvMappings: {} },
+    pricingRules: DEFAULT_PRICING_RULES,
+    analysisSettings: DEFAULT_ANALYSIS_SETTINGS,
+    promptTemplates: [],
+    competitorStores: [],
+    runs: [{ id: 'r1', createdAt: '2025-01-02T00:00:00.000Z', mode: 'batch', results: [result], failures: [] }],
+  });
+  const withFields = (fields: Record<string, unknown>) => parseProjectExport(JSON.stringify({ ...JSON.parse(project), ...fields }));
+
+  it('round-trips a well-formed project', () => {
+    const data = parseProjectExport(project);
+    expect(data.project.products).toEqual([kettle]);
+    expect(data.runs).toHaveLength(1);
+    expect(data.runs[0].results[0].userProduct).toEqual(result.userProduct);
+  });
+
+  it('drops malformed products and fills in malformed CSV mappings', () => {
+    const data = withFields({
+      project: {
+        name: 'Kitchen',
+        products: [kettle, { productName: 'No price' }, { ...kettle, currentPrice: -5 }, { ...kettle, competitorUrls: 'https://other.example' }, 'product'],
+        csvMappings: { 'name|price': { productName: 'name', currentPrice: 'price' }, broken: 'mapping' },
+      },
+    });
+    expect(data.project.products).toEqual([kettle, { ...kettle, competitorUrls: [] }]);
+    expect(data.project.csvMappings).toEqual({
+      'name|price': {
+        productName: 'name', currentPrice: 'price', userProductUrl: '', currency: '', competitorUrls: [],
+        identifiers: { sku: '', gtin: '', mpn: '' },
+        constraints: { cost: '', minMarginPct: '', floorPrice: '', ceilingPrice: '', mapPrice: '' },
+      },
+    });
+  });
+
+  it('drops stores without a usable domain and rebuilds the rest', () => {
+    const data = withFields({
+      competitorStores: [
+        { id: 's1', name: 'Other', domain: 'www.Other.example', trustWeight: 3, shippingCost: 'free' },
+        { id: 's2', name: 'No domain', trustWeight: 1, productUrls: {} },
+        { id: 's3', name: 'Duplicate', domain: 'other.example', trustWeight: 1 },
+        { id: 's4', domain: 'localhost' },
+      ],
+    });
+    expect(data.competitorStores).toEqual([{ id: 's1', name: 'Other', domain: 'other.example', trustWeight: 1, productUrls: {} }]);
+  });
+
+  it('falls back to the defaults for settings the server would refuse', () => {
+    const data = withFields({
+      pricingRules: { strategy: 'guess', adjustmentPct: -2, excludeOutOfStock: 'yes' },
+      analysisSettings: { strategy: 'loud', model: 'gpt-4', temperature: 5, templateVersion: 2 },
+      promptTemplates: [
+        { version: 1, createdAt: '2025-01-01T00:00:00.000Z', ...BUILTIN_TEMPLATES },
+        { version: 2, createdAt: '2025-01-01T00:00:00.000Z', single: 'Price it.', batch: BUILTIN_TEMPLATES.batch },
+      ],
+    });
+    expect(data.pricingRules).toEqual({ ...DEFAULT_PRICING_RULES, adjustmentPct: -2 });
+    expect(data.analysisSettings).toEqual(DEFAULT_ANALYSIS_SETTINGS);
+    expect(data.promptTemplates.map(template => template.version)).toEqual([1]);
+  });
+});
+
+describe('CSV export', () => {
+  it('prefixes cells a spreadsheet would run as formulas, but not plain negative numbers', () => {
+    const csv = toPriceUpdateCsv([{ ...result, review: { decision: 'overridden', price: 35, note: '-10% vs. last week', decidedAt: '2025-01-01' } }]);
+    const row = csv.split('\r\n')[1];
+    expect(row.startsWith(`"'=HYPERLINK(""https://evil.example"")"`)).toBe(true);
+    expect(row).toContain(",'-10% vs. last week,");
+  });
+});
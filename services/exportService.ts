@@ -0,0 +1,417 @@
+import type {
+  AnalysisResult,
+  AnalysisFailure,
+  AnalysisSettings,
+  CompetitorStore,
+  CsvFieldMapping,
+  CsvProduct,
+  PricingConstraints,
+  PricingRuleConfig,
+  ProductAnalysis,
+  ProductIdentifiers,
+  PromptTemplateVersion,
+  SingleProductInput,
+} from '../types';
+import { validateFailures, validateProductAnalysis } from './validationService';
+import { aiVsRuleDifference, DEFAULT_PRICING_RULES, PRICING_STRATEGIES } from './pricingEngine';
+import { ANALYSIS_MODELS, BUILTIN_TEMPLATE_VERSION, DEFAULT_ANALYSIS_SETTINGS, isAnalysisStrategy, TEMPERATURE_RANGE, templateProblems } from './promptTemplates';
+import { CONSTRAINT_FIELDS, sanitizeConstraints } from './guardrailService';
+import { DEFAULT_TRUST_WEIGHT } from './competitorRegistry';
+import { isCurrencyCode } from './currencyService';
+import { batchProductProblem } from './requestLimits';
+import type { AnalysisRun } from './historyService';
+import type { Project } from './projectService';
+import { urlDomain } from '../utils/url';
+
+// Exports analysis runs as a flat CSV (one row per product) or as lossless JSON
+// that can be imported again to view the run. Whole projects export as JSON too.
+
+const EXPORT_FORMAT = 'predictgenie.analysis';
+const EXPORT_VERSION = 1;
+const PROJECT_EXPORT_FORMAT = 'predictgenie.project';
+const PROJECT_EXPORT_VERSION = 1;
+
+export interface AnalysisExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  results: AnalysisResult;
+  failures: AnalysisFailure[];
+}
+
+// Everything a project owns: its inputs and mappings, settings, registry and history
+export interface ProjectExport {
+  format: typeof PROJECT_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: Project;
+  pricingRules: PricingRuleConfig;
+  analysisSettings: AnalysisSettings;
+  promptTemplates: PromptTemplateVersion[]; // Saved versions; the built-in one isn't included
+  competitorStores: CompetitorStore[];
+  runs: AnalysisRun[];
+}
+
+// Spreadsheets run cells starting with these as formulas. Plain numbers such as "-4.50" are safe.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+// RFC 4180: quote fields containing the delimiter, quotes or line breaks; double embedded quotes.
+// Scraped names and AI text could start with a formula, so such cells get a leading apostrophe.
+const escapeCsvField = (value: string | number | undefined): string => {
+  let text = value === undefined || value === null ? '' : String(value);
+  if (FORMULA_PREFIX.test(text) && !PLAIN_NUMBER.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const priceChangePct = (analysis: ProductAnalysis): number => {
+  const current = analysis.userProduct.currentPrice;
+  return current === 0 ? 0 : ((analysis.suggestedPrice - current) / current) * 100;
+};
+
+/**
+ * Flattens the results into CSV rows. Competitors become numbered column groups
+ * (competitor_1_name, competitor_1_price, ...) sized to the product with the most competitors.
+ * `excel` adds a UTF-8 BOM so Excel detects the encoding and opens the file directly.
+ */
+export const toCsv = (results: AnalysisResult, { excel = false } = {}): string => {
+  const maxCompetitors = results.reduce((max, r) => Math.max(max, r.competitors.length), 0);
+  const competitorHeaders = Array.from({ length: maxCompetitors }, (_, i) => {
+    const prefix = `competitor_${i + 1}`;
+    return [
+      `${prefix}_name`, `${prefix}_url`, `${prefix}_price`, `${prefix}_currency`, `${prefix}_stockStatus`, `${prefix}_priceTrend`,
+      `${prefix}_priceOrigin`, `${prefix}_priceConfidence`, `${prefix}_priceSource`, `${prefix}_gtin`, `${prefix}_match`, `${prefix}_matchScore`,
+    ];
+  }).flat();
+
+  const headers = [
+    'productName', 'userProductUrl', 'sku', 'gtin', 'mpn', 'currentPrice', 'suggestedPrice', 'currency', 'changePct',
+    'aiSuggestedPrice', 'marginPct', 'guardrails', 'rulePrice', 'ruleStrategy', 'aiSuggestedVsRuleDiff',
+    'analysisStrategy', 'model', 'temperature', 'templateVersion',
+    'reviewDecision', 'reviewPrice', 'reviewNote', 'reasoning', 'marketSummary', 'sources', ...competitorHeaders,
+  ];
+
+  const rows = results.map(r => {
+    const competitorCells = Array.from({ length: maxCompetitors }, (_, i) => {
+      const c = r.competitors[i];
+      if (!c) return new Array(12).fill('');
+      const price = c.provenance?.price;
+      return [
+        c.productName, c.url, c.price, c.currency || '', c.stockStatus, c.priceTrend,
+        price?.origin || 'estimated', price ? price.confidence.toFixed(2) : '', price?.sourceUrl || '',
+        c.gtin || '', c.match?.verdict || '', c.match ? c.match.score.toFixed(2) : '',
+      ];
+    }).flat();
+    return [
+      r.userProduct.productName,
+      r.userProduct.url || '',
+      r.userProduct.sku || '',
+      r.userProduct.gtin || '',
+      r.userProduct.mpn || '',
+      r.userProduct.currentPrice,
+      r.suggestedPrice,
+      r.userProduct.currency || '',
+      priceChangePct(r).toFixed(2),
+      r.guardrails ? r.guardrails.aiSuggestedPrice : '',
+      r.guardrails?.marginPct !== undefined ? r.guardrails.marginPct.toFixed(2) : '',
+      (r.guardrails?.violations || []).map(v => v.message).join(' | '),
+      r.ruleBasedPrice ? r.ruleBasedPrice.price : '',
+      r.ruleBasedPrice ? r.ruleBasedPrice.config.strategy : '',
+      aiVsRuleDifference(r)?.amount ?? '',
+      r.settings?.strategy || '',
+      r.settings?.model || '',
+      r.settings?.temperature ?? '',
+      r.settings?.templateVersion ?? '',
+      r.review?.decision || 'pending',
+      r.review?.price ?? '',
+      r.review?.note || '',
+      r.reasoning,
+      r.marketSummary,
+      (r.sources || []).map(s => s.web.uri).join(' | '),
+      ...competitorCells,
+    ];
+  });
+
+  const csv = [headers, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+  return excel ? `\uFEFF${csv}` : csv;
+};
+
+/**
+ * The decision log as a file a store can import: one row per accepted or overridden
+ * result with the old and new price. Pending and rejected results are left out.
+ */
+export const toPriceUpdateCsv = (results: AnalysisResult): string => {
+  const headers = ['productName', 'sku', 'userProductUrl', 'currency', 'oldPrice', 'newPrice', 'decision', 'note', 'decidedAt'];
+  const rows = results
+    .filter(r => r.review && r.review.decision !== 'rejected' && r.review.price !== undefined)
+    .map(r => [
+      r.userProduct.productName,
+      r.userProduct.sku || '',
+      r.userProduct.url || '',
+      r.userProduct.currency || '',
+      r.userProduct.currentPrice,
+      r.review!.price,
+      r.review!.decision,
+      r.review!.note || '',
+      r.review!.decidedAt,
+    ]);
+  return [headers, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+};
+
+export const toJson = (results: AnalysisResult, failures: AnalysisFailure[] = []): string => {
+  const payload: AnalysisExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    results,
+    failures,
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+/**
+ * Reads a file produced by `toJson`. Every result is re-validated so a hand-edited
+ * file cannot put malformed data in front of the UI.
+ */
+export const parseJsonExport = (text: string): AnalysisExport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const data = parsed as Partial<AnalysisExport>;
+  if (!data || data.format !== EXPORT_FORMAT || !Array.isArray(data.results)) {
+    throw new Error('This file is not a PredictGenie analysis export.');
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${data.version}. Please update PredictGenie.`);
+  }
+
+  const results: AnalysisResult = [];
+  data.results.forEach((item, index) => {
+    const { analysis, issues } = validateProductAnalysis(item);
+    if (!analysis) {
+      throw new Error(`Result ${index + 1} in the export is invalid: ${issues.map(i => i.message).join(' ')}`);
+    }
+    results.push(analysis);
+  });
+
+  return {
+    format: EXPORT_FORMAT,
+    version: data.version,
+    exportedAt: data.exportedAt || '',
+    results,
+    failures: validateFailures(data.failures),
+  };
+};
+
+export const exportFilename = (extension: string, date = new Date()) =>
+  `predictgenie-analysis-${date.toISOString().slice(0, 19).replace(/[:T]/g, '-')}.${extension}`;
+
+export const projectToJson = (contents: Omit<ProjectExport, 'format' | 'version' | 'exportedAt'>): string => {
+  const payload: ProjectExport = { format: PROJECT_EXPORT_FORMAT, version: PROJECT_EXPORT_VERSION, exportedAt: new Date().toISOString(), ...contents };
+  return JSON.stringify(payload, null, 2);
+};
+
+// Project files can be edited by hand, and whatever they hold is stored and used by later
+// runs. Each reader below rebuilds its value from known fields: invalid entries are dropped
+// and invalid settings fall back to the defaults.
+
+const IDENTIFIER_FIELDS: (keyof ProductIdentifiers)[] = ['sku', 'gtin', 'mpn'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringOr = (value: unknown, fallback = ''): string => (typeof value === 'string' ? value : fallback);
+
+const nonNegativeNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+const readIdentifiers = (raw: Record<string, unknown>): ProductIdentifiers => {
+  const identifiers: ProductIdentifiers = {};
+  IDENTIFIER_FIELDS.forEach(key => {
+    if (typeof raw[key] === 'string' && raw[key].trim()) identifiers[key] = raw[key].trim();
+  });
+  return identifiers;
+};
+
+// A product the batch runner can send as it is; rows the server would reject are dropped
+const readProduct = (raw: unknown): CsvProduct | null => {
+  if (!isRecord(raw) || typeof raw.productName !== 'string' || typeof raw.currentPrice !== 'number') return null;
+  const product: CsvProduct = {
+    productName: raw.productName,
+    currentPrice: raw.currentPrice,
+    userProductUrl: stringOr(raw.userProductUrl).trim(),
+    competitorUrls: stringList(raw.competitorUrls).map(url => url.trim()),
+    ...readIdentifiers(raw),
+  };
+  if (isCurrencyCode(raw.currency)) product.currency = raw.currency.trim().toUpperCase();
+  const constraints = sanitizeConstraints(raw.constraints);
+  if (constraints) product.constraints = constraints;
+  return batchProductProblem(product) === null ? product : null;
+};
+
+const readUrlInput = (raw: unknown): SingleProductInput | undefined => {
+  if (!isRecord(raw) || typeof raw.userProductUrl !== 'string') return undefined;
+  const input: SingleProductInput = { userProductUrl: raw.userProductUrl, competitorUrls: stringList(raw.competitorUrls) };
+  if (isCurrencyCode(raw.currency)) input.currency = raw.currency.trim().toUpperCase();
+  const constraints = sanitizeConstraints(raw.constraints);
+  if (constraints) input.constraints = constraints;
+  if (raw.findCompetitors === true) input.findCompetitors = true;
+  return input;
+};
+
+// Unmapped or unknown columns become "", as in a fresh mapping
+const readCsvMapping = (raw: unknown): CsvFieldMapping | null => {
+  if (!isRecord(raw)) return null;
+  const identifiers = isRecord(raw.identifiers) ? raw.identifiers : {};
+  const constraints = isRecord(raw.constraints) ? raw.constraints : {};
+  return {
+    productName: stringOr(raw.productName),
+    currentPrice: stringOr(raw.currentPrice),
+    userProductUrl: stringOr(raw.userProductUrl),
+    currency: stringOr(raw.currency),
+    competitorUrls: stringList(raw.competitorUrls),
+    identifiers: Object.fromEntries(IDENTIFIER_FIELDS.map(key => [key, stringOr(identifiers[key])])) as CsvFieldMapping['identifiers'],
+    constraints: Object.fromEntries(CONSTRAINT_FIELDS.map(key => [key, stringOr(constraints[key])])) as Record<keyof PricingConstraints, string>,
+  };
+};
+
+const readCsvMappings = (raw: unknown): Record<string, CsvFieldMapping> => {
+  if (!isRecord(raw)) return {};
+  return Object.fromEntries(Object.entries(raw).flatMap(([layout, mapping]) => {
+    const read = readCsvMapping(mapping);
+    return read ? [[layout, read]] : [];
+  }));
+};
+
+const readPricingRules = (raw: unknown): PricingRuleConfig => {
+  const source = isRecord(raw) ? raw : {};
+  const strategy = PRICING_STRATEGIES.find(s => s.id === source.strategy)?.id;
+  return {
+    strategy: strategy || DEFAULT_PRICING_RULES.strategy,
+    adjustmentPct: typeof source.adjustmentPct === 'number' && Number.isFinite(source.adjustmentPct) ? source.adjustmentPct : DEFAULT_PRICING_RULES.adjustmentPct,
+    excludeOutOfStock: typeof source.excludeOutOfStock === 'boolean' ? source.excludeOutOfStock : DEFAULT_PRICING_RULES.excludeOutOfStock,
+  };
+};
+
+const readTemplateVersions = (raw: unknown): PromptTemplateVersion[] =>
+  Array.isArray(raw)
+    ? raw.flatMap(template => {
+      if (!isRecord(template) || typeof template.single !== 'string' || typeof template.batch !== 'string') return [];
+      // The server refuses templates with these problems, so a selected one would fail every analysis
+      if (templateProblems({ single: template.single, batch: template.batch }).length > 0) return [];
+      const { version } = template;
+      if (typeof version !== 'number' || !Number.isInteger(version) || version <= BUILTIN_TEMPLATE_VERSION) return [];
+      const read: PromptTemplateVersion = { version, createdAt: stringOr(template.createdAt), single: template.single, batch: template.batch };
+      if (typeof template.note === 'string' && template.note.trim()) read.note = template.note.trim();
+      return [read];
+    })
+    : [];
+
+// The same values the server accepts; the template version must be one the file brings along
+const readAnalysisSettings = (raw: unknown, templates: PromptTemplateVersion[]): AnalysisSettings => {
+  const source = isRecord(raw) ? raw : {};
+  const { temperature, templateVersion } = source;
+  return {
+    strategy: isAnalysisStrategy(source.strategy) ? source.strategy : DEFAULT_ANALYSIS_SETTINGS.strategy,
+    model: typeof source.model === 'string' && ANALYSIS_MODELS.includes(source.model) ? source.model : DEFAULT_ANALYSIS_SETTINGS.model,
+    temperature: typeof temperature === 'number' && temperature >= TEMPERATURE_RANGE.min && temperature <= TEMPERATURE_RANGE.max
+      ? temperature
+      : DEFAULT_ANALYSIS_SETTINGS.temperature,
+    templateVersion: templates.some(template => template.version === templateVersion) ? templateVersion as number : BUILTIN_TEMPLATE_VERSION,
+  };
+};
+
+// Stores need a usable domain; the first store wins when two claim the same one
+const readCompetitorStores = (raw: unknown): CompetitorStore[] => {
+  if (!Array.isArray(raw)) return [];
+  const stores: CompetitorStore[] = [];
+  raw.forEach(store => {
+    if (!isRecord(store) || typeof store.id !== 'string' || !store.id || typeof store.domain !== 'string') return;
+    const domain = urlDomain(store.domain);
+    if (!domain.includes('.') || stores.some(s => s.domain === domain || s.id === store.id)) return;
+    const trustWeight = nonNegativeNumber(store.trustWeight);
+    const read: CompetitorStore = {
+      id: store.id,
+      name: stringOr(store.name).trim() || domain,
+      domain,
+      trustWeight: trustWeight === undefined ? DEFAULT_TRUST_WEIGHT : Math.min(1, trustWeight),
+      productUrls: isRecord(store.productUrls)
+        ? Object.fromEntries(Object.entries(store.productUrls).filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].trim() !== ''))
+        : {},
+    };
+    const shippingCost = nonNegativeNumber(store.shippingCost);
+    const taxRatePct = nonNegativeNumber(store.taxRatePct);
+    if (typeof store.region === 'string' && store.region.trim()) read.region = store.region.trim();
+    if (shippingCost !== undefined) read.shippingCost = shippingCost;
+    if (store.taxExcluded === true) read.taxExcluded = true;
+    if (taxRatePct !== undefined) read.taxRatePct = taxRatePct;
+    stores.push(read);
+  });
+  return stores;
+};
+
+const readRuns = (raw: unknown): AnalysisRun[] =>
+  Array.isArray(raw)
+    ? raw.flatMap(run => {
+      if (!isRecord(run) || typeof run.id !== 'string' || typeof run.createdAt !== 'string' || !Array.isArray(run.results)) return [];
+      return [{
+        id: run.id,
+        createdAt: run.createdAt,
+        mode: run.mode === 'single' ? 'single' as const : 'batch' as const,
+        results: run.results.map(item => validateProductAnalysis(item).analysis).filter((a): a is ProductAnalysis => a !== null),
+        failures: validateFailures(run.failures),
+      }];
+    })
+    : [];
+
+/**
+ * Reads a file produced by `projectToJson`. Run results are re-validated like those
+ * of an analysis export, and every other field is rebuilt by the readers above.
+ */
+export const parseProjectExport = (text: string): ProjectExport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isRecord(parsed) || parsed.format !== PROJECT_EXPORT_FORMAT || !isRecord(parsed.project) || typeof parsed.project.name !== 'string') {
+    throw new Error('This file is not a PredictGenie project export.');
+  }
+  const { project: rawProject, version } = parsed;
+  if (typeof version !== 'number' || version > PROJECT_EXPORT_VERSION) {
+    throw new Error(`Unsupported project export version ${version}. Please update PredictGenie.`);
+  }
+
+  const project: Project = {
+    id: stringOr(rawProject.id),
+    name: stringOr(rawProject.name),
+    createdAt: stringOr(rawProject.createdAt),
+    products: Array.isArray(rawProject.products) ? rawProject.products.flatMap(product => readProduct(product) || []) : [],
+    csvMappings: readCsvMappings(rawProject.csvMappings),
+  };
+  const urlInput = readUrlInput(rawProject.urlInput);
+  if (urlInput) project.urlInput = urlInput;
+  const promptTemplates = readTemplateVersions(parsed.promptTemplates);
+
+  return {
+    format: PROJECT_EXPORT_FORMAT,
+    version,
+    exportedAt: stringOr(parsed.exportedAt),
+    project,
+    pricingRules: readPricingRules(parsed.pricingRules),
+    analysisSettings: readAnalysisSettings(parsed.analysisSettings, promptTemplates),
+    promptTemplates,
+    competitorStores: readCompetitorStores(parsed.competitorStores),
+    runs: readRuns(parsed.runs),
+  };
+};
+
+export const projectExportFilename = (projectName: string, date = new Date()) =>
+  `predictgenie-project-${projectName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project'}-${date.toISOString().slice(0, 10)}.json`;
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { parseProductFeed } from './feedParser';
+
+const merchantFeed = (items: string) => `<?xml version="1.0"?>
+<rss xmlns:g="http://base.google.com/ns/1.0" version="2.0"><channel>${items}</channel></rss>`;
+
+describe('parseProductFeed', () => {
+  it('reads Merchant Center XML items with entities and CDATA', () => {
+    const result = parseProductFeed(merchantFeed(`
+      <item><g:id>K-1</g:id><title>Kettle &amp; Cups &#x2013; 1.7&#160;l</title><g:price>15.00 USD</g:price><link>https://shop.example/kettle</link><g:gtin>4006381333931</g:gtin></item>
+      <item><g:id>M-2</g:id><title><![CDATA[Mug <Blue> &amp;]]></title><g:price>4.50 USD</g:price><g:sale_price>3.99 USD</g:sale_price></item>`));
+    expect(result.errors).toEqual([]);
+    expect(result.products).toEqual([
+      { productName: 'Kettle & Cups – 1.7 l', currentPrice: 15, userProductUrl: 'https://shop.example/kettle', competitorUrls: [], currency: 'USD', sku: 'K-1', gtin: '4006381333931' },
+      { productName: 'Mug <Blue> &amp;', currentPrice: 3.99, userProductUrl: '', competitorUrls: [], currency: 'USD', sku: 'M-2' },
+    ]);
+  });
+
+  it('keeps character references beyond U+10FFFF instead of rejecting the feed', () => {
+    const result = parseProductFeed(merchantFeed('<item><g:id>L-3</g:id><title>Lamp &#99999999;</title><g:price>20.00 USD</g:price></item>'));
+    expect(result.products.map(product => product.productName)).toEqual(['Lamp &#99999999;']);
+  });
+});
@@ -0,0 +1,179 @@
+import type { CsvProduct } from '../types';
+import { parsePrice } from './currencyService';
+import { parseCsvText } from './csvParser';
+import { decodeEntities } from '../utils/entities';
+
+// Reads store product feeds straight into CsvProducts, so a whole catalogue can be
+// analyzed without building a CSV: Google Merchant Center feeds (RSS/Atom XML or TSV)
+// and Shopify products JSON (the storefront /products.json or an Admin API export).
+// Feeds carry no competitor URLs; those are found by web search during analysis.
+
+export type FeedFormat = 'merchant-xml' | 'merchant-tsv' | 'shopify-json';
+
+export const FEED_FORMAT_LABELS: Record<FeedFormat, string> = {
+  'merchant-xml': 'Google Merchant Center XML feed',
+  'merchant-tsv': 'Google Merchant Center TSV feed',
+  'shopify-json': 'Shopify products JSON',
+};
+
+export interface FeedParseOptions {
+  storeUrl?: string; // Shopify exports have product handles but no domain; links are built from this
+  currency?: string; // For prices that don't state one, which is every Shopify price
+}
+
+export interface FeedParseResult {
+  format: FeedFormat;
+  products: CsvProduct[];
+  errors: string[]; // One message per skipped item
+}
+
+// A Merchant Center item, with attribute names stripped of the "g:" prefix
+type FeedItem = Record<string, string>;
+
+const decodeXmlText = (text: string): string => {
+  const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  return cdata ? cdata[1].trim() : decodeEntities(text).trim();
+};
+
+// Merchant feeds are flat: each <item>/<entry> holds simple elements, nothing nested that matters here
+const readXmlItems = (xml: string): FeedItem[] => {
+  const items: FeedItem[] = [];
+  const itemPattern = /<(item|entry)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = itemPattern.exec(xml))) {
+    const item: FeedItem = {};
+    const fieldPattern = /<([a-z_:][\w:.-]*)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/gi;
+    let field: RegExpExecArray | null;
+    while ((field = fieldPattern.exec(match[2]))) {
+      const name = field[1].toLowerCase().replace(/^g:/, '');
+      // Atom links keep the URL in href
+      const value = decodeXmlText(field[3] ?? field[2].match(/\bhref\s*=\s*["']([^"']*)["']/i)?.[1] ?? '');
+      if (value && item[name] === undefined) item[name] = value;
+    }
+    items.push(item);
+  }
+  return items;
+};
+
+const readTsvItems = (text: string): FeedItem[] => {
+  const { headers, data } = parseCsvText(text, '\t');
+  const names = headers.map(header => header.trim().toLowerCase().replace(/^g:/, ''));
+  return data.map(row => {
+    const item: FeedItem = {};
+    headers.forEach((header, i) => {
+      if (row[header]) item[names[i]] = row[header].trim();
+    });
+    return item;
+  });
+};
+
+// Merchant prices are "15.00 USD"; an effective sale price is what shoppers pay
+const merchantProduct = (item: FeedItem, position: number, fallbackCurrency: string | undefined, errors: string[]): CsvProduct | null => {
+  const label = item.id ? `Item ${item.id}` : `Item ${position}`;
+  const productName = item.title;
+  if (!productName) {
+    errors.push(`${label}: title is missing.`);
+    return null;
+  }
+  const price = parsePrice(item.sale_price || item.price || '', 'en-US');
+  if (!price || price.amount <= 0) {
+    errors.push(`${label}: invalid price "${item.sale_price || item.price || ''}".`);
+    return null;
+  }
+  // parsePrice only recognizes the currencies we support; the feed's code is kept either way
+  const currency = price.currency || (item.sale_price || item.price).match(/\b([A-Z]{3})\b/)?.[1] || fallbackCurrency;
+  return {
+    productName,
+    currentPrice: price.amount,
+    userProductUrl: item.link || '',
+    competitorUrls: [],
+    ...(currency ? { currency } : {}),
+    // Merchant Center's id is the merchant's own product code
+    ...(item.id ? { sku: item.id } : {}),
+    ...(item.gtin ? { gtin: item.gtin } : {}),
+    ...(item.mpn ? { mpn: item.mpn } : {}),
+  };
+};
+
+interface ShopifyVariant {
+  title?: string;
+  price?: string | number;
+  sku?: string | null;
+  barcode?: string | null;
+}
+
+interface ShopifyProduct {
+  title?: string;
+  handle?: string;
+  variants?: ShopifyVariant[];
+}
+
+// Every variant is priced on its own, so each one becomes a product
+const shopifyProducts = (data: unknown, { storeUrl, currency }: FeedParseOptions, errors: string[]): CsvProduct[] => {
+  const record = (data || {}) as { products?: ShopifyProduct[]; product?: ShopifyProduct };
+  const list = Array.isArray(record.products) ? record.products : record.product ? [record.product] : Array.isArray(data) ? (data as ShopifyProduct[]) : null;
+  if (!list) throw new Error('The JSON file has no "products" list. Export it from Shopify as products JSON.');
+
+  const base = storeUrl ? storeUrl.trim().replace(/\/+$/, '') : '';
+  const products: CsvProduct[] = [];
+  list.forEach((product, index) => {
+    const label = product.title || product.handle || `Product ${index + 1}`;
+    if (!product.title) {
+      errors.push(`${label}: title is missing.`);
+      return;
+    }
+    const variants = Array.isArray(product.variants) ? product.variants : [];
+    if (variants.length === 0) errors.push(`${label}: has no variants with a price.`);
+    variants.forEach(variant => {
+      const amount = typeof variant.price === 'number' ? variant.price : parseFloat(variant.price || '');
+      const name = variant.title && variant.title !== 'Default Title' ? `${product.title} - ${variant.title}` : product.title!;
+      if (!Number.isFinite(amount) || amount <= 0) {
+        errors.push(`${name}: invalid price "${variant.price ?? ''}".`);
+        return;
+      }
+      products.push({
+        productName: name,
+        currentPrice: amount,
+        userProductUrl: base && product.handle ? `${base}/products/${product.handle}` : '',
+        competitorUrls: [],
+        ...(currency ? { currency } : {}),
+        ...(variant.sku ? { sku: variant.sku } : {}),
+        ...(variant.barcode ? { gtin: variant.barcode } : {}),
+      });
+    });
+  });
+  return products;
+};
+
+export const detectFeedFormat = (text: string): FeedFormat => {
+  const start = text.replace(/^\uFEFF/, '').trimStart();
+  if (start.startsWith('<')) return 'merchant-xml';
+  if (start.startsWith('{') || start.startsWith('[')) return 'shopify-json';
+  return 'merchant-tsv';
+};
+
+/** Parses a feed of any supported format. Items that can't be used are skipped and reported in `errors`. */
+export const parseProductFeed = (text: string, options: FeedParseOptions = {}): FeedParseResult => {
+  const format = detectFeedFormat(text);
+  const errors: string[] = [];
+  let products: CsvProduct[];
+
+  if (format === 'shopify-json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(text.replace(/^\uFEFF/, ''));
+    } catch {
+      throw new Error('The file is not valid JSON.');
+    }
+    products = shopifyProducts(data, options, errors);
+  } else {
+    const items = format === 'merchant-xml' ? readXmlItems(text) : readTsvItems(text);
+    if (items.length === 0) {
+      throw new Error(format === 'merchant-xml' ? 'No <item> or <entry> elements found in the XML feed.' : 'The TSV feed has no product rows.');
+    }
+    products = items
+      .map((item, index) => merchantProduct(item, index + 1, options.currency, errors))
+      .filter((product): product is CsvProduct => product !== null);
+  }
+  return { format, products, errors };
+};
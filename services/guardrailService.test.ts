@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { PricingConstraints, ProductAnalysis } from '../types';
+import { applyGuardrails, parseConstraints, priceViolations, sanitizeConstraints } from './guardrailService';
+
+const analysis = (suggestedPrice: number): ProductAnalysis => ({
+  userProduct: { productName: 'Kettle', currentPrice: 40 },
+  competitors: [],
+  suggestedPrice,
+  reasoning: 'Reasons.',
+  marketSummary: 'Summary.',
+});
+
+describe('applyGuardrails', () => {
+  it('leaves analyses without constraints untouched', () => {
+    const original = analysis(30);
+    expect(applyGuardrails(original)).toBe(original);
+    expect(applyGuardrails(original, {})).toBe(original);
+  });
+
+  it.each<[string, PricingConstraints, number, number, string]>([
+    ['the floor', { floorPrice: 35 }, 30, 35, 'floor'],
+    ['the MAP', { mapPrice: 36 }, 30, 36, 'map'],
+    ['the minimum margin', { cost: 30, minMarginPct: 25 }, 35, 40, 'minMargin'],
+    ['the highest lower bound', { floorPrice: 35, mapPrice: 38, cost: 30, minMarginPct: 20 }, 30, 38, 'map'],
+    ['the ceiling', { ceilingPrice: 45 }, 50, 45, 'ceiling'],
+  ])('clamps to %s', (_, constraints, suggested, expected, rule) => {
+    const result = applyGuardrails(analysis(suggested), constraints);
+    expect(result.suggestedPrice).toBe(expected);
+    expect(result.guardrails).toMatchObject({ aiSuggestedPrice: suggested, violations: [{ rule, action: 'clamped' }] });
+    expect(result.userProduct.constraints).toEqual(constraints);
+  });
+
+  it('keeps prices within the bounds and reports the margin', () => {
+    const result = applyGuardrails(analysis(50), { cost: 30, floorPrice: 35, ceilingPrice: 60 });
+    expect(result.suggestedPrice).toBe(50);
+    expect(result.guardrails).toEqual({ aiSuggestedPrice: 50, margin: 20, marginPct: 40, violations: [] });
+  });
+
+  it('flags a ceiling below the lower bound instead of clamping', () => {
+    const result = applyGuardrails(analysis(50), { floorPrice: 40, ceilingPrice: 35 });
+    expect(result.suggestedPrice).toBe(50);
+    expect(result.guardrails?.violations).toEqual([{
+      rule: 'conflict',
+      message: 'The ceiling price of 35.00 is below the floor price of 40.00; the suggestion was not adjusted.',
+      action: 'flagged',
+    }]);
+  });
+
+  it('flags an unachievable margin and keeps clamping to the other bounds', () => {
+    const result = applyGuardrails(analysis(20), { cost: 30, minMarginPct: 100, floorPrice: 25 });
+    expect(result.suggestedPrice).toBe(25);
+    expect(result.guardrails?.violations.map(v => [v.rule, v.action])).toEqual([['conflict', 'flagged'], ['floor', 'clamped']]);
+  });
+
+  it('flags prices below cost when there is no minimum margin', () => {
+    const result = applyGuardrails(analysis(28), { cost: 30 });
+    expect(result.suggestedPrice).toBe(28);
+    expect(result.guardrails).toMatchObject({ marginPct: (-2 / 28) * 100, violations: [{ rule: 'minMargin', action: 'flagged' }] });
+  });
+});
+
+describe('priceViolations', () => {
+  const constraints: PricingConstraints = { cost: 30, minMarginPct: 25, floorPrice: 35, mapPrice: 38, ceilingPrice: 60 };
+
+  it.each<[number, string[]]>([
+    [40, []],
+    [39.99, ['minMargin']],
+    [37, ['map', 'minMargin']],
+    [34, ['floor', 'map', 'minMargin']],
+    [60.01, ['ceiling']],
+  ])('flags %d for %j', (price, rules) => {
+    expect(priceViolations(price, constraints).map(v => v.rule)).toEqual(rules);
+  });
+
+  it('rounds to cents before comparing', () => {
+    expect(priceViolations(34.999, { floorPrice: 35 })).toEqual([]);
+  });
+
+  it('flags prices below cost without a minimum margin', () => {
+    expect(priceViolations(29, { cost: 30 })).toEqual([{ rule: 'minMargin', message: '29.00 is below the unit cost of 30.00.', action: 'flagged' }]);
+  });
+});
+
+describe('parseConstraints', () => {
+  it('reads constraint columns with the locale rules of prices and skips empty ones', () => {
+    expect(parseConstraints({ cost: '$1,200.50', minMarginPct: '25', floorPrice: ' ', mapPrice: '1.500,00 €' })).toEqual({
+      constraints: { cost: 1200.5, minMarginPct: 25, mapPrice: 1500 },
+      invalid: [],
+    });
+  });
+
+  it('reports values that are not prices or are negative', () => {
+    expect(parseConstraints({ cost: 'n/a', floorPrice: '-5', ceilingPrice: '80' })).toEqual({
+      constraints: { ceilingPrice: 80 },
+      invalid: ['cost', 'floorPrice'],
+    });
+  });
+
+  it('returns no constraints when every column is empty', () => {
+    expect(parseConstraints({ cost: '', ceilingPrice: '' })).toEqual({ constraints: undefined, invalid: [] });
+  });
+});
+
+describe('sanitizeConstraints', () => {
+  it('drops values that are not non-negative numbers', () => {
+    expect(sanitizeConstraints({ cost: 30, floorPrice: -1, mapPrice: '40', ceilingPrice: Infinity })).toEqual({ cost: 30 });
+    expect(sanitizeConstraints({ floorPrice: 'x' })).toBeUndefined();
+    expect(sanitizeConstraints('cost')).toBeUndefined();
+  });
+});
@@ -0,0 +1,161 @@
+import type { ProductAnalysis, PricingConstraints, GuardrailViolation } from '../types';
+import { parsePrice } from './currencyService';
+
+// Post-processes AI suggestions so they respect cost, margin, floor/ceiling and MAP rules.
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const CONSTRAINT_LABELS: Record<keyof PricingConstraints, string> = {
+  cost: 'Unit cost',
+  minMarginPct: 'Min. margin %',
+  floorPrice: 'Floor price',
+  ceilingPrice: 'Ceiling price',
+  mapPrice: 'MAP price',
+};
+
+export const CONSTRAINT_FIELDS = Object.keys(CONSTRAINT_LABELS) as (keyof PricingConstraints)[];
+
+export const hasConstraints = (constraints?: PricingConstraints): constraints is PricingConstraints =>
+  !!constraints && Object.values(constraints).some(value => typeof value === 'number' && Number.isFinite(value));
+
+// Drops anything that isn't a usable number, e.g. from a re-imported file or an empty input
+export const sanitizeConstraints = (raw: unknown): PricingConstraints | undefined => {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const source = raw as Record<string, unknown>;
+  const constraints: PricingConstraints = {};
+  CONSTRAINT_FIELDS.forEach(key => {
+    const value = source[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      constraints[key] = value;
+    }
+  });
+  return hasConstraints(constraints) ? constraints : undefined;
+};
+
+/**
+ * Parses user-entered constraint values (CSV cells or form inputs) with the same
+ * locale rules as prices. Empty values are skipped; unparseable or negative ones
+ * are returned in `invalid`.
+ */
+export const parseConstraints = (
+  values: Partial<Record<keyof PricingConstraints, string>>,
+  locale?: string,
+): { constraints?: PricingConstraints; invalid: (keyof PricingConstraints)[] } => {
+  const constraints: PricingConstraints = {};
+  const invalid: (keyof PricingConstraints)[] = [];
+  CONSTRAINT_FIELDS.forEach(key => {
+    const text = (values[key] || '').trim();
+    if (!text) return;
+    const parsed = parsePrice(text, locale);
+    if (!parsed || parsed.amount < 0) {
+      invalid.push(key);
+    } else {
+      constraints[key] = parsed.amount;
+    }
+  });
+  return { constraints: hasConstraints(constraints) ? constraints : undefined, invalid };
+};
+
+export const calculateMargin = (price: number, cost?: number): { margin: number; marginPct: number } | null => {
+  if (cost === undefined || price <= 0) return null;
+  return { margin: round(price - cost), marginPct: ((price - cost) / price) * 100 };
+};
+
+/**
+ * Clamps the suggested price into the range allowed by the constraints. The lower bound
+ * is the highest of the floor, the MAP and the price needed for the minimum margin; the
+ * upper bound is the ceiling. If the bounds contradict each other nothing is clamped and
+ * the conflict is flagged instead.
+ */
+export const applyGuardrails = (analysis: ProductAnalysis, constraints?: PricingConstraints): ProductAnalysis => {
+  if (!hasConstraints(constraints)) return analysis;
+  const { cost, minMarginPct, floorPrice, ceilingPrice, mapPrice } = constraints;
+  const aiSuggestedPrice = analysis.suggestedPrice;
+  const violations: GuardrailViolation[] = [];
+
+  const lowerBounds: { rule: GuardrailViolation['rule']; price: number; label: string }[] = [];
+  if (floorPrice !== undefined) lowerBounds.push({ rule: 'floor', price: floorPrice, label: `the floor price of ${floorPrice.toFixed(2)}` });
+  if (mapPrice !== undefined) lowerBounds.push({ rule: 'map', price: mapPrice, label: `the MAP of ${mapPrice.toFixed(2)}` });
+  if (cost !== undefined && minMarginPct !== undefined) {
+    if (minMarginPct >= 100) {
+      violations.push({ rule: 'conflict', message: `A minimum margin of ${minMarginPct}% is not achievable.`, action: 'flagged' });
+    } else {
+      const minPrice = round(cost / (1 - minMarginPct / 100));
+      lowerBounds.push({ rule: 'minMargin', price: minPrice, label: `${minPrice.toFixed(2)}, needed for a ${minMarginPct}% margin` });
+    }
+  }
+
+  const lower = lowerBounds.reduce<(typeof lowerBounds)[number] | null>((max, bound) => (!max || bound.price > max.price ? bound : max), null);
+  let suggestedPrice = aiSuggestedPrice;
+
+  if (lower && ceilingPrice !== undefined && lower.price > ceilingPrice) {
+    violations.push({
+      rule: 'conflict',
+      message: `The ceiling price of ${ceilingPrice.toFixed(2)} is below ${lower.label}; the suggestion was not adjusted.`,
+      action: 'flagged',
+    });
+  } else if (lower && suggestedPrice < lower.price) {
+    suggestedPrice = lower.price;
+    violations.push({ rule: lower.rule, message: `Raised from ${aiSuggestedPrice.toFixed(2)} to ${lower.label}.`, action: 'clamped' });
+  } else if (ceilingPrice !== undefined && suggestedPrice > ceilingPrice) {
+    suggestedPrice = ceilingPrice;
+    violations.push({ rule: 'ceiling', message: `Lowered from ${aiSuggestedPrice.toFixed(2)} to the ceiling price of ${ceilingPrice.toFixed(2)}.`, action: 'clamped' });
+  }
+
+  // Without a minimum margin rule, still warn about selling below cost
+  if (cost !== undefined && minMarginPct === undefined && suggestedPrice < cost) {
+    violations.push({ rule: 'minMargin', message: `The suggested price is below the unit cost of ${cost.toFixed(2)}.`, action: 'flagged' });
+  }
+
+  const margin = calculateMargin(suggestedPrice, cost);
+  return {
+    ...analysis,
+    suggestedPrice,
+    userProduct: { ...analysis.userProduct, constraints },
+    guardrails: {
+      aiSuggestedPrice,
+      ...(margin ? margin : {}),
+      violations,
+    },
+  };
+};
+
+/**
+ * The rules a price breaks: below the floor, the MAP or the price needed for the minimum
+ * margin (or below cost without one), or above the ceiling. For prices that don't go
+ * through applyGuardrails, such as overrides and prices pushed to a store.
+ */
+export const priceViolations = (price: number, constraints?: PricingConstraints): GuardrailViolation[] => {
+  if (!hasConstraints(constraints)) return [];
+  const { cost, minMarginPct, floorPrice, ceilingPrice, mapPrice } = constraints;
+  const violations: GuardrailViolation[] = [];
+  const flag = (rule: GuardrailViolation['rule'], message: string) => violations.push({ rule, message, action: 'flagged' });
+  price = round(price);
+
+  if (floorPrice !== undefined && price < floorPrice) flag('floor', `${price.toFixed(2)} is below the floor price of ${floorPrice.toFixed(2)}.`);
+  if (mapPrice !== undefined && price < mapPrice) flag('map', `${price.toFixed(2)} is below the MAP of ${mapPrice.toFixed(2)}.`);
+  if (cost !== undefined && minMarginPct !== undefined) {
+    const minPrice = minMarginPct < 100 ? round(cost / (1 - minMarginPct / 100)) : null;
+    if (minPrice === null) {
+      flag('conflict', `A minimum margin of ${minMarginPct}% is not achievable.`);
+    } else if (price < minPrice) {
+      flag('minMargin', `${price.toFixed(2)} is below ${minPrice.toFixed(2)}, needed for a ${minMarginPct}% margin.`);
+    }
+  } else if (cost !== undefined && price < cost) {
+    flag('minMargin', `${price.toFixed(2)} is below the unit cost of ${cost.toFixed(2)}.`);
+  }
+  if (ceilingPrice !== undefined && price > ceilingPrice) flag('ceiling', `${price.toFixed(2)} is above the ceiling price of ${ceilingPrice.toFixed(2)}.`);
+  return violations;
+};
+
+// One line for prompts, e.g. "unit cost 40, min. margin 25%"
+export const describeConstraints = (constraints?: PricingConstraints): string => {
+  if (!hasConstraints(constraints)) return '';
+  const parts: string[] = [];
+  if (constraints.cost !== undefined) parts.push(`unit cost ${constraints.cost}`);
+  if (constraints.minMarginPct !== undefined) parts.push(`minimum margin ${constraints.minMarginPct}%`);
+  if (constraints.floorPrice !== undefined) parts.push(`floor price ${constraints.floorPrice}`);
+  if (constraints.ceilingPrice !== undefined) parts.push(`ceiling price ${constraints.ceilingPrice}`);
+  if (constraints.mapPrice !== undefined) parts.push(`MAP ${constraints.mapPrice}`);
+  return parts.join(', ');
+};
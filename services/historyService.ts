@@ -0,0 +1,186 @@
+import type { AnalysisResult, AnalysisFailure, ProductAnalysis, UserProduct } from '../types';
+import { normalizeGtin } from './matchingService';
+import { createId } from '../utils/id';
+import { normalizeUrl } from '../utils/url';
+import { DEFAULT_PROJECT_ID, getActiveProjectId } from './projectService';
+
+// Persists every analysis run in IndexedDB so results survive the next run and
+// products can be tracked over time. Each run belongs to a project.
+
+const DB_NAME = 'predictgenie';
+const DB_VERSION = 1;
+const RUNS_STORE = 'runs';
+
+export interface AnalysisRun {
+  id: string;
+  createdAt: string; // ISO timestamp
+  mode: 'single' | 'batch';
+  projectId?: string; // Missing on runs saved before projects existed, which belong to the default project
+  results: AnalysisResult;
+  failures: AnalysisFailure[];
+}
+
+export interface TimelinePoint {
+  runId: string;
+  createdAt: string;
+  currentPrice: number;
+  suggestedPrice: number;
+  competitors: { key: string; label: string; price: number }[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        return reject(new Error('IndexedDB is not available in this environment.'));
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RUNS_STORE)) {
+          const store = db.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error || new Error('Failed to open the history database.'));
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(RUNS_STORE, mode);
+    const request = operation(transaction.objectStore(RUNS_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error || new Error('History database operation failed.'));
+    transaction.onabort = () => reject(transaction.error || new Error('History database operation was aborted.'));
+  });
+};
+
+/**
+ * Identifies a product across runs: its URL when known (see normalizeUrl, and ignoring
+ * protocol and "www."), then its GTIN, then its SKU, otherwise its normalized name.
+ * The URL comes first so keys of products saved before identifiers existed still match.
+ */
+export const productKey = (product: Pick<UserProduct, 'url' | 'productName' | 'gtin' | 'sku'>): string => {
+  if (product.url && product.url.trim()) {
+    return `url:${normalizeUrl(product.url).replace(/^https?:\/\//, '').replace(/^www\./, '')}`;
+  }
+  const gtin = normalizeGtin(product.gtin);
+  if (gtin) return `gtin:${gtin}`;
+  if (product.sku && product.sku.trim()) return `sku:${product.sku.trim().toLowerCase()}`;
+  return `name:${product.productName.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+};
+
+export const saveRun = async (results: AnalysisResult, failures: AnalysisFailure[], mode: AnalysisRun['mode'], projectId: string = getActiveProjectId()): Promise<AnalysisRun> => {
+  const run: AnalysisRun = { id: createId(), createdAt: new Date().toISOString(), mode, projectId, results, failures };
+  await runRequest('readwrite', store => store.put(run));
+  return run;
+};
+
+// Stores runs as given, e.g. from an imported project
+export const putRuns = async (runs: AnalysisRun[]): Promise<void> => {
+  for (const run of runs) {
+    await runRequest('readwrite', store => store.put(run));
+  }
+};
+
+const inProject = (run: AnalysisRun, projectId: string) => (run.projectId || DEFAULT_PROJECT_ID) === projectId;
+
+// Runs of one project, newest first
+export const listRuns = async (projectId: string = getActiveProjectId()): Promise<AnalysisRun[]> => {
+  const runs = await runRequest<AnalysisRun[]>('readonly', store => store.getAll());
+  return runs.filter(run => inProject(run, projectId)).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const getRun = async (id: string): Promise<AnalysisRun | undefined> =>
+  runRequest<AnalysisRun | undefined>('readonly', store => store.get(id));
+
+// Used when results change after the run was saved, e.g. review decisions or a resumed batch
+export const updateRunResults = async (id: string, results: AnalysisResult, failures?: AnalysisFailure[]): Promise<AnalysisRun> => {
+  const run = await getRun(id);
+  if (!run) throw new Error('The run is no longer in history.');
+  const updated: AnalysisRun = { ...run, results, failures: failures || run.failures };
+  await runRequest('readwrite', store => store.put(updated));
+  return updated;
+};
+
+export const deleteRun = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+// Clears one project's history
+export const clearHistory = async (projectId: string = getActiveProjectId()): Promise<void> => {
+  const runs = await listRuns(projectId);
+  for (const run of runs) {
+    await deleteRun(run.id);
+  }
+};
+
+/**
+ * Builds the price timeline of one product (see `productKey`) across the given runs,
+ * oldest first. Competitors are keyed by URL so the same seller lines up across runs.
+ */
+export const buildProductTimeline = (runs: AnalysisRun[], key: string): TimelinePoint[] =>
+  runs
+    .flatMap(run => run.results
+      .filter(analysis => productKey(analysis.userProduct) === key)
+      .map(analysis => ({
+        runId: run.id,
+        createdAt: run.createdAt,
+        currentPrice: analysis.userProduct.currentPrice,
+        suggestedPrice: analysis.suggestedPrice,
+        competitors: analysis.competitors.map(c => ({ key: c.url || c.productName, label: c.productName, price: c.price })),
+      })))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+export interface RunComparisonRow {
+  key: string;
+  productName: string;
+  currency?: string;
+  currentPrice: number;
+  first: ProductAnalysis;
+  second: ProductAnalysis;
+}
+
+/**
+ * Pairs up the products analyzed in both runs (see `productKey`), in the first run's
+ * order, e.g. to compare two strategies on the same input side by side.
+ */
+export const compareRuns = (first: AnalysisRun, second: AnalysisRun): RunComparisonRow[] => {
+  const secondByKey = new Map(second.results.map(analysis => [productKey(analysis.userProduct), analysis]));
+  return first.results.flatMap(analysis => {
+    const key = productKey(analysis.userProduct);
+    const match = secondByKey.get(key);
+    if (!match) return [];
+    const { productName, currency, currentPrice } = analysis.userProduct;
+    return [{ key, productName, currency, currentPrice, first: analysis, second: match }];
+  });
+};
+
+// Every distinct product seen in the given runs, with the number of runs it appears in
+export const listTrackedProducts = (runs: AnalysisRun[]): { key: string; productName: string; url?: string; runCount: number }[] => {
+  const products = new Map<string, { key: string; productName: string; url?: string; runCount: number }>();
+  runs.forEach(run => {
+    const seen = new Set<string>();
+    run.results.forEach(({ userProduct }) => {
+      const key = productKey(userProduct);
+      if (seen.has(key)) return;
+      seen.add(key);
+      const existing = products.get(key);
+      if (existing) {
+        existing.runCount++;
+      } else {
+        products.set(key, { key, productName: userProduct.productName, url: userProduct.url, runCount: 1 });
+      }
+    });
+  });
+  return [...products.values()].sort((a, b) => a.productName.localeCompare(b.productName));
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { Competitor, ProductMatch, UserProduct } from '../types';
+import { applyProductMatching, matchCompetitor, normalizeGtin, titleSimilarity } from './matchingService';
+
+const product = (productName: string, identifiers: Partial<UserProduct> = {}): UserProduct => ({ productName, currentPrice: 40, ...identifiers });
+
+const listing = (productName: string, identifiers: Partial<Competitor> = {}): Competitor => ({
+  url: 'https://other.example/item',
+  productName,
+  price: 38,
+  stockStatus: 'In Stock',
+  priceTrend: 'stable',
+  ...identifiers,
+});
+
+describe('normalizeGtin', () => {
+  it.each<[string | undefined, string | null]>([
+    ['4006381333931', '04006381333931'], // EAN-13
+    ['400-6381 333931', '04006381333931'], // Spaces and dashes are ignored
+    ['036000291452', '00036000291452'], // UPC-A
+    ['96385074', '00000096385074'], // EAN-8
+    ['10036000291459', '10036000291459'], // GTIN-14
+    ['4006381333932', null], // Wrong check digit
+    ['400638133393', null], // Wrong length
+    ['40063813339X1', null],
+    ['', null],
+    [undefined, null],
+  ])('normalizes %j to %j', (value, expected) => {
+    expect(normalizeGtin(value)).toBe(expected);
+  });
+});
+
+describe('matchCompetitor', () => {
+  it.each<[string, UserProduct, Competitor, Pick<ProductMatch, 'verdict' | 'basis' | 'score'>]>([
+    ['the same GTIN in another format', product('Kettle', { gtin: '4006381333931' }), listing('Something else', { gtin: '04006381333931' }), { verdict: 'match', basis: 'identifier', score: 1 }],
+    ['a different GTIN', product('Kettle', { gtin: '4006381333931' }), listing('Kettle', { gtin: '036000291452' }), { verdict: 'mismatch', basis: 'identifier', score: 0 }],
+    ['the same MPN, ignoring punctuation', product('Kettle', { mpn: 'wk-1700/b' }), listing('Other', { mpn: 'WK1700B' }), { verdict: 'match', basis: 'identifier', score: 0.95 }],
+    ['a different MPN', product('Kettle', { mpn: 'WK-1700' }), listing('Kettle', { mpn: 'WK-1800' }), { verdict: 'mismatch', basis: 'identifier', score: 0.05 }],
+    ['an invalid GTIN, falling back to titles', product('Acme Kettle 1.7 l', { gtin: '123' }), listing('Acme Kettle 1.7 l', { gtin: '4006381333931' }), { verdict: 'match', basis: 'title', score: 1 }],
+  ])('decides by identifier for %s', (_, ours, theirs, expected) => {
+    expect(matchCompetitor(ours, theirs)).toMatchObject(expected);
+  });
+
+  it('never compares SKUs across retailers', () => {
+    expect(matchCompetitor(product('Acme Kettle', { sku: 'A-1' }), listing('Acme Kettle', { sku: 'B-2' })).basis).toBe('title');
+  });
+
+  it.each<[string, string, string]>([
+    ['Acme Stainless Steel Kettle 1.7 l', 'Acme Kettle 1.7 l Stainless Steel - Buy online', 'match'],
+    ['Sony WH-1000XM5 Wireless Headphones', 'Noise cancelling headphones WH1000XM5 by Sony', 'match'],
+    ['Acme Stainless Steel Electric Kettle', 'Acme Electric Kettle', 'possible'],
+    ['Acme Stainless Steel Kettle', 'Acme Glass Kettle with Infuser', 'mismatch'],
+    ['Acme Stainless Steel Kettle', 'Garden hose reel', 'mismatch'],
+  ])('compares the titles %j and %j', (ours, theirs, verdict) => {
+    expect(matchCompetitor(product(ours), listing(theirs)).verdict).toBe(verdict);
+  });
+
+  it.each<[string, string, RegExp]>([
+    ['Acme Kettle', 'Acme Kettle Bundle', /bundle or multipack/],
+    ['Acme AA Batteries 4 pack', 'Acme AA Batteries 8 pack', /Different pack size \(4 vs 8\)/],
+    ['Acme Phone X10', 'Acme Phone X10 Case', /accessory/],
+    ['Acme Phone X10', 'Acme Phone X10 (Refurbished)', /refurbished or used/],
+    ['Acme Phone X10 128GB', 'Acme Phone X10 256GB', /Different size or capacity \(128gb vs 256gb\)/],
+    ['Acme Kettle Black', 'Acme Kettle White', /Different colour \(black vs white\)/],
+    ['Acme Phone X10', 'Acme Phone X20', /Different model number \(x10 vs x20\)/],
+  ])('flags %j vs %j as a different item', (ours, theirs, reason) => {
+    const match = matchCompetitor(product(ours), listing(theirs));
+    expect(match.verdict).toBe('mismatch');
+    expect(match.score).toBeLessThan(0.45);
+    expect(match.reasons.join(' ')).toMatch(reason);
+  });
+
+  it.each<[string, string]>([
+    ['Acme Kettle Grey', 'Acme Kettle Gray'],
+    ['Acme Kettle 1,7 l', 'Acme Kettle 1.7 L'],
+    ['Acme Phone X10', 'Acme Phone X10 Pro Max'],
+  ])('does not flag equivalent details in %j and %j', (ours, theirs) => {
+    expect(matchCompetitor(product(ours), listing(theirs)).verdict).not.toBe('mismatch');
+  });
+});
+
+describe('titleSimilarity', () => {
+  it('ranges from 0 for unrelated titles to 1 for identical ones', () => {
+    expect(titleSimilarity('Acme Kettle', 'Acme Kettle')).toBe(1);
+    expect(titleSimilarity('Acme Kettle', 'Garden hose')).toBe(0);
+    expect(titleSimilarity('', 'Acme Kettle')).toBe(0);
+  });
+
+  it('ignores stopwords and the extra words retailers add', () => {
+    expect(titleSimilarity('The Acme Kettle', 'Acme Kettle for sale with free shipping')).toBe(1);
+  });
+});
+
+describe('applyProductMatching', () => {
+  it('sets a match on every competitor and warns about likely mismatches', () => {
+    const result = applyProductMatching({
+      userProduct: product('Acme Kettle'),
+      competitors: [listing('Acme Kettle'), listing('Acme Kettle Bundle')],
+      suggestedPrice: 39,
+      reasoning: 'Reasons.',
+      marketSummary: 'Summary.',
+    });
+    expect(result.competitors.map(c => c.match?.verdict)).toEqual(['match', 'mismatch']);
+    expect(result.validationIssues).toEqual([{
+      field: 'competitors[1]',
+      message: '"Acme Kettle Bundle" may not be the same product: Looks like a bundle or multipack.',
+      severity: 'warning',
+    }]);
+  });
+});
@@ -0,0 +1,187 @@
+import type { Competitor, MatchVerdict, ProductAnalysis, ProductIdentifiers, ProductMatch, UserProduct, ValidationIssue } from '../types';
+
+// Decides whether each competitor listing is the same item as the user's product, so
+// bundles, multipacks and other variants don't skew the price comparison. Shared GTINs
+// or MPNs settle it; otherwise titles are compared and checked for telltale differences.
+// SKUs are seller-specific and never compared across retailers.
+
+export const MATCH_LABELS: Record<MatchVerdict, string> = {
+  match: 'Same item',
+  possible: 'Possible match',
+  mismatch: 'Likely different',
+};
+
+const MATCH_THRESHOLD = 0.7;
+const POSSIBLE_THRESHOLD = 0.45;
+
+const STOPWORDS = new Set(['a', 'an', 'and', 'the', 'for', 'with', 'of', 'by', 'in', 'on', 'new', 'buy', 'online', 'sale', 'free', 'shipping']);
+
+const BUNDLE_PATTERN = /\b(bundle|kit|combo|multi-?pack|value pack|twin pack|set of \d+|pack of \d+|\d+\s*-?\s*pack|\d+\s*x)\b/i;
+const ACCESSORY_PATTERN = /\b(case|cover|sleeve|skin|charger|cable|strap|screen protector|replacement|adapter)\b/i;
+const CONDITION_PATTERN = /\b(refurbished|renewed|reconditioned|used|pre-?owned|open box|second hand|b-stock)\b/i;
+const COLOURS = ['black', 'white', 'silver', 'grey', 'gray', 'gold', 'red', 'blue', 'green', 'yellow', 'pink', 'purple', 'orange', 'brown', 'beige', 'navy'];
+// Sizes and capacities, e.g. "128GB", "1.5 L", "65-inch"
+const MEASURE_PATTERN = /(\d+(?:[.,]\d+)?)\s*-?\s*(tb|gb|mb|mah|ml|l|oz|kg|g|mm|cm|m|inch|in|"|w)\b/gi;
+
+/**
+ * Normalizes an EAN-8, UPC-A, EAN-13 or GTIN-14 to 14 digits. Returns null when the
+ * value has the wrong length or its check digit is wrong.
+ */
+export const normalizeGtin = (value: string | undefined): string | null => {
+  const digits = (value || '').replace(/[\s-]/g, '');
+  if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(digits)) return null;
+  const padded = digits.padStart(14, '0');
+  const sum = padded.slice(0, 13).split('').reduce((total, digit, i) => total + Number(digit) * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(padded[13]) ? padded : null;
+};
+
+const normalizeMpn = (value: string | undefined): string => (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const tokenize = (title: string): string[] =>
+  title.toLowerCase().split(/[^a-z0-9]+/).filter(token => token && !STOPWORDS.has(token));
+
+// Tokens mixing letters and digits, e.g. "X1" or "WH-1000XM5", usually name the model.
+// Quantities with a unit ("128GB", "2x") are left to the size and pack checks.
+const modelNumbers = (title: string): string[] =>
+  tokenize(title.replace(/([a-z0-9])-(?=[a-z0-9])/gi, '$1'))
+    .filter(token => /[a-z]/.test(token) && /\d/.test(token) && !/^\d+(?:[.,]\d+)?[a-z]{1,3}$/.test(token));
+
+const sameModel = (a: string, b: string): boolean => a === b || (Math.min(a.length, b.length) >= 3 && (a.includes(b) || b.includes(a)));
+
+const trigrams = (text: string): Set<string> => {
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= text.length; i++) grams.add(text.slice(i, i + 3));
+  return grams;
+};
+
+const diceCoefficient = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(item => {
+    if (b.has(item)) shared++;
+  });
+  return (2 * shared) / (a.size + b.size);
+};
+
+/**
+ * Title similarity from 0 to 1: character trigrams catch run-together or abbreviated
+ * words ("ProCam" vs "Pro Camera"), and the share of our words found in the competitor's
+ * title ignores the extra words retailers add.
+ */
+export const titleSimilarity = (ours: string, theirs: string): number => {
+  const ourTokens = tokenize(ours);
+  const theirTokens = tokenize(theirs);
+  if (ourTokens.length === 0 || theirTokens.length === 0) return 0;
+  const theirJoined = theirTokens.join('');
+  const covered = ourTokens.filter(token => theirTokens.includes(token) || (token.length >= 3 && theirJoined.includes(token))).length;
+  const trigram = diceCoefficient(trigrams(ourTokens.join('')), trigrams(theirJoined));
+  return 0.4 * trigram + 0.6 * (covered / ourTokens.length);
+};
+
+const packSize = (title: string): number => {
+  const match = title.match(/\b(?:pack of|set of)\s*(\d+)\b|\b(\d+)\s*-?\s*(?:pack|pcs|pieces|count)\b|\b(\d+)\s*x\b/i);
+  return match ? Number(match[1] || match[2] || match[3]) : 1;
+};
+
+const measures = (title: string): Map<string, string> => {
+  const found = new Map<string, string>();
+  for (const [, amount, unit] of title.matchAll(MEASURE_PATTERN)) {
+    const key = unit === '"' || unit.toLowerCase() === 'in' ? 'inch' : unit.toLowerCase();
+    if (!found.has(key)) found.set(key, `${amount.replace(',', '.')}${key}`);
+  }
+  return found;
+};
+
+const colours = (tokens: string[]): Set<string> =>
+  new Set(tokens.filter(token => COLOURS.includes(token)).map(token => (token === 'gray' ? 'grey' : token)));
+
+// Differences in the titles that make a listing a different item even when they look alike
+const titleConflicts = (ours: string, theirs: string): string[] => {
+  const conflicts: string[] = [];
+  if (BUNDLE_PATTERN.test(theirs) && !BUNDLE_PATTERN.test(ours)) {
+    conflicts.push('Looks like a bundle or multipack.');
+  } else if (packSize(ours) !== packSize(theirs)) {
+    conflicts.push(`Different pack size (${packSize(ours)} vs ${packSize(theirs)}).`);
+  }
+  if (ACCESSORY_PATTERN.test(theirs) && !ACCESSORY_PATTERN.test(ours)) {
+    conflicts.push('Looks like an accessory for the product rather than the product itself.');
+  }
+  if (CONDITION_PATTERN.test(theirs) && !CONDITION_PATTERN.test(ours)) {
+    conflicts.push('Listed as refurbished or used.');
+  }
+  const ourMeasures = measures(ours);
+  measures(theirs).forEach((value, unit) => {
+    const own = ourMeasures.get(unit);
+    if (own && own !== value) conflicts.push(`Different size or capacity (${own} vs ${value}).`);
+  });
+  const ourColours = colours(tokenize(ours));
+  const theirColours = colours(tokenize(theirs));
+  if (ourColours.size > 0 && theirColours.size > 0 && ![...theirColours].some(colour => ourColours.has(colour))) {
+    conflicts.push(`Different colour (${[...ourColours].join('/')} vs ${[...theirColours].join('/')}).`);
+  }
+  const ourModels = modelNumbers(ours);
+  const theirModels = modelNumbers(theirs);
+  if (ourModels.length > 0 && theirModels.length > 0 && !theirModels.some(model => ourModels.some(own => sameModel(own, model)))) {
+    conflicts.push(`Different model number (${ourModels.join(', ')} vs ${theirModels.join(', ')}).`);
+  }
+  return conflicts;
+};
+
+const identifierMatch = (ours: ProductIdentifiers, theirs: ProductIdentifiers): ProductMatch | null => {
+  const ourGtin = normalizeGtin(ours.gtin);
+  const theirGtin = normalizeGtin(theirs.gtin);
+  if (ourGtin && theirGtin) {
+    return ourGtin === theirGtin
+      ? { verdict: 'match', score: 1, basis: 'identifier', reasons: ['Same GTIN.'] }
+      : { verdict: 'mismatch', score: 0, basis: 'identifier', reasons: [`Different GTIN (${ours.gtin} vs ${theirs.gtin}).`] };
+  }
+  const ourMpn = normalizeMpn(ours.mpn);
+  const theirMpn = normalizeMpn(theirs.mpn);
+  if (ourMpn && theirMpn) {
+    return ourMpn === theirMpn
+      ? { verdict: 'match', score: 0.95, basis: 'identifier', reasons: ['Same manufacturer part number.'] }
+      : { verdict: 'mismatch', score: 0.05, basis: 'identifier', reasons: [`Different manufacturer part number (${ours.mpn} vs ${theirs.mpn}).`] };
+  }
+  return null;
+};
+
+/** Scores one competitor listing against the user's product. */
+export const matchCompetitor = (product: UserProduct, competitor: Competitor): ProductMatch => {
+  const byIdentifier = identifierMatch(product, competitor);
+  if (byIdentifier) return byIdentifier;
+
+  const score = Math.round(titleSimilarity(product.productName, competitor.productName) * 100) / 100;
+  const conflicts = titleConflicts(product.productName, competitor.productName);
+  if (conflicts.length > 0) return { verdict: 'mismatch', score: Math.min(score, POSSIBLE_THRESHOLD - 0.01), basis: 'title', reasons: conflicts };
+  // A shared model number outweighs differently worded titles
+  const theirModels = modelNumbers(competitor.productName);
+  if (score >= POSSIBLE_THRESHOLD && modelNumbers(product.productName).some(own => theirModels.some(model => sameModel(own, model)))) {
+    return { verdict: 'match', score: Math.max(score, MATCH_THRESHOLD), basis: 'title', reasons: ['Same model number and similar titles.'] };
+  }
+  if (score >= MATCH_THRESHOLD) return { verdict: 'match', score, basis: 'title', reasons: ['Titles are very similar.'] };
+  if (score >= POSSIBLE_THRESHOLD) return { verdict: 'possible', score, basis: 'title', reasons: ['Titles are only partly similar; check the listing.'] };
+  return { verdict: 'mismatch', score, basis: 'title', reasons: ['Titles have little in common.'] };
+};
+
+export const isMismatch = (competitor: Competitor): boolean => competitor.match?.verdict === 'mismatch';
+
+/** Tooltip text for a match, e.g. "Score 0.44 (title). Looks like a bundle or multipack." */
+export const describeMatch = (match: ProductMatch): string =>
+  `Score ${match.score.toFixed(2)} (${match.basis === 'identifier' ? 'GTIN/MPN' : 'title'}). ${match.reasons.join(' ')}`;
+
+/**
+ * Sets `match` on every competitor and records a warning for each likely mismatch.
+ * Mismatched listings stay visible but are left out of the rule-based price.
+ */
+export const applyProductMatching = (analysis: ProductAnalysis): ProductAnalysis => {
+  const issues: ValidationIssue[] = [];
+  const competitors = analysis.competitors.map((competitor, i) => {
+    const match = matchCompetitor(analysis.userProduct, competitor);
+    if (match.verdict === 'mismatch') {
+      issues.push({ field: `competitors[${i}]`, message: `"${competitor.productName}" may not be the same product: ${match.reasons.join(' ')}`, severity: 'warning' });
+    }
+    return { ...competitor, match };
+  });
+  const validationIssues = [...(analysis.validationIssues || []), ...issues];
+  return { ...analysis, competitors, ...(validationIssues.length > 0 ? { validationIssues } : {}) };
+};
@@ -0,0 +1,139 @@
+import type { ProductAnalysis, AnalysisResult, AnalysisConfig, AnalysisStrategy, CsvProduct, SingleProductInput, Competitor } from '../types';
+import type { AnalysisProvider } from './analysisService';
+import { wait } from './batchRunner';
+
+// A deterministic, offline provider. The same input always yields the same analysis,
+// so the UI can be developed, demoed and tested without network access or an API key.
+
+const MOCK_LATENCY_MS = 600;
+
+const STOCK_STATUSES: Competitor['stockStatus'][] = ['In Stock', 'In Stock', 'Low Stock', 'Out of Stock'];
+const PRICE_TRENDS: Competitor['priceTrend'][] = ['up', 'down', 'stable'];
+
+// FNV-1a hash, used to seed the pseudo-random generator from the input text.
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32 PRNG: small, fast and stable across platforms.
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Where each strategy puts the suggestion relative to the in-stock competitors, with the reasoning given
+const STRATEGY_PRICES: Record<AnalysisStrategy, { price: (lowest: number, average: number) => number; reason: string }> = {
+  balanced: {
+    price: (lowest, average) => (average + lowest) / 2,
+    reason: 'The suggestion sits halfway between the lowest and the average price to stay competitive without a race to the bottom.',
+  },
+  marketShare: { price: lowest => lowest * 0.98, reason: 'The suggestion undercuts the lowest price by 2% to win volume.' },
+  premium: { price: (_, average) => average * 1.08, reason: 'The suggestion sits 8% above the average price for a premium position.' },
+  clearance: { price: lowest => lowest * 0.9, reason: 'The suggestion is 10% below the lowest price to clear stock quickly.' },
+  priceMatch: { price: lowest => lowest, reason: 'The suggestion matches the lowest price.' },
+};
+
+const roundPrice = (value: number) => Math.max(0.99, Math.round(value * 100) / 100);
+
+const nameFromUrl = (url: string): string => {
+  try {
+    const { pathname, hostname } = new URL(url);
+    const slug = pathname.split('/').filter(Boolean).pop() || hostname.split('.').slice(-2, -1)[0] || 'Product';
+    return slug
+      .replace(/\.[a-z0-9]+$/i, '')
+      .split(/[-_]+/)
+      .filter(Boolean)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  } catch {
+    return url;
+  }
+};
+
+const hostFromUrl = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+// Stand-ins for competitors a web search would find
+const mockCompetitorUrls = (productName: string, count: number) =>
+  Array.from({ length: count }, (_, i) => `https://www.mock-competitor-${i + 1}.com/products/${encodeURIComponent(productName.toLowerCase().replace(/\s+/g, '-'))}`);
+
+const buildAnalysis = (productName: string, currentPrice: number, userProductUrl: string, competitorUrls: string[], strategy: AnalysisStrategy, currency?: string, findCompetitors = false): ProductAnalysis => {
+  const random = createRandom(hashString(`${productName}|${currentPrice}|${userProductUrl}|${competitorUrls.join('|')}`));
+
+  const searched = competitorUrls.length === 0 || findCompetitors;
+  const urls = competitorUrls.length > 0
+    ? [...competitorUrls, ...(findCompetitors ? mockCompetitorUrls(productName, 2) : [])]
+    : mockCompetitorUrls(productName, 3);
+
+  // Like a real search, the last listing found is a bundle, which product matching should flag
+  const competitors: Competitor[] = urls.map((url, i) => {
+    const bundle = searched && i === urls.length - 1;
+    const factor = 0.85 + random() * 0.3;
+    return {
+      url,
+      productName: `${productName}${bundle ? ' Bundle' : ''} (${hostFromUrl(url)})`,
+      price: roundPrice(currentPrice * (bundle ? factor + 0.5 : factor)),
+      stockStatus: STOCK_STATUSES[Math.floor(random() * STOCK_STATUSES.length)],
+      priceTrend: PRICE_TRENDS[Math.floor(random() * PRICE_TRENDS.length)],
+      currency,
+    };
+  });
+
+  const comparable = searched ? competitors.slice(0, -1) : competitors;
+  const inStock = comparable.filter(c => c.stockStatus !== 'Out of Stock');
+  const reference = inStock.length > 0 ? inStock : comparable;
+  const averagePrice = reference.reduce((sum, c) => sum + c.price, 0) / reference.length;
+  const lowestPrice = Math.min(...reference.map(c => c.price));
+  const suggestedPrice = roundPrice(STRATEGY_PRICES[strategy].price(lowestPrice, averagePrice));
+  const outOfStockCount = comparable.length - inStock.length;
+
+  return {
+    userProduct: {
+      url: userProductUrl || undefined,
+      productName,
+      currentPrice,
+      currency,
+    },
+    competitors,
+    suggestedPrice,
+    reasoning: `Mock analysis: ${reference.length} in-stock competitor(s) average ${averagePrice.toFixed(2)} with a low of ${lowestPrice.toFixed(2)}. ` +
+      STRATEGY_PRICES[strategy].reason +
+      (outOfStockCount > 0 ? ` ${outOfStockCount} competitor(s) are out of stock and were excluded from the average.` : '') +
+      (searched ? ' The bundle listing is not the same item and was ignored.' : ''),
+    marketSummary: `This is deterministic sample data generated offline by the mock provider for ${competitors.length} competitor listing(s). It does not reflect real market prices.`,
+  };
+};
+
+const analyzeSingleProduct = async ({ userProductUrl, competitorUrls, currency, findCompetitors }: SingleProductInput, { strategy }: AnalysisConfig, signal?: AbortSignal): Promise<ProductAnalysis> => {
+  await wait(MOCK_LATENCY_MS, signal);
+  const random = createRandom(hashString(userProductUrl));
+  const currentPrice = roundPrice(20 + random() * 480);
+  return buildAnalysis(nameFromUrl(userProductUrl), currentPrice, userProductUrl, competitorUrls, strategy, currency, findCompetitors);
+};
+
+const analyzeBatchProducts = async (products: CsvProduct[], { strategy }: AnalysisConfig, signal?: AbortSignal): Promise<AnalysisResult> => {
+  await wait(MOCK_LATENCY_MS, signal);
+  return products.map(p => buildAnalysis(p.productName, p.currentPrice, p.userProductUrl, p.competitorUrls, strategy, p.currency));
+};
+
+export const mockProvider: AnalysisProvider = {
+  id: 'mock',
+  label: 'Offline mock data',
+  analyzeSingleProduct,
+  analyzeBatchProducts,
+};
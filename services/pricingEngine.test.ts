@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import type { Competitor, PricingRuleConfig, ProductAnalysis } from '../types';
+import { aiVsRuleDifference, computeRuleBasedPrice, median } from './pricingEngine';
+
+const competitor = (price: number, overrides: Partial<Competitor> = {}): Competitor => ({
+  url: `https://shop${price}.example/kettle`,
+  productName: 'Kettle',
+  price,
+  stockStatus: 'In Stock',
+  priceTrend: 'stable',
+  ...overrides,
+});
+
+const analysis = (competitors: Competitor[], overrides: Partial<ProductAnalysis> = {}): ProductAnalysis => ({
+  userProduct: { productName: 'Kettle', currentPrice: 40, currency: 'USD' },
+  competitors,
+  suggestedPrice: 42,
+  reasoning: 'Reasons.',
+  marketSummary: 'Summary.',
+  ...overrides,
+});
+
+const rules = (overrides: Partial<PricingRuleConfig> = {}): PricingRuleConfig => ({
+  strategy: 'matchMedian',
+  adjustmentPct: 0,
+  excludeOutOfStock: true,
+  ...overrides,
+});
+
+// In stock at 30, 40 and 50, out of stock at 20
+const market = [competitor(30), competitor(40), competitor(50), competitor(20, { stockStatus: 'Out of Stock' })];
+
+describe('computeRuleBasedPrice', () => {
+  it.each<[string, Partial<PricingRuleConfig>, number, number, number]>([
+    // [strategy, config, reference price, price, competitors used]
+    ['the lowest in-stock price undercut by 5%', { strategy: 'undercutLowest', adjustmentPct: 5 }, 30, 28.5, 3],
+    ['the lowest in-stock price even when out-of-stock sellers are allowed', { strategy: 'undercutLowest', adjustmentPct: 5, excludeOutOfStock: false }, 30, 28.5, 3],
+    ['the median of in-stock prices', { strategy: 'matchMedian' }, 40, 40, 3],
+    ['the median including out-of-stock sellers', { strategy: 'matchMedian', excludeOutOfStock: false }, 35, 35, 4],
+    ['the median adjusted by -2.5%', { strategy: 'matchMedian', adjustmentPct: -2.5 }, 40, 39, 3],
+    ['the average plus a 10% premium', { strategy: 'premiumOverAverage', adjustmentPct: 10 }, 40, 44, 3],
+    ['the average including out-of-stock sellers', { strategy: 'premiumOverAverage', excludeOutOfStock: false }, 35, 35, 4],
+  ])('prices from %s', (_, config, referencePrice, price, competitorsUsed) => {
+    expect(computeRuleBasedPrice(analysis(market), rules(config))).toMatchObject({ referencePrice, price, competitorsUsed });
+  });
+
+  it('explains the math', () => {
+    expect(computeRuleBasedPrice(analysis(market), rules({ strategy: 'undercutLowest', adjustmentPct: 5 }))?.explanation)
+      .toBe('Lowest price 30.00 across 3 competitors in stock, undercut by 5%.');
+  });
+
+  it('skips other currencies, likely mismatches and untrusted stores', () => {
+    const result = computeRuleBasedPrice(analysis([
+      competitor(30),
+      competitor(10, { currency: 'EUR' }),
+      competitor(12, { match: { verdict: 'mismatch', score: 0.1, basis: 'title', reasons: [] } }),
+      competitor(14, { store: { id: 's1', name: 'Ignored', trustWeight: 0 } }),
+    ]), rules({ strategy: 'undercutLowest' }));
+    expect(result).toMatchObject({ referencePrice: 30, price: 30, competitorsUsed: 1 });
+  });
+
+  it('uses landed prices where the registry knows shipping and tax', () => {
+    const result = computeRuleBasedPrice(analysis([competitor(30, { landedPrice: 36.5 }), competitor(35)]), rules({ strategy: 'undercutLowest' }));
+    expect(result?.referencePrice).toBe(35);
+    expect(result?.explanation).toBe('Lowest price 35.00 across 2 competitors in stock (with shipping and tax), undercut by 0%.');
+  });
+
+  it('weights the median and average by store trust', () => {
+    const trusted = (price: number, trustWeight: number) => competitor(price, { store: { id: `s${price}`, name: `Store ${price}`, trustWeight } });
+    // Weights 0.2, 0.2 and 1 of 1.4: the half-way point (0.7) falls on 50
+    const weighted = analysis([trusted(30, 0.2), trusted(40, 0.2), trusted(50, 1)]);
+    expect(computeRuleBasedPrice(weighted, rules())?.referencePrice).toBe(50);
+    // (30 * 0.2 + 40 * 0.2 + 50) / 1.4 = 45.71
+    expect(computeRuleBasedPrice(weighted, rules({ strategy: 'premiumOverAverage' }))?.referencePrice).toBe(45.71);
+    expect(computeRuleBasedPrice(weighted, rules())?.explanation).toBe('Median price 50.00 across 3 competitors in stock (weighted by store trust).');
+  });
+
+  it('averages the two middle values when the weights split evenly', () => {
+    const even = analysis([competitor(30, { store: { id: 'a', name: 'A', trustWeight: 0.5 } }), competitor(40, { store: { id: 'b', name: 'B', trustWeight: 0.5 } })]);
+    expect(computeRuleBasedPrice(even, rules())?.referencePrice).toBe(35);
+  });
+
+  it('never goes below one cent and returns null without usable competitors', () => {
+    expect(computeRuleBasedPrice(analysis([competitor(1)]), rules({ strategy: 'undercutLowest', adjustmentPct: 150 }))?.price).toBe(0.01);
+    expect(computeRuleBasedPrice(analysis([competitor(20, { stockStatus: 'Out of Stock' })]), rules())).toBeNull();
+  });
+});
+
+describe('median', () => {
+  it.each([[[3, 1, 2], 2], [[4, 1, 3, 2], 2.5], [[7], 7]])('of %j is %d', (values, expected) => {
+    expect(median(values)).toBe(expected);
+  });
+});
+
+describe('aiVsRuleDifference', () => {
+  const ruleBasedPrice = { price: 40, referencePrice: 40, competitorsUsed: 3, config: rules(), explanation: '' };
+
+  it('compares the AI suggestion with the rule price', () => {
+    expect(aiVsRuleDifference(analysis(market, { suggestedPrice: 42, ruleBasedPrice }))).toEqual({ amount: 2, pct: 5 });
+    expect(aiVsRuleDifference(analysis(market))).toBeNull();
+  });
+
+  it('uses the AI price from before the guardrails clamped it', () => {
+    const clamped = analysis(market, { suggestedPrice: 45, ruleBasedPrice, guardrails: { aiSuggestedPrice: 38, violations: [] } });
+    expect(aiVsRuleDifference(clamped)).toEqual({ amount: -2, pct: -5 });
+  });
+});
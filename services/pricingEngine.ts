@@ -0,0 +1,165 @@
+import type { ProductAnalysis, Competitor, PricingRuleConfig, PricingStrategy, RuleBasedPrice } from '../types';
+import { isMismatch } from './matchingService';
+import { projectStorageKey } from './projectService';
+
+// Computes a price from the competitor data with explicit, repeatable math, so every
+// AI suggestion can be checked against a rule anyone can recalculate by hand.
+
+const SETTINGS_KEY = 'predictgenie.pricingRules';
+
+export const PRICING_STRATEGIES: { id: PricingStrategy; label: string; adjustmentLabel: string }[] = [
+  { id: 'undercutLowest', label: 'Undercut lowest in-stock price', adjustmentLabel: 'Undercut by %' },
+  { id: 'matchMedian', label: 'Match median price', adjustmentLabel: 'Adjust median by %' },
+  { id: 'premiumOverAverage', label: 'Premium over average price', adjustmentLabel: 'Premium %' },
+];
+
+export const DEFAULT_PRICING_RULES: PricingRuleConfig = {
+  strategy: 'matchMedian',
+  adjustmentPct: 0,
+  excludeOutOfStock: true,
+};
+
+// Each project has its own rules; the cache is only valid for the project it was read for
+let cachedRules: { key: string; rules: PricingRuleConfig } | null = null;
+
+// `projectId` defaults to the active project
+export const getPricingRules = (projectId?: string): PricingRuleConfig => {
+  const key = projectStorageKey(SETTINGS_KEY, projectId);
+  if (cachedRules?.key !== key) {
+    let rules = DEFAULT_PRICING_RULES;
+    try {
+      const stored = localStorage.getItem(key);
+      if (stored) rules = { ...DEFAULT_PRICING_RULES, ...JSON.parse(stored) };
+    } catch {
+      // Fall back to the defaults
+    }
+    cachedRules = { key, rules };
+  }
+  return cachedRules.rules;
+};
+
+export const savePricingRules = (rules: PricingRuleConfig) => {
+  const key = projectStorageKey(SETTINGS_KEY);
+  cachedRules = { key, rules };
+  try {
+    localStorage.setItem(key, JSON.stringify(rules));
+  } catch (error) {
+    console.warn('Could not save pricing rules:', error);
+  }
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// Weighted versions of the median and average; with equal weights they match the plain ones
+const weightedMedian = (items: { value: number; weight: number }[]): number => {
+  const sorted = [...items].sort((a, b) => a.value - b.value);
+  const half = sorted.reduce((sum, item) => sum + item.weight, 0) / 2;
+  let cumulative = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    cumulative += sorted[i].weight;
+    if (Math.abs(cumulative - half) < 1e-9 && i + 1 < sorted.length) return (sorted[i].value + sorted[i + 1].value) / 2;
+    if (cumulative > half) return sorted[i].value;
+  }
+  return sorted[sorted.length - 1].value;
+};
+
+const weightedAverage = (items: { value: number; weight: number }[]): number =>
+  items.reduce((sum, item) => sum + item.value * item.weight, 0) / items.reduce((sum, item) => sum + item.weight, 0);
+
+// Registry stores can discount a competitor's prices; unregistered ones count fully
+const trustWeight = (competitor: Competitor): number => competitor.store?.trustWeight ?? 1;
+
+// What a shopper pays at the competitor, when the registry knows its shipping and tax
+const comparablePrice = (competitor: Competitor): number => competitor.landedPrice ?? competitor.price;
+
+// Only prices already in the product's currency are comparable; unconverted ones are skipped,
+// and so are listings that are probably a different item or from a store with no trust
+const usableCompetitors = (analysis: ProductAnalysis, config: PricingRuleConfig): Competitor[] => {
+  const currency = analysis.userProduct.currency;
+  return analysis.competitors.filter(c =>
+    c.price > 0
+    && (!currency || !c.currency || c.currency === currency)
+    && !isMismatch(c)
+    && trustWeight(c) > 0
+    // Undercutting an out-of-stock seller makes no sense, whatever the setting
+    && (c.stockStatus !== 'Out of Stock' || (!config.excludeOutOfStock && config.strategy !== 'undercutLowest')));
+};
+
+/**
+ * Applies the configured strategy to the analysis' competitors:
+ * - undercutLowest: lowest in-stock price minus `adjustmentPct`
+ * - matchMedian: median price plus `adjustmentPct` (0 matches it exactly)
+ * - premiumOverAverage: average price plus `adjustmentPct`
+ * Prices include the shipping and tax of registry stores; the median and average are
+ * weighted by store trust, and stores with no trust are left out.
+ * Returns null when no competitor price can be used.
+ */
+export const computeRuleBasedPrice = (analysis: ProductAnalysis, config: PricingRuleConfig = getPricingRules()): RuleBasedPrice | null => {
+  const competitors = usableCompetitors(analysis, config);
+  if (competitors.length === 0) return null;
+  const prices = competitors.map(comparablePrice);
+  const weighted = competitors.map(c => ({ value: comparablePrice(c), weight: trustWeight(c) }));
+  const inStockOnly = config.excludeOutOfStock || config.strategy === 'undercutLowest';
+  const notes = [
+    ...(competitors.some(c => c.landedPrice !== undefined) ? ['with shipping and tax'] : []),
+    ...(config.strategy !== 'undercutLowest' && competitors.some(c => trustWeight(c) !== 1) ? ['weighted by store trust'] : []),
+  ];
+  const sellers = `${competitors.length} competitor${competitors.length === 1 ? '' : 's'}${inStockOnly ? ' in stock' : ''}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`;
+
+  let referencePrice: number;
+  let price: number;
+  let explanation: string;
+  switch (config.strategy) {
+    case 'undercutLowest':
+      referencePrice = Math.min(...prices);
+      price = referencePrice * (1 - config.adjustmentPct / 100);
+      explanation = `Lowest price ${referencePrice.toFixed(2)} across ${sellers}, undercut by ${config.adjustmentPct}%.`;
+      break;
+    case 'premiumOverAverage':
+      referencePrice = weightedAverage(weighted);
+      price = referencePrice * (1 + config.adjustmentPct / 100);
+      explanation = `Average price ${referencePrice.toFixed(2)} across ${sellers}, plus a ${config.adjustmentPct}% premium.`;
+      break;
+    case 'matchMedian':
+    default:
+      referencePrice = weightedMedian(weighted);
+      price = referencePrice * (1 + config.adjustmentPct / 100);
+      explanation = config.adjustmentPct === 0
+        ? `Median price ${referencePrice.toFixed(2)} across ${sellers}.`
+        : `Median price ${referencePrice.toFixed(2)} across ${sellers}, adjusted by ${config.adjustmentPct}%.`;
+      break;
+  }
+
+  return {
+    price: round(Math.max(price, 0.01)),
+    referencePrice: round(referencePrice),
+    competitorsUsed: competitors.length,
+    config: { ...config },
+    explanation,
+  };
+};
+
+export const withRuleBasedPrice = (analysis: ProductAnalysis, config: PricingRuleConfig = getPricingRules()): ProductAnalysis => {
+  const ruleBasedPrice = computeRuleBasedPrice(analysis, config);
+  return ruleBasedPrice ? { ...analysis, ruleBasedPrice } : analysis;
+};
+
+/**
+ * How far the AI suggestion is from the rule-based price, in currency units and percent of the rule price.
+ * Neither side is clamped: the model's own price is used, from before guardrails were applied.
+ */
+export const aiVsRuleDifference = (analysis: ProductAnalysis): { amount: number; pct: number } | null => {
+  if (!analysis.ruleBasedPrice) return null;
+  const aiPrice = analysis.guardrails?.aiSuggestedPrice ?? analysis.suggestedPrice;
+  const amount = round(aiPrice - analysis.ruleBasedPrice.price);
+  return { amount, pct: (amount / analysis.ruleBasedPrice.price) * 100 };
+};
+
+export const strategyLabel = (strategy: PricingStrategy): string =>
+  PRICING_STRATEGIES.find(s => s.id === strategy)?.label || strategy;
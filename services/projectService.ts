@@ -0,0 +1,137 @@
+import type { CsvFieldMapping, CsvProduct, SingleProductInput } from '../types';
+import { createId } from '../utils/id';
+
+// Named projects, e.g. one per brand or catalogue. Each keeps its last inputs and CSV
+// field mappings here; settings services store their data under project-scoped keys
+// (see projectStorageKey) and history tags every run with its project.
+
+const PROJECTS_KEY = 'predictgenie.projects';
+const ACTIVE_PROJECT_KEY = 'predictgenie.activeProject';
+
+// Data saved before projects existed belongs to the default project, under unscoped keys
+export const DEFAULT_PROJECT_ID = 'default';
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: string;
+  urlInput?: SingleProductInput; // Last URL analysis; the form shows example URLs until set
+  products: CsvProduct[]; // Last batch product list
+  csvMappings: Record<string, CsvFieldMapping>; // By CSV column layout, see csvLayoutKey
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not save ${key}:`, error);
+  }
+  listeners.forEach(listener => listener());
+};
+
+// Notifies `listener` whenever a project or the active project changes. Returns an unsubscribe function.
+export const subscribeToProjects = (listener: Listener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const defaultProject = (): Project => ({ id: DEFAULT_PROJECT_ID, name: 'Default project', createdAt: new Date(0).toISOString(), products: [], csvMappings: {} });
+
+// The default project always exists, even before anything was saved
+export const listProjects = (): Project[] => {
+  const projects = readJson<Project[]>(PROJECTS_KEY, []);
+  return projects.some(project => project.id === DEFAULT_PROJECT_ID) ? projects : [defaultProject(), ...projects];
+};
+
+export const getActiveProjectId = (): string => {
+  const id = readJson<string>(ACTIVE_PROJECT_KEY, DEFAULT_PROJECT_ID);
+  return listProjects().some(project => project.id === id) ? id : DEFAULT_PROJECT_ID;
+};
+
+export const getActiveProject = (): Project => {
+  const id = getActiveProjectId();
+  return listProjects().find(project => project.id === id) || defaultProject();
+};
+
+export const setActiveProject = (id: string) => writeJson(ACTIVE_PROJECT_KEY, id);
+
+/** Storage key of per-project data; the default project keeps the original key. */
+export const projectStorageKey = (baseKey: string, projectId: string = getActiveProjectId()): string =>
+  projectId === DEFAULT_PROJECT_ID ? baseKey : `${baseKey}.${projectId}`;
+
+const validName = (name: string, projects: Project[], ignoreId?: string): string => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Please enter a project name.');
+  if (projects.some(project => project.id !== ignoreId && project.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`A project named "${trimmed}" already exists.`);
+  }
+  return trimmed;
+};
+
+/** Adds an empty project and returns it. Throws when the name is empty or taken. */
+export const createProject = (name: string, contents: Partial<Pick<Project, 'urlInput' | 'products' | 'csvMappings'>> = {}): Project => {
+  const projects = listProjects();
+  const project: Project = {
+    id: createId(),
+    name: validName(name, projects),
+    createdAt: new Date().toISOString(),
+    urlInput: { userProductUrl: '', competitorUrls: [''] },
+    products: [],
+    csvMappings: {},
+    ...contents,
+  };
+  writeJson(PROJECTS_KEY, [...projects, project]);
+  return project;
+};
+
+const updateProject = (id: string, update: (project: Project) => Project) => {
+  writeJson(PROJECTS_KEY, listProjects().map(project => (project.id === id ? update(project) : project)));
+};
+
+export const renameProject = (id: string, name: string) => {
+  const trimmed = validName(name, listProjects(), id);
+  updateProject(id, project => ({ ...project, name: trimmed }));
+};
+
+/**
+ * Removes a project and the settings stored under its keys. Its history runs are
+ * removed separately (historyService.clearHistory). The default project stays.
+ */
+export const deleteProject = (id: string) => {
+  if (id === DEFAULT_PROJECT_ID) throw new Error('The default project cannot be deleted.');
+  try {
+    Object.keys(localStorage)
+      .filter(key => key.startsWith('predictgenie.') && key.endsWith(`.${id}`))
+      .forEach(key => localStorage.removeItem(key));
+  } catch {
+    // Storage unavailable: nothing was stored for the project either
+  }
+  if (getActiveProjectId() === id) setActiveProject(DEFAULT_PROJECT_ID);
+  writeJson(PROJECTS_KEY, listProjects().filter(project => project.id !== id));
+};
+
+/** Remembers the inputs of the analysis just started in the active project. */
+export const rememberProjectInput = (input: { urlInput: SingleProductInput } | { products: CsvProduct[] }) => {
+  updateProject(getActiveProjectId(), project => ({ ...project, ...input }));
+};
+
+// Files with the same columns, in any order, share a layout
+const csvLayoutKey = (headers: string[]): string => [...headers].sort().join('\u0000');
+
+export const findCsvMapping = (headers: string[]): CsvFieldMapping | undefined => getActiveProject().csvMappings[csvLayoutKey(headers)];
+
+export const rememberCsvMapping = (headers: string[], mapping: CsvFieldMapping) => {
+  updateProject(getActiveProjectId(), project => ({ ...project, csvMappings: { ...project.csvMappings, [csvLayoutKey(headers)]: mapping } }));
+};
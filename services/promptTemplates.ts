@@ -0,0 +1,152 @@
+import type { AnalysisConfig, AnalysisResult, AnalysisSettings, AnalysisStrategy, PromptTemplates } from '../types';
+
+// Analysis strategies, models and prompt templates. Shared by the settings UI and the
+// server, which renders the prompts from these (server/geminiAnalysis.ts).
+
+export const ANALYSIS_STRATEGIES: { id: AnalysisStrategy; label: string; instruction: string }[] = [
+  {
+    id: 'balanced',
+    label: 'Balanced',
+    instruction: 'This price should aim to maximize profitability while remaining competitive.',
+  },
+  {
+    id: 'marketShare',
+    label: 'Aggressive market share',
+    instruction: 'This price should win volume from competitors: aim at or just below the lowest in-stock competitor selling the same item, accepting a thinner margin.',
+  },
+  {
+    id: 'premium',
+    label: 'Premium positioning',
+    instruction: 'This price should position the product as a premium offer: aim above the market median where the product, brand or seller justifies it, and do not undercut competitors.',
+  },
+  {
+    id: 'clearance',
+    label: 'Clearance',
+    instruction: 'This price should clear the remaining stock quickly: aim below most competitors, putting sell-through ahead of margin.',
+  },
+  {
+    id: 'priceMatch',
+    label: 'Price match',
+    instruction: 'This price should match the lowest in-stock competitor selling exactly the same item and never go below it. If there is no such competitor, keep the current price.',
+  },
+];
+
+export const isAnalysisStrategy = (value: unknown): value is AnalysisStrategy =>
+  ANALYSIS_STRATEGIES.some(strategy => strategy.id === value);
+
+const findStrategy = (id: AnalysisStrategy) => ANALYSIS_STRATEGIES.find(strategy => strategy.id === id) || ANALYSIS_STRATEGIES[0];
+
+export const analysisStrategyLabel = (id: AnalysisStrategy): string => findStrategy(id).label;
+
+export const strategyInstruction = (id: AnalysisStrategy): string => findStrategy(id).instruction;
+
+// Models the server accepts; the first is the default
+export const ANALYSIS_MODELS = ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'];
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2 };
+
+export const MAX_TEMPLATE_LENGTH = 20000;
+
+export const BUILTIN_TEMPLATE_VERSION = 0;
+
+export const DEFAULT_ANALYSIS_CONFIG: AnalysisConfig = { strategy: 'balanced', model: ANALYSIS_MODELS[0], temperature: 0.5 };
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = { ...DEFAULT_ANALYSIS_CONFIG, templateVersion: BUILTIN_TEMPLATE_VERSION };
+
+export interface TemplatePlaceholder {
+  name: string;
+  description: string;
+  required?: boolean; // The prompt is useless without it
+}
+
+const SHARED_PLACEHOLDERS: TemplatePlaceholder[] = [
+  { name: 'strategy', description: 'Instruction for the selected pricing strategy' },
+  { name: 'facts', description: 'Facts read from the pages, or nothing when none could be read' },
+  { name: 'sameItemRule', description: 'Rule against basing the price on bundles, variants or used units' },
+];
+
+export const TEMPLATE_PLACEHOLDERS: Record<keyof PromptTemplates, TemplatePlaceholder[]> = {
+  single: [
+    { name: 'userProductUrl', description: "The user's product page", required: true },
+    { name: 'competitors', description: 'The competitor URLs, or a note that none were given', required: true },
+    { name: 'currency', description: "Currency of the user's product" },
+    { name: 'discoverInstruction', description: 'Asks for more competitors from web search, when requested' },
+    { name: 'constraints', description: 'Sentence with the pricing constraints, or nothing' },
+    ...SHARED_PLACEHOLDERS,
+  ],
+  batch: [
+    { name: 'products', description: 'One line per product with price, URL, identifiers, competitors and constraints', required: true },
+    ...SHARED_PLACEHOLDERS,
+  ],
+};
+
+// The server appends the expected JSON format to both, so edits can't break parsing
+export const BUILTIN_TEMPLATES: PromptTemplates = {
+  single: `You are PredictGenie, an expert AI pricing analyst for e-commerce businesses. Your goal is to provide actionable pricing intelligence.
+
+Analyze the user's product and their competitors. Use your web search tool to look up current prices and availability. Where verified facts are listed below, use them as given. For any value you could not find, give your best estimate and say in the reasoning which values are estimated. The user's product is sold in {{currency}}; report each competitor's price in the currency it is listed in on that site, with its ISO 4217 code in the currency field. Also report stock status and recent price trends for competitors. {{sameItemRule}}
+{{discoverInstruction}}
+User's product URL: {{userProductUrl}}
+{{competitors}}
+
+{{facts}}
+Based on your analysis of the competitive landscape, determine a selling price for the user's product in {{currency}}. {{strategy}}{{constraints}}
+
+Provide a concise market summary and a detailed reasoning for your price suggestion. The reasoning should clearly reference competitor data points (prices, stock, etc.).`,
+  batch: `You are PredictGenie, an expert AI pricing analyst for e-commerce businesses. Your goal is to provide actionable pricing intelligence for a batch of products.
+
+Analyze the following list of products. For each product:
+1.  If competitor URLs are provided, analyze them directly.
+2.  If competitor URLs are NOT provided, you MUST use your web search tool to find 2-3 top online competitors for the given product name.
+3.  For each competitor found or provided, report its product name, its current price in the currency listed on that site (with its ISO 4217 code in a 'currency' field), its stock status and recent price trend. Use the verified facts below where they exist and say in the reasoning when a value had to be estimated. {{sameItemRule}} When a product has a GTIN or MPN, use it to find the same item.
+4.  Suggest a price for each product. {{strategy}}
+5.  Provide a concise market summary and detailed reasoning for each product's price suggestion.
+
+Batch Product Data:
+{{products}}
+
+{{facts}}`,
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Fills in `{{name}}` placeholders; names without a value are left as written. */
+export const renderTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(PLACEHOLDER_PATTERN, (match, name: string) => (Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match));
+
+const TEMPLATE_LABELS: Record<keyof PromptTemplates, string> = { single: 'The URL analysis template', batch: 'The batch template' };
+
+/**
+ * Reasons the templates can't be used: empty or too long, unknown placeholders or
+ * missing required ones. Empty when they are fine.
+ */
+export const templateProblems = (templates: PromptTemplates): string[] => {
+  const problems: string[] = [];
+  (['single', 'batch'] as const).forEach(kind => {
+    const text = templates[kind];
+    const label = TEMPLATE_LABELS[kind];
+    if (typeof text !== 'string' || !text.trim()) {
+      problems.push(`${label} is empty.`);
+      return;
+    }
+    if (text.length > MAX_TEMPLATE_LENGTH) problems.push(`${label} is longer than ${MAX_TEMPLATE_LENGTH} characters.`);
+    const known = TEMPLATE_PLACEHOLDERS[kind];
+    const used = new Set([...text.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]));
+    const unknown = [...used].filter(name => !known.some(placeholder => placeholder.name === name));
+    if (unknown.length > 0) problems.push(`${label} uses unknown placeholders: ${unknown.map(name => `{{${name}}}`).join(', ')}.`);
+    const missing = known.filter(placeholder => placeholder.required && !used.has(placeholder.name));
+    if (missing.length > 0) problems.push(`${label} must contain ${missing.map(placeholder => `{{${placeholder.name}}}`).join(' and ')}.`);
+  });
+  return problems;
+};
+
+export const templateVersionLabel = (version: number): string =>
+  version === BUILTIN_TEMPLATE_VERSION ? 'built-in template' : `template v${version}`;
+
+// One line for results and history, e.g. "Premium positioning · gemini-2.5-pro · temperature 0.2 · template v3"
+export const describeAnalysisSettings = (settings: AnalysisSettings): string =>
+  `${analysisStrategyLabel(settings.strategy)} · ${settings.model} · temperature ${settings.temperature} · ${templateVersionLabel(settings.templateVersion)}`;
+
+// The different settings a run's results were produced with; more than one when a batch was resumed after a change
+export const describeResultSettings = (results: AnalysisResult): string[] =>
+  [...new Set(results.flatMap(result => (result.settings ? [describeAnalysisSettings(result.settings)] : [])))];
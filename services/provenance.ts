@@ -0,0 +1,84 @@
+import type { Competitor, CompetitorField, DataOrigin, FieldProvenance, ScrapedProduct } from '../types';
+
+// Provenance helpers shared by the server (which knows what was scraped or grounded)
+// and the app (which treats anything unaccounted for as a model estimate).
+
+export const COMPETITOR_FIELDS: CompetitorField[] = ['productName', 'price', 'stockStatus', 'priceTrend'];
+
+export const ORIGIN_CONFIDENCE: Record<DataOrigin, number> = {
+  scraped: 0.9,
+  grounded: 0.6,
+  estimated: 0.3,
+};
+
+// JSON-LD is written for machines and rarely stale; OpenGraph tags often are
+export const SCRAPE_SOURCE_CONFIDENCE: Record<ScrapedProduct['sources'][number], number> = {
+  'json-ld': 0.95,
+  'microdata': 0.9,
+  'opengraph': 0.8,
+};
+
+export const ORIGIN_LABELS: Record<DataOrigin, string> = {
+  scraped: 'Scraped',
+  grounded: 'Web search',
+  estimated: 'Estimated',
+};
+
+const ORIGINS = Object.keys(ORIGIN_CONFIDENCE) as DataOrigin[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Lower-cased hostname without "www.", or '' for anything that isn't a URL. */
+export const hostOf = (url: string): string => {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+export const estimated = (confidence = ORIGIN_CONFIDENCE.estimated): FieldProvenance => ({ origin: 'estimated', confidence });
+
+/**
+ * Reads a provenance object from untrusted JSON. Unknown fields and origins are dropped,
+ * and confidence is clamped to 0..1. Fields without a usable entry are marked estimated.
+ */
+export const sanitizeProvenance = (raw: unknown): Record<CompetitorField, FieldProvenance> => {
+  const source = isRecord(raw) ? raw : {};
+  const result = {} as Record<CompetitorField, FieldProvenance>;
+  COMPETITOR_FIELDS.forEach(field => {
+    const entry = source[field];
+    if (!isRecord(entry) || !ORIGINS.includes(entry.origin as DataOrigin)) {
+      result[field] = estimated();
+      return;
+    }
+    const origin = entry.origin as DataOrigin;
+    const confidence = typeof entry.confidence === 'number' && Number.isFinite(entry.confidence)
+      ? Math.min(1, Math.max(0, entry.confidence))
+      : ORIGIN_CONFIDENCE[origin];
+    result[field] = {
+      origin,
+      confidence,
+      ...(typeof entry.sourceUrl === 'string' && entry.sourceUrl ? { sourceUrl: entry.sourceUrl } : {}),
+      ...(typeof entry.fetchedAt === 'string' && entry.fetchedAt ? { fetchedAt: entry.fetchedAt } : {}),
+    };
+  });
+  return result;
+};
+
+export const fieldOrigin = (competitor: Competitor, field: CompetitorField): DataOrigin =>
+  competitor.provenance?.[field]?.origin || 'estimated';
+
+export const isEstimated = (competitor: Competitor, field: CompetitorField): boolean =>
+  fieldOrigin(competitor, field) === 'estimated';
+
+// Tooltip text, e.g. "Scraped from https://... on 3 Mar 2026, 10:04 (95% confidence)"
+export const describeProvenance = (provenance: FieldProvenance | undefined): string => {
+  if (!provenance || provenance.origin === 'estimated') {
+    return `Estimated by the model, not read from a source (${Math.round((provenance?.confidence ?? ORIGIN_CONFIDENCE.estimated) * 100)}% confidence). Verify before repricing.`;
+  }
+  const verb = provenance.origin === 'scraped' ? 'Scraped from' : 'Backed by a web search result from';
+  const when = provenance.fetchedAt ? ` on ${new Date(provenance.fetchedAt).toLocaleString()}` : '';
+  return `${verb} ${provenance.sourceUrl || 'an unknown source'}${when} (${Math.round(provenance.confidence * 100)}% confidence)`;
+};
@@ -0,0 +1,43 @@
+import type { AnalysisResult, PriceUpdate, RepriceReport, RepriceStatus } from '../types';
+import { postJson } from './apiClient';
+import { approvedPrice } from './reviewService';
+
+// Sends approved prices to the store connector on the server (server/repricing.ts).
+// A dry run returns the diff against the store's current prices without writing anything.
+
+export const REPRICE_STATUS_LABELS: Record<RepriceStatus, string> = {
+  updated: 'Updated',
+  wouldUpdate: 'Will change',
+  unchanged: 'Already at price',
+  notFound: 'Not in store',
+  blocked: 'Blocked by guardrails',
+  failed: 'Failed',
+};
+
+/** Price updates for every accepted or overridden result. Results with neither a SKU nor a URL can't be matched and are listed in `skipped`. */
+export const buildPriceUpdates = (results: AnalysisResult): { updates: PriceUpdate[]; skipped: string[] } => {
+  const updates: PriceUpdate[] = [];
+  const skipped: string[] = [];
+  results.forEach(analysis => {
+    const newPrice = approvedPrice(analysis);
+    if (newPrice === undefined) return;
+    const { url, sku, productName, currency, constraints } = analysis.userProduct;
+    if (!url && !sku) {
+      skipped.push(productName);
+      return;
+    }
+    updates.push({
+      ...(sku ? { sku } : {}),
+      ...(url ? { productUrl: url } : {}),
+      productName,
+      newPrice,
+      ...(currency ? { currency } : {}),
+      ...(constraints ? { constraints } : {}),
+    });
+  });
+  return { updates, skipped };
+};
+
+// `secret` is the server's REPRICE_TOKEN; the route is refused without it
+export const repriceStore = (updates: PriceUpdate[], dryRun: boolean, secret: string, signal?: AbortSignal): Promise<RepriceReport> =>
+  postJson<RepriceReport>('/api/reprice', { updates, dryRun }, signal, { 'X-Reprice-Token': secret });
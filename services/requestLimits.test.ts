@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import type { CsvProduct } from '../types';
+import { batchProductProblem } from './requestLimits';
+
+const row = (overrides: Partial<CsvProduct> = {}): CsvProduct => ({
+  productName: 'Kettle',
+  currentPrice: 40,
+  userProductUrl: 'https://shop.example/kettle',
+  competitorUrls: ['https://other.example/kettle'],
+  ...overrides,
+});
+
+describe('batchProductProblem', () => {
+  it('accepts a row the server accepts', () => {
+    expect(batchProductProblem(row({ currency: 'eur', sku: 'K-1' }))).toBeNull();
+  });
+
+  it.each([
+    [{ currentPrice: 0 }, 'The current price must be a positive number.'],
+    [{ productName: 'x'.repeat(501) }, 'The product name is longer than 500 characters.'],
+    [{ competitorUrls: Array.from({ length: 21 }, (_, i) => `https://shop${i}.example/`) }, 'At most 20 competitor URLs can be analyzed per product; this row has 21.'],
+    [{ currency: 'euro' }, '"euro" is not an ISO 4217 currency code.'],
+    [{ gtin: '1'.repeat(65) }, 'The GTIN is longer than 64 characters.'],
+  ])('rejects %j', (overrides, problem) => {
+    expect(batchProductProblem(row(overrides))).toBe(problem);
+  });
+});
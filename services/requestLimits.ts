@@ -0,0 +1,25 @@
+import type { CsvProduct } from '../types';
+import { isCurrencyCode } from './currencyService';
+
+// Limits the server API enforces on every product it is sent (server/api.ts). The app
+// checks batch rows against them first, so one bad row fails on its own instead of
+// getting the whole chunk it was sent with rejected.
+
+export const MAX_URL_LENGTH = 2048;
+export const MAX_NAME_LENGTH = 500;
+export const MAX_IDENTIFIER_LENGTH = 64;
+export const MAX_COMPETITORS = 20;
+
+/** Why the server would reject this batch row, or null when it would accept it. */
+export const batchProductProblem = (product: CsvProduct): string | null => {
+  if (!product.productName.trim()) return 'The product name is empty.';
+  if (product.productName.length > MAX_NAME_LENGTH) return `The product name is longer than ${MAX_NAME_LENGTH} characters.`;
+  if (!Number.isFinite(product.currentPrice) || product.currentPrice <= 0) return 'The current price must be a positive number.';
+  if (product.userProductUrl.length > MAX_URL_LENGTH) return `The product URL is longer than ${MAX_URL_LENGTH} characters.`;
+  if (product.competitorUrls.length > MAX_COMPETITORS) return `At most ${MAX_COMPETITORS} competitor URLs can be analyzed per product; this row has ${product.competitorUrls.length}.`;
+  if (product.competitorUrls.some(url => !url.trim() || url.length > MAX_URL_LENGTH)) return `Competitor URLs must be non-empty and at most ${MAX_URL_LENGTH} characters long.`;
+  if (product.currency && !isCurrencyCode(product.currency)) return `"${product.currency}" is not an ISO 4217 currency code.`;
+  const longIdentifier = (['sku', 'gtin', 'mpn'] as const).find(key => (product[key] || '').length > MAX_IDENTIFIER_LENGTH);
+  if (longIdentifier) return `The ${longIdentifier.toUpperCase()} is longer than ${MAX_IDENTIFIER_LENGTH} characters.`;
+  return null;
+};
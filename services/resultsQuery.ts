@@ -0,0 +1,121 @@
+import type { ProductAnalysis } from '../types';
+import { priceChangePct } from './exportService';
+import { isEstimated } from './provenance';
+import { reviewStatus } from './reviewService';
+import { isMismatch } from './matchingService';
+
+// Search, filters, sorting and paging for the batch results table. Rows keep their
+// position in the run so selections survive re-sorting.
+
+export type ResultsSortKey = 'input' | 'productName' | 'currentPrice' | 'suggestedPrice' | 'changePct' | 'marginPct';
+
+export type ResultsFilter = 'all' | 'increase' | 'decrease' | 'outOfStock' | 'guardrail' | 'estimated' | 'mismatch' | 'warnings' | 'pending' | 'approved' | 'rejected';
+
+export const RESULTS_FILTERS: { id: ResultsFilter; label: string }[] = [
+  { id: 'all', label: 'All products' },
+  { id: 'increase', label: 'Price increase above threshold' },
+  { id: 'decrease', label: 'Price decrease above threshold' },
+  { id: 'outOfStock', label: 'Any competitor out of stock' },
+  { id: 'guardrail', label: 'Adjusted or flagged by a guardrail' },
+  { id: 'estimated', label: 'Has estimated competitor prices' },
+  { id: 'mismatch', label: 'Has likely mismatched competitors' },
+  { id: 'warnings', label: 'Has data quality warnings' },
+  { id: 'pending', label: 'Awaiting review' },
+  { id: 'approved', label: 'Accepted or overridden' },
+  { id: 'rejected', label: 'Rejected' },
+];
+
+export interface ResultsQuery {
+  search: string; // Matched against the product name, case-insensitive
+  filter: ResultsFilter;
+  thresholdPct: number; // For the increase and decrease filters
+  sortKey: ResultsSortKey;
+  sortDirection: 'asc' | 'desc';
+}
+
+export const DEFAULT_RESULTS_QUERY: ResultsQuery = {
+  search: '',
+  filter: 'all',
+  thresholdPct: 5,
+  sortKey: 'input',
+  sortDirection: 'asc',
+};
+
+export interface ResultRow {
+  item: ProductAnalysis;
+  index: number; // Position in the run's results
+}
+
+const matchesFilter = (item: ProductAnalysis, { filter, thresholdPct }: ResultsQuery): boolean => {
+  switch (filter) {
+    case 'increase':
+      return priceChangePct(item) > thresholdPct;
+    case 'decrease':
+      return priceChangePct(item) < -thresholdPct;
+    case 'outOfStock':
+      return item.competitors.some(c => c.stockStatus === 'Out of Stock');
+    case 'guardrail':
+      return (item.guardrails?.violations.length ?? 0) > 0;
+    case 'estimated':
+      return item.competitors.some(c => isEstimated(c, 'price'));
+    case 'mismatch':
+      return item.competitors.some(isMismatch);
+    case 'warnings':
+      return (item.validationIssues?.length ?? 0) > 0;
+    case 'pending':
+      return reviewStatus(item) === 'pending';
+    case 'approved':
+      return reviewStatus(item) === 'accepted' || reviewStatus(item) === 'overridden';
+    case 'rejected':
+      return reviewStatus(item) === 'rejected';
+    default:
+      return true;
+  }
+};
+
+// Rows without a value (e.g. no margin) sort last in either direction
+const sortValue = (item: ProductAnalysis, key: ResultsSortKey): number | string | undefined => {
+  switch (key) {
+    case 'productName':
+      return item.userProduct.productName.toLowerCase();
+    case 'currentPrice':
+      return item.userProduct.currentPrice;
+    case 'suggestedPrice':
+      return item.suggestedPrice;
+    case 'changePct':
+      return priceChangePct(item);
+    case 'marginPct':
+      return item.guardrails?.marginPct;
+    default:
+      return undefined;
+  }
+};
+
+/** Applies the search, filter and sort to a run's results. */
+export const queryResults = (results: ProductAnalysis[], query: ResultsQuery): ResultRow[] => {
+  const search = query.search.trim().toLowerCase();
+  const rows = results
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => (!search || item.userProduct.productName.toLowerCase().includes(search)) && matchesFilter(item, query));
+
+  if (query.sortKey === 'input') {
+    return query.sortDirection === 'asc' ? rows : rows.reverse();
+  }
+  const direction = query.sortDirection === 'asc' ? 1 : -1;
+  const withValues = rows.map(row => ({ row, value: sortValue(row.item, query.sortKey) }));
+  withValues.sort((a, b) => {
+    if (a.value === undefined || b.value === undefined) {
+      return a.value === b.value ? a.row.index - b.row.index : a.value === undefined ? 1 : -1;
+    }
+    if (a.value === b.value) return a.row.index - b.row.index;
+    return (a.value < b.value ? -1 : 1) * direction;
+  });
+  return withValues.map(({ row }) => row);
+};
+
+/** Slices out one page; `page` is clamped to the pages that exist. */
+export const paginate = <T>(rows: T[], page: number, pageSize: number): { rows: T[]; page: number; pageCount: number } => {
+  const pageCount = Math.max(1, Math.ceil(rows.length / pageSize));
+  const current = Math.min(Math.max(0, page), pageCount - 1);
+  return { rows: rows.slice(current * pageSize, (current + 1) * pageSize), page: current, pageCount };
+};
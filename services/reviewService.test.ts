@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import type { ProductAnalysis } from '../types';
+import { overrideSuggestion } from './reviewService';
+
+const analysis = (constraints?: ProductAnalysis['userProduct']['constraints']): ProductAnalysis => ({
+  userProduct: { productName: 'Desk lamp', currentPrice: 40, constraints },
+  competitors: [{ url: 'https://other.example/lamp', productName: 'Desk lamp', price: 41, stockStatus: 'In Stock', priceTrend: 'stable' }],
+  suggestedPrice: 42,
+  reasoning: 'Priced just above the competitor.',
+  marketSummary: 'One competitor at $41.',
+});
+
+describe('overrideSuggestion', () => {
+  it('records a price within the constraints', () => {
+    const review = overrideSuggestion(analysis({ floorPrice: 30, ceilingPrice: 60 }), 45.678, ' matched the shop next door ');
+    expect(review).toMatchObject({ decision: 'overridden', price: 45.68, note: 'matched the shop next door' });
+  });
+
+  it.each([
+    [{ floorPrice: 30 }, 29.99, /below the floor price/],
+    [{ mapPrice: 35 }, 34, /below the MAP/],
+    [{ cost: 30, minMarginPct: 25 }, 39, /needed for a 25% margin/],
+    [{ cost: 30 }, 29, /below the unit cost/],
+    [{ ceilingPrice: 50 }, 50.01, /above the ceiling price/],
+  ])('blocks prices that break %j', (constraints, price, message) => {
+    expect(() => overrideSuggestion(analysis(constraints), price)).toThrow(message);
+  });
+
+  it('rejects prices that are not positive', () => {
+    expect(() => overrideSuggestion(analysis(), 0)).toThrow('An override price must be a positive number.');
+  });
+});
@@ -0,0 +1,77 @@
+import type { AnalysisResult, PriceReview, ProductAnalysis, ReviewDecision } from '../types';
+import { priceChangePct } from './exportService';
+import { priceViolations } from './guardrailService';
+
+// Turns suggestions into decisions: each result can be accepted, rejected or overridden
+// with a note. Decisions are stored on the result itself, so they are saved with the
+// run in history and travel with JSON exports.
+
+export const REVIEW_LABELS: Record<ReviewDecision | 'pending', string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  overridden: 'Overridden',
+};
+
+export type ReviewStatus = ReviewDecision | 'pending';
+
+export const reviewStatus = (analysis: ProductAnalysis): ReviewStatus => analysis.review?.decision || 'pending';
+
+const trimNote = (note?: string) => (note && note.trim() ? note.trim() : undefined);
+
+export const acceptSuggestion = (analysis: ProductAnalysis, note?: string): PriceReview => ({
+  decision: 'accepted',
+  price: analysis.suggestedPrice,
+  note: trimNote(note),
+  decidedAt: new Date().toISOString(),
+});
+
+export const rejectSuggestion = (note?: string): PriceReview => ({
+  decision: 'rejected',
+  note: trimNote(note),
+  decidedAt: new Date().toISOString(),
+});
+
+/**
+ * The user's own price instead of the suggestion. Throws when it isn't a positive number
+ * or breaks the product's floor, MAP, margin or ceiling constraints, which the suggestion
+ * itself is held to by the guardrails.
+ */
+export const overrideSuggestion = (analysis: ProductAnalysis, price: number, note?: string): PriceReview => {
+  if (!Number.isFinite(price) || price <= 0) {
+    throw new Error('An override price must be a positive number.');
+  }
+  const rounded = Math.round(price * 100) / 100;
+  const violations = priceViolations(rounded, analysis.userProduct.constraints);
+  if (violations.length > 0) {
+    throw new Error(`Not allowed by this product's constraints: ${violations.map(v => v.message).join(' ')}`);
+  }
+  return { decision: 'overridden', price: rounded, note: trimNote(note), decidedAt: new Date().toISOString() };
+};
+
+/** The price to publish, or undefined when the suggestion is pending or rejected. */
+export const approvedPrice = (analysis: ProductAnalysis): number | undefined =>
+  analysis.review && analysis.review.decision !== 'rejected' ? analysis.review.price : undefined;
+
+/** Indices of pending results whose suggested change is smaller than `maxChangePct` either way. */
+export const smallChangeIndices = (results: AnalysisResult, maxChangePct: number): number[] =>
+  results
+    .map((analysis, index) => ({ analysis, index }))
+    .filter(({ analysis }) => !analysis.review && Math.abs(priceChangePct(analysis)) < maxChangePct)
+    .map(({ index }) => index);
+
+/** Returns a copy of the results with the given reviews applied; `null` clears a decision. */
+export const applyReviews = (results: AnalysisResult, reviews: Record<number, PriceReview | null>): AnalysisResult =>
+  results.map((analysis, index) => {
+    if (!(index in reviews)) return analysis;
+    const review = reviews[index];
+    if (review) return { ...analysis, review };
+    const { review: _cleared, ...rest } = analysis;
+    return rest;
+  });
+
+export const countReviews = (results: AnalysisResult): Record<ReviewStatus, number> => {
+  const counts: Record<ReviewStatus, number> = { pending: 0, accepted: 0, rejected: 0, overridden: 0 };
+  results.forEach(analysis => { counts[reviewStatus(analysis)]++; });
+  return counts;
+};
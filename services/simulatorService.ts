@@ -0,0 +1,111 @@
+import type { Competitor, ElasticityConfig, ElasticityModel, ProductAnalysis } from '../types';
+import { calculateMargin } from './guardrailService';
+
+// What-if pricing: where a candidate price would sit in the market and what it might do
+// to units, revenue and profit. Demand is estimated from the current price with a
+// simple elasticity model; it is a rough guide, not a forecast.
+
+const SETTINGS_KEY = 'predictgenie.elasticity';
+
+export const ELASTICITY_MODELS: { id: ElasticityModel; label: string; description: string }[] = [
+  { id: 'constant', label: 'Constant elasticity', description: 'Units scale with (new price / current price) ^ elasticity.' },
+  { id: 'linear', label: 'Linear', description: 'Units change by elasticity x the % price change, never below zero.' },
+];
+
+export const DEFAULT_ELASTICITY: ElasticityConfig = {
+  model: 'constant',
+  elasticity: -1.5,
+};
+
+let cachedElasticity: ElasticityConfig | null = null;
+
+export const getElasticityConfig = (): ElasticityConfig => {
+  if (!cachedElasticity) {
+    try {
+      const stored = localStorage.getItem(SETTINGS_KEY);
+      cachedElasticity = stored ? { ...DEFAULT_ELASTICITY, ...JSON.parse(stored) } : DEFAULT_ELASTICITY;
+    } catch {
+      cachedElasticity = DEFAULT_ELASTICITY;
+    }
+  }
+  return cachedElasticity!;
+};
+
+export const saveElasticityConfig = (config: ElasticityConfig) => {
+  cachedElasticity = config;
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.warn('Could not save elasticity settings:', error);
+  }
+};
+
+export interface CompetitorPosition {
+  competitor: Competitor;
+  difference: number; // Candidate minus competitor price
+  differencePct: number;
+}
+
+export interface PriceSimulation {
+  price: number;
+  positions: CompetitorPosition[]; // Competitors priced in the product's currency
+  rank: number; // 1 = cheapest among the candidate and those competitors
+  rankedCount: number;
+  margin?: number; // Set when the cost is known
+  marginPct?: number;
+  demandChangePct: number; // Relative to selling at the current price
+  revenueChangePct: number;
+  profitChangePct?: number; // Set when the cost is known and the current price makes a profit
+}
+
+/** Units sold at `price` relative to `currentPrice` (1 = unchanged). */
+export const demandRatio = (price: number, currentPrice: number, { model, elasticity }: ElasticityConfig): number => {
+  if (currentPrice <= 0 || price <= 0) return 1;
+  if (model === 'linear') {
+    return Math.max(0, 1 + elasticity * ((price - currentPrice) / currentPrice));
+  }
+  return Math.pow(price / currentPrice, elasticity);
+};
+
+/** Compares a candidate price with the market and the current price. */
+export const simulatePrice = (analysis: ProductAnalysis, price: number, config: ElasticityConfig): PriceSimulation => {
+  const { currentPrice, currency, constraints } = analysis.userProduct;
+  const positions = analysis.competitors
+    .filter(c => c.price > 0 && (!currency || !c.currency || c.currency === currency))
+    .map(competitor => ({
+      competitor,
+      difference: price - competitor.price,
+      differencePct: ((price - competitor.price) / competitor.price) * 100,
+    }));
+
+  const units = demandRatio(price, currentPrice, config);
+  const simulation: PriceSimulation = {
+    price,
+    positions,
+    // Ties count in the candidate's favour
+    rank: positions.filter(p => p.competitor.price < price).length + 1,
+    rankedCount: positions.length + 1,
+    demandChangePct: (units - 1) * 100,
+    revenueChangePct: currentPrice > 0 ? ((price * units) / currentPrice - 1) * 100 : 0,
+  };
+
+  const cost = constraints?.cost;
+  const margin = calculateMargin(price, cost);
+  if (margin && cost !== undefined) {
+    simulation.margin = margin.margin;
+    simulation.marginPct = margin.marginPct;
+    const currentProfit = currentPrice - cost;
+    if (currentProfit > 0) {
+      simulation.profitChangePct = (((price - cost) * units) / currentProfit - 1) * 100;
+    }
+  }
+  return simulation;
+};
+
+/** Range for the simulator slider: around the current price, the AI suggestion and every competitor. */
+export const simulationRange = (analysis: ProductAnalysis): { min: number; max: number } => {
+  const prices = [analysis.userProduct.currentPrice, analysis.suggestedPrice, ...analysis.competitors.map(c => c.price)].filter(p => p > 0);
+  const low = Math.min(...prices);
+  const high = Math.max(...prices);
+  return { min: Math.floor(low * 0.7 * 100) / 100, max: Math.ceil(high * 1.3 * 100) / 100 };
+};
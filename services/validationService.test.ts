@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { validateBatchResults, validateProductAnalysis } from './validationService';
+
+const base = {
+  userProduct: { productName: 'Kettle', currentPrice: 40, url: 'https://shop.example/kettle' },
+  competitors: [{ url: 'https://other.example/kettle', productName: 'Kettle', price: '1.299,00 €', stockStatus: 'In Stock', priceTrend: 'stable' }],
+  suggestedPrice: '$1,299.00',
+  reasoning: 'Reasons.',
+  marketSummary: 'Summary.',
+};
+
+describe('validateProductAnalysis', () => {
+  it('reads price strings in either number format', () => {
+    const { analysis } = validateProductAnalysis(base);
+    expect(analysis?.suggestedPrice).toBe(1299);
+    expect(analysis?.competitors[0].price).toBe(1299);
+  });
+
+  it('keeps well-formed exported fields, rebuilt from known keys', () => {
+    const { analysis } = validateProductAnalysis({
+      ...base,
+      sources: [{ web: { uri: 'https://other.example/kettle', title: 'other.example' } }, { web: {} }],
+      guardrails: { aiSuggestedPrice: 1200, marginPct: 20, violations: [{ rule: 'floor', message: 'Raised to the floor.', action: 'clamped', extra: 1 }] },
+      ruleBasedPrice: { price: 1250, referencePrice: 1299, competitorsUsed: 1, config: { strategy: 'matchMedian', adjustmentPct: -3, excludeOutOfStock: true }, explanation: 'Median.' },
+      scrapedPages: [{ url: 'https://other.example/kettle', fetchedAt: '2025-01-01T00:00:00.000Z', sources: ['json-ld', 'html'], price: 1299, stockStatus: 'In Stock' }],
+      review: { decision: 'overridden', price: 1249, note: 'Rounded', decidedAt: '2025-01-02T00:00:00.000Z' },
+      settings: { strategy: 'premium', model: 'gemini-2.5-pro', temperature: 0.2, templateVersion: 3 },
+    });
+    expect(analysis).toMatchObject({
+      sources: [{ web: { uri: 'https://other.example/kettle', title: 'other.example' } }],
+      guardrails: { aiSuggestedPrice: 1200, marginPct: 20, violations: [{ rule: 'floor', message: 'Raised to the floor.', action: 'clamped' }] },
+      ruleBasedPrice: { price: 1250, config: { strategy: 'matchMedian', adjustmentPct: -3, excludeOutOfStock: true } },
+      scrapedPages: [{ url: 'https://other.example/kettle', sources: ['json-ld'], price: 1299, stockStatus: 'In Stock' }],
+      review: { decision: 'overridden', price: 1249, note: 'Rounded' },
+      settings: { strategy: 'premium', model: 'gemini-2.5-pro', temperature: 0.2, templateVersion: 3 },
+    });
+    expect(analysis?.guardrails?.violations[0]).not.toHaveProperty('extra');
+  });
+
+  it('drops exported fields that are malformed instead of passing them through', () => {
+    const { analysis } = validateProductAnalysis({
+      ...base,
+      sources: 'https://other.example',
+      guardrails: { aiSuggestedPrice: 'lots', violations: [] },
+      ruleBasedPrice: { price: 1250, referencePrice: 1299, config: { strategy: 'guess', adjustmentPct: 0 } },
+      scrapedPages: [{ url: 'https://other.example/kettle' }, 'page'],
+      review: { decision: 'accepted', decidedAt: '2025-01-02T00:00:00.000Z' },
+      settings: { strategy: 'premium', model: 'gemini-2.5-pro', temperature: 'hot', templateVersion: 0 },
+    });
+    expect(analysis).not.toHaveProperty('sources');
+    expect(analysis).not.toHaveProperty('guardrails');
+    expect(analysis).not.toHaveProperty('ruleBasedPrice');
+    expect(analysis?.scrapedPages).toEqual([]);
+    expect(analysis).not.toHaveProperty('review');
+    expect(analysis).not.toHaveProperty('settings');
+  });
+});
+
+describe('validateBatchResults', () => {
+  it('keeps the submitted price and URL when the model reports different ones', () => {
+    const product = { productName: 'Kettle', currentPrice: 35, userProductUrl: 'https://shop.example/Kettle', competitorUrls: ['https://other.example/kettle'] };
+    const { results, failures } = validateBatchResults([{ ...base, userProduct: { productName: 'Kettle', currentPrice: 49.99, url: 'https://shop.example/kettle-2' } }], [product]);
+    expect(failures).toEqual([]);
+    expect(results[0].userProduct).toMatchObject({ currentPrice: 35, url: 'https://shop.example/Kettle' });
+  });
+});
@@ -0,0 +1,493 @@
+import { isCurrencyCode, parsePrice } from './currencyService';
+import { sanitizeConstraints } from './guardrailService';
+import { sanitizeProvenance, estimated } from './provenance';
+import { PRICING_STRATEGIES } from './pricingEngine';
+import { isAnalysisStrategy } from './promptTemplates';
+import type {
+  ProductAnalysis,
+  Competitor,
+  UserProduct,
+  CsvProduct,
+  ProductIdentifiers,
+  ProductMatch,
+  ValidationIssue,
+  AnalysisFailure,
+  BatchAnalysisResult,
+  AnalysisSettings,
+  GuardrailResult,
+  GuardrailViolation,
+  PriceReview,
+  RuleBasedPrice,
+  ScrapedProduct,
+} from '../types';
+
+// Model output is untrusted JSON. Everything here checks it against the shapes in types.ts,
+// repairs what can be repaired safely and rejects what cannot.
+
+const STOCK_STATUS_ALIASES: Record<string, Competitor['stockStatus']> = {
+  'in stock': 'In Stock',
+  'instock': 'In Stock',
+  'available': 'In Stock',
+  'low stock': 'Low Stock',
+  'lowstock': 'Low Stock',
+  'limited': 'Low Stock',
+  'limited stock': 'Low Stock',
+  'out of stock': 'Out of Stock',
+  'outofstock': 'Out of Stock',
+  'sold out': 'Out of Stock',
+  'unavailable': 'Out of Stock',
+};
+
+const PRICE_TREND_ALIASES: Record<string, Competitor['priceTrend']> = {
+  'up': 'up',
+  'increasing': 'up',
+  'rising': 'up',
+  'down': 'down',
+  'decreasing': 'down',
+  'falling': 'down',
+  'stable': 'stable',
+  'flat': 'stable',
+  'unchanged': 'stable',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nonEmptyString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+
+// Accepts numbers and price strings such as "$1,299.00" or "1.299,00 €" (see parsePrice). Returns null for anything else.
+const toPositiveNumber = (value: unknown): { value: number | null; coerced: boolean } => {
+  if (typeof value === 'number') {
+    return { value: Number.isFinite(value) && value > 0 ? value : null, coerced: false };
+  }
+  if (typeof value === 'string') {
+    const parsed = parsePrice(value);
+    return { value: parsed && parsed.amount > 0 ? parsed.amount : null, coerced: true };
+  }
+  return { value: null, coerced: false };
+};
+
+const finiteNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const optionalString = (value: unknown): string | undefined => nonEmptyString(value) || undefined;
+
+// Currency is optional everywhere; an unrecognizable code is dropped rather than guessed
+const validateCurrency = (value: unknown, path: string, issues: ValidationIssue[]): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (isCurrencyCode(value)) return value.trim().toUpperCase();
+  issues.push({ field: path, message: `Unknown currency ${JSON.stringify(value)} was ignored.`, severity: 'repaired' });
+  return undefined;
+};
+
+const IDENTIFIER_FIELDS: (keyof ProductIdentifiers)[] = ['sku', 'gtin', 'mpn'];
+const MATCH_VERDICTS: ProductMatch['verdict'][] = ['match', 'possible', 'mismatch'];
+const MATCH_BASES: ProductMatch['basis'][] = ['identifier', 'title'];
+const STOCK_STATUSES: Competitor['stockStatus'][] = ['In Stock', 'Low Stock', 'Out of Stock'];
+const GUARDRAIL_RULES: GuardrailViolation['rule'][] = ['minMargin', 'floor', 'ceiling', 'map', 'conflict'];
+const GUARDRAIL_ACTIONS: GuardrailViolation['action'][] = ['clamped', 'flagged'];
+const REVIEW_DECISIONS: PriceReview['decision'][] = ['accepted', 'rejected', 'overridden'];
+const SCRAPE_SOURCES: ScrapedProduct['sources'] = ['json-ld', 'microdata', 'opengraph'];
+
+// Identifiers are free-form codes; anything that isn't a short string is ignored
+const readIdentifiers = (source: Record<string, unknown> | ProductIdentifiers): ProductIdentifiers => {
+  const identifiers: ProductIdentifiers = {};
+  IDENTIFIER_FIELDS.forEach(key => {
+    const value = nonEmptyString(source[key]);
+    if (value && value.length <= 64) identifiers[key] = value;
+  });
+  return identifiers;
+};
+
+// The fields below come from the app itself and travel with re-imported exports. Each
+// reader rebuilds its object from known fields and returns undefined when it is unusable.
+
+const readMatch = (raw: unknown): ProductMatch | undefined => {
+  if (!isRecord(raw) || !MATCH_VERDICTS.includes(raw.verdict as ProductMatch['verdict']) || !Array.isArray(raw.reasons)) return undefined;
+  const score = finiteNumber(raw.score);
+  return {
+    verdict: raw.verdict as ProductMatch['verdict'],
+    score: score === undefined ? 0 : Math.min(1, Math.max(0, score)),
+    basis: MATCH_BASES.includes(raw.basis as ProductMatch['basis']) ? raw.basis as ProductMatch['basis'] : 'title',
+    reasons: raw.reasons.filter((reason): reason is string => typeof reason === 'string'),
+  };
+};
+
+const readSources = (raw: unknown): ProductAnalysis['sources'] => {
+  if (!Array.isArray(raw)) return undefined;
+  const sources = raw.flatMap(source => {
+    const web = isRecord(source) && isRecord(source.web) ? source.web : null;
+    const uri = web && nonEmptyString(web.uri);
+    return web && uri ? [{ web: { uri, title: nonEmptyString(web.title) || uri } }] : [];
+  });
+  return sources.length > 0 ? sources : undefined;
+};
+
+const readGuardrails = (raw: unknown): GuardrailResult | undefined => {
+  if (!isRecord(raw) || !Array.isArray(raw.violations)) return undefined;
+  const aiSuggestedPrice = toPositiveNumber(raw.aiSuggestedPrice).value;
+  if (aiSuggestedPrice === null) return undefined;
+  const result: GuardrailResult = {
+    aiSuggestedPrice,
+    violations: raw.violations.flatMap(violation =>
+      isRecord(violation) && GUARDRAIL_RULES.includes(violation.rule as GuardrailViolation['rule'])
+        && GUARDRAIL_ACTIONS.includes(violation.action as GuardrailViolation['action']) && typeof violation.message === 'string'
+        ? [{ rule: violation.rule as GuardrailViolation['rule'], message: violation.message, action: violation.action as GuardrailViolation['action'] }]
+        : []),
+  };
+  const margin = finiteNumber(raw.margin);
+  const marginPct = finiteNumber(raw.marginPct);
+  if (margin !== undefined) result.margin = margin;
+  if (marginPct !== undefined) result.marginPct = marginPct;
+  return result;
+};
+
+const readRuleBasedPrice = (raw: unknown): RuleBasedPrice | undefined => {
+  if (!isRecord(raw) || !isRecord(raw.config)) return undefined;
+  const price = toPositiveNumber(raw.price).value;
+  const referencePrice = toPositiveNumber(raw.referencePrice).value;
+  const strategy = PRICING_STRATEGIES.find(s => s.id === (raw.config as Record<string, unknown>).strategy)?.id;
+  const adjustmentPct = finiteNumber(raw.config.adjustmentPct);
+  if (price === null || referencePrice === null || !strategy || adjustmentPct === undefined) return undefined;
+  const competitorsUsed = finiteNumber(raw.competitorsUsed);
+  return {
+    price,
+    referencePrice,
+    competitorsUsed: competitorsUsed !== undefined && competitorsUsed >= 0 ? Math.round(competitorsUsed) : 0,
+    config: { strategy, adjustmentPct, excludeOutOfStock: raw.config.excludeOutOfStock === true },
+    explanation: typeof raw.explanation === 'string' ? raw.explanation : '',
+  };
+};
+
+const readScrapedPage = (raw: unknown): ScrapedProduct | null => {
+  if (!isRecord(raw)) return null;
+  const url = nonEmptyString(raw.url);
+  const fetchedAt = nonEmptyString(raw.fetchedAt);
+  if (!url || !fetchedAt) return null;
+  const page: ScrapedProduct = {
+    url,
+    fetchedAt,
+    sources: Array.isArray(raw.sources) ? SCRAPE_SOURCES.filter(source => (raw.sources as unknown[]).includes(source)) : [],
+    ...readIdentifiers(raw),
+  };
+  const productName = optionalString(raw.productName);
+  const price = typeof raw.price === 'number' ? toPositiveNumber(raw.price).value : null;
+  const currency = isCurrencyCode(raw.currency) ? raw.currency.trim().toUpperCase() : undefined;
+  const error = optionalString(raw.error);
+  if (productName) page.productName = productName;
+  if (price !== null) page.price = price;
+  if (currency) page.currency = currency;
+  if (STOCK_STATUSES.includes(raw.stockStatus as Competitor['stockStatus'])) page.stockStatus = raw.stockStatus as Competitor['stockStatus'];
+  if (error) page.error = error;
+  return page;
+};
+
+const readReview = (raw: unknown): PriceReview | undefined => {
+  if (!isRecord(raw) || !REVIEW_DECISIONS.includes(raw.decision as PriceReview['decision'])) return undefined;
+  const decidedAt = nonEmptyString(raw.decidedAt);
+  if (!decidedAt) return undefined;
+  const decision = raw.decision as PriceReview['decision'];
+  const price = typeof raw.price === 'number' ? toPositiveNumber(raw.price).value : null;
+  // Accepted and overridden decisions are only meaningful with the price that was approved
+  if (decision !== 'rejected' && price === null) return undefined;
+  const review: PriceReview = { decision, decidedAt };
+  if (decision !== 'rejected') review.price = price!;
+  const note = optionalString(raw.note);
+  if (note) review.note = note;
+  return review;
+};
+
+const ISSUE_SEVERITIES: ValidationIssue['severity'][] = ['repaired', 'warning', 'error'];
+
+const readIssues = (raw: unknown): ValidationIssue[] =>
+  Array.isArray(raw)
+    ? raw.flatMap(issue =>
+      isRecord(issue) && typeof issue.field === 'string' && typeof issue.message === 'string' && ISSUE_SEVERITIES.includes(issue.severity as ValidationIssue['severity'])
+        ? [{ field: issue.field, message: issue.message, severity: issue.severity as ValidationIssue['severity'] }]
+        : [])
+    : [];
+
+// Re-validating an imported result finds the issues it was exported with again; each is kept once
+const mergeIssues = (...lists: ValidationIssue[][]): ValidationIssue[] => {
+  const seen = new Set<string>();
+  return lists.flat().filter(issue => {
+    const key = `${issue.severity}\u0000${issue.field}\u0000${issue.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const readSettings = (raw: unknown): AnalysisSettings | undefined => {
+  if (!isRecord(raw) || !isAnalysisStrategy(raw.strategy)) return undefined;
+  const model = nonEmptyString(raw.model);
+  const temperature = finiteNumber(raw.temperature);
+  const templateVersion = finiteNumber(raw.templateVersion);
+  if (!model || temperature === undefined || templateVersion === undefined || !Number.isInteger(templateVersion) || templateVersion < 0) return undefined;
+  return { strategy: raw.strategy, model, temperature, templateVersion };
+};
+
+const validateCompetitor = (raw: unknown, path: string, issues: ValidationIssue[]): Competitor | null => {
+  if (!isRecord(raw)) {
+    issues.push({ field: path, message: 'Competitor entry is not an object and was dropped.', severity: 'repaired' });
+    return null;
+  }
+
+  const price = toPositiveNumber(raw.price);
+  if (price.value === null) {
+    issues.push({ field: `${path}.price`, message: `Invalid price ${JSON.stringify(raw.price)}; competitor was dropped.`, severity: 'repaired' });
+    return null;
+  }
+  if (price.coerced) {
+    issues.push({ field: `${path}.price`, message: `Price ${JSON.stringify(raw.price)} was converted to a number.`, severity: 'repaired' });
+  }
+
+  const rawStock = typeof raw.stockStatus === 'string' ? raw.stockStatus.trim().toLowerCase() : '';
+  const stockStatus = STOCK_STATUS_ALIASES[rawStock];
+  if (!stockStatus) {
+    issues.push({ field: `${path}.stockStatus`, message: `Unknown stock status ${JSON.stringify(raw.stockStatus)}; competitor was dropped.`, severity: 'repaired' });
+    return null;
+  }
+  if (stockStatus !== raw.stockStatus) {
+    issues.push({ field: `${path}.stockStatus`, message: `Stock status "${raw.stockStatus}" was normalized to "${stockStatus}".`, severity: 'repaired' });
+  }
+
+  const rawTrend = typeof raw.priceTrend === 'string' ? raw.priceTrend.trim().toLowerCase() : '';
+  // Missing origins default to "estimated"; values we had to make up get zero confidence
+  const provenance = sanitizeProvenance(raw.provenance);
+
+  let priceTrend = PRICE_TREND_ALIASES[rawTrend];
+  if (!priceTrend) {
+    priceTrend = 'stable';
+    provenance.priceTrend = estimated(0);
+    issues.push({ field: `${path}.priceTrend`, message: `Unknown price trend ${JSON.stringify(raw.priceTrend)}; assumed "stable".`, severity: 'repaired' });
+  } else if (priceTrend !== raw.priceTrend) {
+    issues.push({ field: `${path}.priceTrend`, message: `Price trend "${raw.priceTrend}" was normalized to "${priceTrend}".`, severity: 'repaired' });
+  }
+
+  let url = nonEmptyString(raw.url);
+  if (!url) {
+    url = '';
+    issues.push({ field: `${path}.url`, message: 'Competitor URL is missing.', severity: 'repaired' });
+  }
+
+  let productName = nonEmptyString(raw.productName);
+  if (!productName) {
+    productName = url || 'Unknown competitor product';
+    provenance.productName = estimated(0);
+    issues.push({ field: `${path}.productName`, message: 'Competitor product name is missing.', severity: 'repaired' });
+  }
+
+  const competitor: Competitor = { url, productName, price: price.value, stockStatus, priceTrend, provenance };
+  const currency = validateCurrency(raw.currency, `${path}.currency`, issues);
+  if (currency) competitor.currency = currency;
+  // Present on re-imported exports whose prices were already converted
+  const originalPrice = toPositiveNumber(raw.originalPrice).value;
+  if (originalPrice !== null && isCurrencyCode(raw.originalCurrency)) {
+    competitor.originalPrice = originalPrice;
+    competitor.originalCurrency = raw.originalCurrency.trim().toUpperCase();
+  }
+  if (raw.discovered === true) competitor.discovered = true;
+  Object.assign(competitor, readIdentifiers(raw));
+  // Present on re-imported exports; otherwise set after validation
+  const match = readMatch(raw.match);
+  if (match) competitor.match = match;
+  if (isRecord(raw.store) && typeof raw.store.id === 'string' && typeof raw.store.name === 'string' && typeof raw.store.trustWeight === 'number') {
+    competitor.store = { id: raw.store.id, name: raw.store.name, trustWeight: raw.store.trustWeight };
+  }
+  const landed = toPositiveNumber(raw.landedPrice).value;
+  if (landed !== null) competitor.landedPrice = landed;
+  return competitor;
+};
+
+const validateUserProduct = (raw: unknown, fallback: UserProduct | undefined, issues: ValidationIssue[]): UserProduct | null => {
+  const source = isRecord(raw) ? raw : {};
+  if (!isRecord(raw)) {
+    issues.push({ field: 'userProduct', message: 'User product is missing.', severity: fallback ? 'repaired' : 'error' });
+  }
+
+  let productName = nonEmptyString(source.productName);
+  if (!productName) {
+    if (!fallback) {
+      issues.push({ field: 'userProduct.productName', message: 'Product name is missing.', severity: 'error' });
+      return null;
+    }
+    productName = fallback.productName;
+    if (isRecord(raw)) {
+      issues.push({ field: 'userProduct.productName', message: 'Product name is missing; the submitted name was used.', severity: 'repaired' });
+    }
+  }
+
+  // The submitted price and URL win over whatever the model reports, so a misread price never
+  // replaces the catalogue's and the product keeps its history key
+  let currentPrice: number;
+  if (fallback) {
+    currentPrice = fallback.currentPrice;
+  } else {
+    const price = toPositiveNumber(source.currentPrice);
+    if (price.value === null) {
+      issues.push({ field: 'userProduct.currentPrice', message: `Invalid current price ${JSON.stringify(source.currentPrice)}.`, severity: 'error' });
+      return null;
+    }
+    if (price.coerced) {
+      issues.push({ field: 'userProduct.currentPrice', message: `Current price ${JSON.stringify(source.currentPrice)} was converted to a number.`, severity: 'repaired' });
+    }
+    currentPrice = price.value;
+  }
+
+  const url = fallback ? fallback.url : nonEmptyString(source.url) || undefined;
+  // The currency we submitted wins over whatever the model reports
+  const currency = fallback?.currency || validateCurrency(source.currency, 'userProduct.currency', issues);
+  const userProduct: UserProduct = currency ? { url, productName, currentPrice, currency } : { url, productName, currentPrice };
+  const constraints = fallback?.constraints || sanitizeConstraints(source.constraints);
+  if (constraints) userProduct.constraints = constraints;
+  // Submitted identifiers win; the model may fill in ones we didn't have
+  Object.assign(userProduct, readIdentifiers(source), fallback ? readIdentifiers(fallback) : {});
+  return userProduct;
+};
+
+/**
+ * Checks one raw analysis object. When `fallback` is given (the product we submitted),
+ * a missing or broken `userProduct` is repaired from it instead of rejecting the item.
+ */
+export const validateProductAnalysis = (
+  raw: unknown,
+  fallback?: UserProduct,
+): { analysis: ProductAnalysis | null; issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = [];
+  if (!isRecord(raw)) {
+    issues.push({ field: '', message: 'Analysis is not a JSON object.', severity: 'error' });
+    return { analysis: null, issues };
+  }
+
+  const userProduct = validateUserProduct(raw.userProduct, fallback, issues);
+
+  let competitors: Competitor[] = [];
+  if (Array.isArray(raw.competitors)) {
+    competitors = raw.competitors
+      .map((c, i) => validateCompetitor(c, `competitors[${i}]`, issues))
+      .filter((c): c is Competitor => c !== null);
+  } else {
+    issues.push({ field: 'competitors', message: 'Competitors list is missing; treated as empty.', severity: 'repaired' });
+  }
+
+  const suggested = toPositiveNumber(raw.suggestedPrice);
+  if (suggested.value === null) {
+    issues.push({ field: 'suggestedPrice', message: `Invalid suggested price ${JSON.stringify(raw.suggestedPrice)}.`, severity: 'error' });
+  } else if (suggested.coerced) {
+    issues.push({ field: 'suggestedPrice', message: `Suggested price ${JSON.stringify(raw.suggestedPrice)} was converted to a number.`, severity: 'repaired' });
+  }
+
+  const reasoning = nonEmptyString(raw.reasoning);
+  if (!reasoning) {
+    issues.push({ field: 'reasoning', message: 'Reasoning is missing.', severity: 'repaired' });
+  }
+  const marketSummary = nonEmptyString(raw.marketSummary);
+  if (!marketSummary) {
+    issues.push({ field: 'marketSummary', message: 'Market summary is missing.', severity: 'repaired' });
+  }
+
+  if (!userProduct || suggested.value === null) {
+    return { analysis: null, issues };
+  }
+
+  const analysis: ProductAnalysis = {
+    userProduct,
+    competitors,
+    suggestedPrice: suggested.value,
+    reasoning: reasoning || '',
+    marketSummary: marketSummary || '',
+  };
+  const sources = readSources(raw.sources);
+  if (sources) analysis.sources = sources;
+  // Guardrail outcomes, rule-based prices, scraped pages, decisions and settings travel with re-imported exports
+  const guardrails = readGuardrails(raw.guardrails);
+  if (guardrails) analysis.guardrails = guardrails;
+  const ruleBasedPrice = readRuleBasedPrice(raw.ruleBasedPrice);
+  if (ruleBasedPrice) analysis.ruleBasedPrice = ruleBasedPrice;
+  if (Array.isArray(raw.scrapedPages)) {
+    analysis.scrapedPages = raw.scrapedPages.map(readScrapedPage).filter((page): page is ScrapedProduct => page !== null);
+  }
+  const review = readReview(raw.review);
+  if (review) analysis.review = review;
+  const settings = readSettings(raw.settings);
+  if (settings) analysis.settings = settings;
+  // Issues recorded earlier travel with re-imported exports
+  const allIssues = mergeIssues(readIssues(raw.validationIssues), issues);
+  if (allIssues.length > 0) {
+    analysis.validationIssues = allIssues;
+  }
+  return { analysis, issues };
+};
+
+/** Reads the failed rows of an exported run; entries without a position, name and reason are dropped. */
+export const validateFailures = (raw: unknown): AnalysisFailure[] =>
+  Array.isArray(raw)
+    ? raw.flatMap(failure => {
+      if (!isRecord(failure) || typeof failure.productName !== 'string' || typeof failure.reason !== 'string') return [];
+      const index = finiteNumber(failure.index);
+      if (index === undefined || !Number.isInteger(index) || index < 0) return [];
+      return [{ index, productName: failure.productName, reason: failure.reason, issues: mergeIssues(readIssues(failure.issues)) }];
+    })
+    : [];
+
+const toUserProduct = (product: CsvProduct): UserProduct => ({
+  url: product.userProductUrl || undefined,
+  productName: product.productName,
+  currentPrice: product.currentPrice,
+  currency: product.currency,
+  constraints: product.constraints,
+  sku: product.sku,
+  gtin: product.gtin,
+  mpn: product.mpn,
+});
+
+/**
+ * Validates a batch response against the submitted products. Items are paired with
+ * inputs by product name first and by position otherwise, so one bad item never
+ * fails the rest of the batch.
+ */
+export const validateBatchResults = (rawItems: unknown[], products: CsvProduct[]): BatchAnalysisResult => {
+  const assigned: (unknown | undefined)[] = new Array(products.length).fill(undefined);
+  const unmatched: unknown[] = [];
+
+  rawItems.forEach(item => {
+    const name = isRecord(item) && isRecord(item.userProduct) ? nonEmptyString(item.userProduct.productName) : null;
+    const index = name
+      ? products.findIndex((p, i) => assigned[i] === undefined && p.productName.trim().toLowerCase() === name.toLowerCase())
+      : -1;
+    if (index >= 0) {
+      assigned[index] = item;
+    } else {
+      unmatched.push(item);
+    }
+  });
+  assigned.forEach((item, i) => {
+    if (item === undefined && unmatched.length > 0) {
+      assigned[i] = unmatched.shift();
+    }
+  });
+
+  const results: ProductAnalysis[] = [];
+  const failures: AnalysisFailure[] = [];
+  products.forEach((product, index) => {
+    const raw = assigned[index];
+    if (raw === undefined) {
+      failures.push({ index, productName: product.productName, reason: 'No analysis was returned for this product.', issues: [] });
+      return;
+    }
+    const { analysis, issues } = validateProductAnalysis(raw, toUserProduct(product));
+    if (analysis) {
+      results.push(analysis);
+    } else {
+      const errors = issues.filter(issue => issue.severity === 'error');
+      failures.push({ index, productName: product.productName, reason: errors.map(e => e.message).join(' '), issues });
+    }
+  });
+
+  return { results, failures };
+};
+
+export const formatIssues = (issues: ValidationIssue[]): string =>
+  issues.map(issue => (issue.field ? `${issue.field}: ${issue.message}` : issue.message)).join(' ');
@@ -0,0 +1,237 @@
+import type { ProductAnalysis, Competitor, PricingConstraints, ProductIdentifiers } from '../types';
+import { analyzeSingleProduct, analyzeBatchProducts } from './analysisService';
+import { productKey, saveRun } from './historyService';
+import { getActiveProjectId } from './projectService';
+
+// Watched products are re-analyzed on a schedule while the app (or the desktop
+// wrapper) stays open, and alerts are raised when a competitor changes.
+
+const WATCHLIST_KEY = 'predictgenie.watchlist';
+const ALERTS_KEY = 'predictgenie.watchAlerts';
+const MAX_STORED_ALERTS = 200;
+const SCHEDULER_TICK_MS = 60 * 1000;
+
+export const DEFAULT_WATCH_INTERVAL_MINUTES = 60;
+export const DEFAULT_PRICE_THRESHOLD_PCT = 5;
+
+export interface WatchedProduct extends ProductIdentifiers {
+  key: string; // See historyService.productKey
+  projectId?: string; // Project whose history receives the re-analyses
+  productName: string;
+  currentPrice: number;
+  currency?: string;
+  constraints?: PricingConstraints;
+  userProductUrl: string; // can be empty for CSV products
+  competitorUrls: string[];
+  intervalMinutes: number;
+  priceThresholdPct: number; // Alert when a competitor price moves at least this much
+  addedAt: string;
+  lastCheckedAt: string | null;
+  lastError: string | null;
+  lastAnalysis: ProductAnalysis;
+}
+
+export interface WatchAlert {
+  id: string;
+  productKey: string;
+  productName: string;
+  competitorUrl: string;
+  competitorName: string;
+  type: 'price' | 'outOfStock';
+  message: string;
+  createdAt: string;
+  read: boolean;
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not save ${key}:`, error);
+  }
+  listeners.forEach(listener => listener());
+};
+
+// Notifies `listener` whenever the watchlist or alerts change. Returns an unsubscribe function.
+export const subscribeToWatchlist = (listener: Listener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getWatchlist = (): WatchedProduct[] => readJson<WatchedProduct[]>(WATCHLIST_KEY, []);
+
+export const getAlerts = (): WatchAlert[] => readJson<WatchAlert[]>(ALERTS_KEY, []);
+
+export const isWatched = (analysis: ProductAnalysis): boolean => {
+  const key = productKey(analysis.userProduct);
+  return getWatchlist().some(item => item.key === key);
+};
+
+export const watchProduct = (analysis: ProductAnalysis) => {
+  const key = productKey(analysis.userProduct);
+  const watchlist = getWatchlist().filter(item => item.key !== key);
+  watchlist.push({
+    key,
+    projectId: getActiveProjectId(),
+    productName: analysis.userProduct.productName,
+    currentPrice: analysis.userProduct.currentPrice,
+    currency: analysis.userProduct.currency,
+    constraints: analysis.userProduct.constraints,
+    sku: analysis.userProduct.sku,
+    gtin: analysis.userProduct.gtin,
+    mpn: analysis.userProduct.mpn,
+    userProductUrl: analysis.userProduct.url || '',
+    competitorUrls: analysis.competitors.map(c => c.url).filter(Boolean),
+    intervalMinutes: DEFAULT_WATCH_INTERVAL_MINUTES,
+    priceThresholdPct: DEFAULT_PRICE_THRESHOLD_PCT,
+    addedAt: new Date().toISOString(),
+    lastCheckedAt: new Date().toISOString(),
+    lastError: null,
+    lastAnalysis: analysis,
+  });
+  writeJson(WATCHLIST_KEY, watchlist);
+};
+
+export const unwatchProduct = (key: string) => {
+  writeJson(WATCHLIST_KEY, getWatchlist().filter(item => item.key !== key));
+};
+
+export const updateWatchSettings = (key: string, settings: Partial<Pick<WatchedProduct, 'intervalMinutes' | 'priceThresholdPct'>>) => {
+  writeJson(WATCHLIST_KEY, getWatchlist().map(item => (item.key === key ? { ...item, ...settings } : item)));
+};
+
+export const markAlertsRead = () => {
+  writeJson(ALERTS_KEY, getAlerts().map(alert => ({ ...alert, read: true })));
+};
+
+export const clearAlerts = () => writeJson(ALERTS_KEY, []);
+
+/**
+ * Compares two analyses of the same product and returns an alert for every competitor
+ * whose price moved by at least `thresholdPct` or that went out of stock.
+ * Competitors are matched by URL, falling back to product name.
+ */
+export const detectChanges = (previous: ProductAnalysis, next: ProductAnalysis, thresholdPct: number): Omit<WatchAlert, 'id' | 'createdAt' | 'read'>[] => {
+  const competitorKey = (c: Competitor) => c.url || c.productName;
+  const before = new Map(previous.competitors.map(c => [competitorKey(c), c]));
+  const key = productKey(next.userProduct);
+  const alerts: Omit<WatchAlert, 'id' | 'createdAt' | 'read'>[] = [];
+
+  next.competitors.forEach(competitor => {
+    const old = before.get(competitorKey(competitor));
+    if (!old) return;
+    const base = { productKey: key, productName: next.userProduct.productName, competitorUrl: competitor.url, competitorName: competitor.productName };
+
+    if (old.price > 0) {
+      const changePct = ((competitor.price - old.price) / old.price) * 100;
+      if (Math.abs(changePct) >= thresholdPct) {
+        alerts.push({
+          ...base,
+          type: 'price',
+          message: `${competitor.productName} ${changePct > 0 ? 'raised' : 'dropped'} its price by ${Math.abs(changePct).toFixed(1)}% (${old.price.toFixed(2)} → ${competitor.price.toFixed(2)}).`,
+        });
+      }
+    }
+    if (competitor.stockStatus === 'Out of Stock' && old.stockStatus !== 'Out of Stock') {
+      alerts.push({ ...base, type: 'outOfStock', message: `${competitor.productName} is now out of stock.` });
+    }
+  });
+  return alerts;
+};
+
+const reanalyze = async (item: WatchedProduct): Promise<ProductAnalysis> => {
+  if (item.userProductUrl) {
+    return analyzeSingleProduct({ userProductUrl: item.userProductUrl, competitorUrls: item.competitorUrls, currency: item.currency, constraints: item.constraints }, undefined, item.projectId);
+  }
+  // CSV products may not have a URL; analyze them as a one-row batch instead
+  const batch = await analyzeBatchProducts([{
+    productName: item.productName,
+    currentPrice: item.currentPrice,
+    currency: item.currency,
+    constraints: item.constraints,
+    sku: item.sku,
+    gtin: item.gtin,
+    mpn: item.mpn,
+    userProductUrl: '',
+    competitorUrls: item.competitorUrls,
+  }], { projectId: item.projectId });
+  if (batch.results.length === 0) {
+    throw new Error(batch.failures[0]?.reason || 'No analysis was returned.');
+  }
+  return batch.results[0];
+};
+
+/**
+ * Re-analyzes one watched product now, stores the result in history and records
+ * any alerts. Returns the new alerts.
+ */
+export const checkWatchedProduct = async (key: string): Promise<WatchAlert[]> => {
+  const item = getWatchlist().find(watched => watched.key === key);
+  if (!item) return [];
+
+  const checkedAt = new Date().toISOString();
+  try {
+    const analysis = await reanalyze(item);
+    const newAlerts: WatchAlert[] = detectChanges(item.lastAnalysis, analysis, item.priceThresholdPct).map((alert, i) => ({
+      ...alert,
+      id: `${checkedAt}-${i}`,
+      createdAt: checkedAt,
+      read: false,
+    }));
+
+    writeJson(WATCHLIST_KEY, getWatchlist().map(watched => (watched.key === key
+      ? { ...watched, lastAnalysis: analysis, lastCheckedAt: checkedAt, lastError: null }
+      : watched)));
+    if (newAlerts.length > 0) {
+      writeJson(ALERTS_KEY, [...newAlerts, ...getAlerts()].slice(0, MAX_STORED_ALERTS));
+    }
+    saveRun([analysis], [], 'single', item.projectId).catch(err => console.warn('Could not save watched product to history:', err));
+    return newAlerts;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'An unknown error occurred.';
+    writeJson(WATCHLIST_KEY, getWatchlist().map(watched => (watched.key === key
+      ? { ...watched, lastCheckedAt: checkedAt, lastError: message }
+      : watched)));
+    return [];
+  }
+};
+
+const isDue = (item: WatchedProduct, now: number) =>
+  !item.lastCheckedAt || now - new Date(item.lastCheckedAt).getTime() >= item.intervalMinutes * 60 * 1000;
+
+/**
+ * Starts checking due products once a minute. Products are checked one at a time to
+ * stay gentle on the provider. Returns a function that stops the scheduler.
+ */
+export const startWatchScheduler = (onAlerts: (alerts: WatchAlert[]) => void): (() => void) => {
+  let isRunning = false;
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      const now = Date.now();
+      for (const item of getWatchlist().filter(watched => isDue(watched, now))) {
+        const alerts = await checkWatchedProduct(item.key);
+        if (alerts.length > 0) onAlerts(alerts);
+      }
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  const timer = setInterval(tick, SCHEDULER_TICK_MS);
+  tick();
+  return () => clearInterval(timer);
+};
@@ -1,16 +1,93 @@
 
-export interface Competitor {
+// Where a competitor value came from: read from the page itself, backed by a web search
+// result, or made up by the model
+export type DataOrigin = 'scraped' | 'grounded' | 'estimated';
+
+export interface FieldProvenance {
+  origin: DataOrigin;
+  sourceUrl?: string;
+  fetchedAt?: string; // ISO timestamp of the fetch or search
+  confidence: number; // 0 to 1
+}
+
+export type CompetitorField = 'productName' | 'price' | 'stockStatus' | 'priceTrend';
+
+// Codes that identify a product beyond its name. GTIN (EAN/UPC) and MPN are the same
+// at every retailer; a SKU is the seller's own code.
+export interface ProductIdentifiers {
+  sku?: string;
+  gtin?: string;
+  mpn?: string; // Manufacturer part number
+}
+
+// How sure we are that a competitor listing is the same item as the user's product
+export type MatchVerdict = 'match' | 'possible' | 'mismatch';
+
+export interface ProductMatch {
+  verdict: MatchVerdict;
+  score: number; // 0 to 1
+  basis: 'identifier' | 'title'; // Decided by GTIN/MPN, or by comparing titles
+  reasons: string[];
+}
+
+// A competitor shop saved in the registry. Its listings are recognized by domain.
+export interface CompetitorStore {
+  id: string;
+  name: string;
+  domain: string; // Hostname without "www."; subdomains match too
+  region?: string; // e.g. "UK" or "EU"
+  shippingCost?: number; // Typically added at checkout, in the analyzed product's currency
+  taxExcluded?: boolean; // Listed prices exclude sales tax / VAT
+  taxRatePct?: number; // Added to listed prices when taxExcluded is set
+  trustWeight: number; // 0 to 1; how much its prices count in the rule-based price
+  productUrls: Record<string, string>; // Product page at this store by our product (see historyService.productKey)
+}
+
+export interface Competitor extends ProductIdentifiers {
   url: string;
   productName: string;
   price: number;
   stockStatus: 'In Stock' | 'Low Stock' | 'Out of Stock';
   priceTrend: 'up' | 'down' | 'stable';
+  currency?: string; // ISO 4217 code; after normalization this is the user product's currency
+  originalPrice?: number; // Price as listed, before conversion
+  originalCurrency?: string;
+  provenance?: Partial<Record<CompetitorField, FieldProvenance>>; // Filled for every field once validated
+  discovered?: boolean; // Found by web search rather than given by the user
+  match?: ProductMatch; // Set once the listing was compared with the user's product
+  store?: Pick<CompetitorStore, 'id' | 'name' | 'trustWeight'>; // Registry store the listing belongs to
+  landedPrice?: number; // Price with the store's shipping and tax added, when it has such assumptions
 }
 
-export interface UserProduct {
+export interface UserProduct extends ProductIdentifiers {
   url?: string; // URL is optional for CSV input
   productName: string;
   currentPrice: number;
+  currency?: string; // ISO 4217 code, defaults to the configured base currency
+  constraints?: PricingConstraints;
+}
+
+// Optional business rules a suggested price must respect, in the product's currency
+export interface PricingConstraints {
+  cost?: number; // Unit cost
+  minMarginPct?: number; // Minimum gross margin, (price - cost) / price
+  floorPrice?: number;
+  ceilingPrice?: number;
+  mapPrice?: number; // Manufacturer minimum advertised price
+}
+
+export interface GuardrailViolation {
+  rule: 'minMargin' | 'floor' | 'ceiling' | 'map' | 'conflict';
+  message: string;
+  action: 'clamped' | 'flagged';
+}
+
+// Outcome of checking the AI suggestion against the product's constraints
+export interface GuardrailResult {
+  aiSuggestedPrice: number; // The suggestion before any clamping
+  margin?: number; // suggestedPrice - cost, when cost is known
+  marginPct?: number;
+  violations: GuardrailViolation[];
 }
 
 // This represents a single product's full analysis
@@ -21,16 +98,179 @@ export interface ProductAnalysis {
   reasoning: string;
   marketSummary: string;
   sources?: { web: { uri: string; title: string } }[]; // Added for web search results
+  validationIssues?: ValidationIssue[]; // Problems found (and repaired) when validating the model output
+  guardrails?: GuardrailResult; // Set when the product has pricing constraints
+  ruleBasedPrice?: RuleBasedPrice; // Deterministic price from the competitor data, for comparison
+  scrapedPages?: ScrapedProduct[]; // Pages read by the server before the model was asked
+  review?: PriceReview; // The user's decision on the suggestion; absent while pending
+  settings?: AnalysisSettings; // Strategy, model and prompt version used; absent on results from before they were configurable
+}
+
+// What the AI suggestion aims for. Unlike PricingStrategy (the local rule-based price),
+// this shapes the prompt the model is given.
+export type AnalysisStrategy = 'balanced' | 'marketShare' | 'premium' | 'clearance' | 'priceMatch';
+
+// Prompt text for both analysis modes, with {{placeholders}} (see services/promptTemplates.ts)
+export interface PromptTemplates {
+  single: string;
+  batch: string;
+}
+
+// A saved edit of the templates. Versions are never changed once saved.
+export interface PromptTemplateVersion extends PromptTemplates {
+  version: number; // 0 is the built-in template
+  createdAt: string; // ISO timestamp
+  note?: string;
+}
+
+// Sent with every analysis request; without templates the server uses its built-in ones
+export interface AnalysisConfig {
+  strategy: AnalysisStrategy;
+  model: string;
+  temperature: number;
+  templates?: PromptTemplates;
+}
+
+// How a result was produced, stored with it so runs can be reproduced and compared
+export interface AnalysisSettings {
+  strategy: AnalysisStrategy;
+  model: string;
+  temperature: number;
+  templateVersion: number; // Of the project's prompt templates, 0 for the built-in one
+}
+
+export type ReviewDecision = 'accepted' | 'rejected' | 'overridden';
+
+export interface PriceReview {
+  decision: ReviewDecision;
+  price?: number; // Price to publish: the suggestion when accepted, the user's own when overridden
+  note?: string;
+  decidedAt: string; // ISO timestamp
+}
+
+export type PricingStrategy = 'undercutLowest' | 'matchMedian' | 'premiumOverAverage';
+
+export interface PricingRuleConfig {
+  strategy: PricingStrategy;
+  adjustmentPct: number; // Undercut or premium, in percent of the reference price
+  excludeOutOfStock: boolean; // Ignore sellers that are out of stock
+}
+
+export interface RuleBasedPrice {
+  price: number;
+  referencePrice: number; // Lowest, median or average competitor price the rule started from
+  competitorsUsed: number;
+  config: PricingRuleConfig; // Settings in effect when the price was computed
+  explanation: string;
+}
+
+// How demand reacts to price in the what-if simulator
+export type ElasticityModel = 'constant' | 'linear';
+
+export interface ElasticityConfig {
+  model: ElasticityModel;
+  elasticity: number; // % change in units sold per 1% price change; negative for normal goods
 }
 
 // The overall result from an analysis run is an array of individual analyses
 export type AnalysisResult = ProductAnalysis[];
 
+// A field-level problem found while checking model output against the types above
+export interface ValidationIssue {
+  field: string; // e.g. "competitors[1].price"
+  message: string;
+  severity: 'repaired' | 'warning' | 'error'; // 'error' means the item was rejected
+}
+
+// A batch row whose analysis was missing or could not be repaired
+// Product facts read from a page's structured data (JSON-LD, microdata or OpenGraph)
+export interface ScrapedProduct extends ProductIdentifiers {
+  url: string;
+  fetchedAt: string; // ISO timestamp
+  productName?: string;
+  price?: number;
+  currency?: string;
+  stockStatus?: Competitor['stockStatus'];
+  sources: ('json-ld' | 'microdata' | 'opengraph')[]; // Formats the facts were found in, most trusted first
+  error?: string; // Set when the page could not be fetched or read
+}
+
+export interface AnalysisFailure {
+  index: number; // Position of the product in the submitted batch
+  productName: string;
+  reason: string;
+  issues: ValidationIssue[];
+}
+
+export interface BatchAnalysisResult {
+  results: AnalysisResult;
+  failures: AnalysisFailure[];
+}
+
 
 // This is for passing data to the analysis service
-export interface CsvProduct {
+export interface CsvProduct extends ProductIdentifiers {
   productName: string;
   currentPrice: number;
   userProductUrl: string; // can be empty
   competitorUrls: string[]; // can be empty
+  currency?: string; // ISO 4217 code of currentPrice
+  constraints?: PricingConstraints;
+}
+
+// Which CSV column feeds each product field; empty strings are unmapped
+export interface CsvFieldMapping {
+  productName: string;
+  currentPrice: string;
+  userProductUrl: string;
+  currency: string;
+  competitorUrls: string[];
+  identifiers: Record<keyof ProductIdentifiers, string>;
+  constraints: Record<keyof PricingConstraints, string>;
+}
+
+// Input for analyzing a single product by URL
+export interface SingleProductInput {
+  userProductUrl: string;
+  competitorUrls: string[];
+  currency?: string; // Currency the user's product is sold in
+  constraints?: PricingConstraints;
+  findCompetitors?: boolean; // Search the web for competitors besides competitorUrls (always when the list is empty)
+}
+
+// What the input form submits for analysis
+export type AnalysisRequest = ({ type: 'url' } & SingleProductInput) | { type: 'csv'; products: CsvProduct[] };
+
+// Reported while a batch runs so the UI can show progress and a partial table
+export interface BatchProgress {
+  completed: number; // Rows finished, successfully or not
+  total: number;
+  partial: BatchAnalysisResult;
+}
+
+// An approved price sent to a store platform. The product is looked up by SKU when
+// given, otherwise by its product page URL.
+export interface PriceUpdate {
+  productUrl?: string;
+  sku?: string;
+  productName?: string; // For reports only
+  newPrice: number;
+  currency?: string;
+  constraints?: PricingConstraints; // Checked on the server before the store is contacted
+}
+
+export type RepriceStatus = 'updated' | 'wouldUpdate' | 'unchanged' | 'notFound' | 'blocked' | 'failed';
+
+export interface RepriceItemResult {
+  update: PriceUpdate;
+  status: RepriceStatus; // `wouldUpdate` only in dry runs
+  productId?: string; // The store's id for the product
+  previousPrice?: number; // Price in the store before the update
+  message?: string; // Why the item failed, was blocked or was skipped
+}
+
+export interface RepriceReport {
+  connector: string; // Label of the store connector used
+  dryRun: boolean;
+  results: RepriceItemResult[]; // In the order of the submitted updates
 }
@@ -0,0 +1,20 @@
+import { getCurrencySettings } from '../services/currencyService';
+
+// Defaults to the configured base currency and locale
+export const formatCurrency = (amount: number, currency?: string, locale?: string) => {
+  const settings = getCurrencySettings();
+  return new Intl.NumberFormat(locale || settings.locale, {
+    style: 'currency',
+    currency: currency || settings.baseCurrency,
+  }).format(amount);
+};
+
+export const formatDateTime = (iso: string) => new Date(iso).toLocaleString(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+export const formatShortDate = (timestamp: number) => new Date(timestamp).toLocaleDateString(undefined, {
+  month: 'short',
+  day: 'numeric',
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeUrl } from './url';
+import { productKey } from '../services/historyService';
+
+describe('normalizeUrl', () => {
+  it('lowercases only the scheme and host', () => {
+    expect(normalizeUrl(' HTTPS://Shop.Example.COM/Products/AB-12?Variant=Blue#reviews ')).toBe('https://shop.example.com/Products/AB-12?Variant=Blue');
+  });
+
+  it('ignores trailing slashes and default ports', () => {
+    expect(normalizeUrl('https://shop.example.com:443/kettle/')).toBe('https://shop.example.com/kettle');
+    expect(normalizeUrl('https://shop.example.com/')).toBe('https://shop.example.com');
+  });
+
+  it('keeps the path case of URLs without a scheme', () => {
+    expect(normalizeUrl('Shop.Example.com/Kettle/')).toBe('shop.example.com/Kettle');
+  });
+});
+
+describe('productKey', () => {
+  it('uses the same normalization, ignoring protocol and "www."', () => {
+    const key = productKey({ url: 'http://WWW.Shop.example/Item/ABC/', productName: 'Kettle' });
+    expect(key).toBe('url:shop.example/Item/ABC');
+    expect(productKey({ url: 'https://shop.example/Item/ABC', productName: 'Other name' })).toBe(key);
+    expect(productKey({ url: 'https://shop.example/item/abc', productName: 'Kettle' })).not.toBe(key);
+  });
+});
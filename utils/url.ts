@@ -0,0 +1,25 @@
+// Compares URLs the way a shopper would: ignores fragments, trailing slashes and the case of
+// the scheme and host. Paths and queries keep their case, since most servers treat it as significant.
+export const normalizeUrl = (url: string): string => {
+  const trimmed = url.trim();
+  try {
+    const parsed = new URL(trimmed);
+    // URL has already lowercased the scheme and host
+    return `${parsed.protocol}//${parsed.host}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+  } catch {
+    // Not an absolute URL: the part before the first "/" is the host
+    const [host, ...path] = trimmed.replace(/#.*$/, '').replace(/\/+$/, '').split('/');
+    return [host.toLowerCase(), ...path].join('/');
+  }
+};
+
+// Hostname without "www.", e.g. "shop.example.com"; bare domains are accepted too
+export const urlDomain = (url: string): string => {
+  const trimmed = url.trim();
+  if (!trimmed) return '';
+  try {
+    return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
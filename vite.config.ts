@@ -1,12 +1,38 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import type { Plugin } from 'vite';
+import { createApiHandler } from './server/api';
+import type { ApiOptions } from './server/api';
+import { createMockStore } from './server/mockStore';
+
+// Serves the analysis API (server/api.ts) from the dev and preview servers, so
+// `npm run dev` works without starting a separate backend. The Gemini key is only
+// read here, on the server side, and is never defined into the client bundle.
+// With MOCK_STORE=1 the in-memory test store is served under /mock-store too.
+const analysisApi = (options: ApiOptions, mockStore: boolean): Plugin => ({
+  name: 'predictgenie-analysis-api',
+  configureServer(server) {
+    if (mockStore) server.middlewares.use(createMockStore({ token: options.store?.token }));
+    server.middlewares.use(createApiHandler(options));
+  },
+  configurePreviewServer(server) {
+    if (mockStore) server.middlewares.use(createMockStore({ token: options.store?.token }));
+    server.middlewares.use(createApiHandler(options));
+  },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [analysisApi({
+        apiKey: env.GEMINI_API_KEY,
+        accessToken: env.API_ACCESS_TOKEN,
+        store: env.STORE_API_URL ? { baseUrl: env.STORE_API_URL, token: env.STORE_API_TOKEN } : undefined,
+        repriceToken: env.REPRICE_TOKEN,
+      }, env.MOCK_STORE === '1')],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.ANALYSIS_PROVIDER': JSON.stringify(env.ANALYSIS_PROVIDER),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL || '')
       },
       resolve: {
         alias: {